@@ -0,0 +1,213 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { storeFetch } from "@/lib/store-selection";
+import { useCallback, useEffect, useState } from "react";
+
+interface CustomLabel {
+  id: number;
+  slot: number;
+  label: string;
+  expression: string;
+  position: number;
+  description: string | null;
+  active: number;
+}
+
+const SLOTS = [0, 1, 2, 3, 4];
+
+interface CustomLabelManagerProps {
+  storeId: string;
+}
+
+export function CustomLabelManager({ storeId }: CustomLabelManagerProps) {
+  const [labels, setLabels] = useState<CustomLabel[]>([]);
+  const [slot, setSlot] = useState("0");
+  const [label, setLabel] = useState("");
+  const [expression, setExpression] = useState("");
+  const [position, setPosition] = useState("0");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchLabels = useCallback(async () => {
+    try {
+      const res = await storeFetch("/api/custom-labels");
+      const data = await res.json();
+      if (data.labels) {
+        setLabels(data.labels);
+      }
+    } catch (err) {
+      console.error("Failed to fetch custom labels:", err);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    fetchLabels();
+  }, [fetchLabels]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await storeFetch("/api/custom-labels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          slot: parseInt(slot, 10),
+          label: label.trim(),
+          expression: expression.trim(),
+          position: parseInt(position, 10) || 0,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setLabel("");
+        setExpression("");
+        fetchLabels();
+      } else {
+        setError(data.error || "Failed to create label");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (item: CustomLabel) => {
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/custom-labels/${item.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !item.active }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to update label");
+      }
+      fetchLabels();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleDelete = async (item: CustomLabel) => {
+    if (!confirm(`Delete the "${item.label}" rule?`)) return;
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/custom-labels/${item.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to delete label");
+      }
+      fetchLabels();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Labels</CardTitle>
+        <CardDescription>
+          Fill custom_label_0–4 for campaign product sets. Per label slot, the first matching rule (lowest
+          position) wins. Fields: price, sale_price, on_sale, sku, name, stock_quantity, total_sales, categories,
+          tags, meta.&lt;key&gt;.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left py-2 px-3 font-medium">Slot</th>
+                <th className="text-left py-2 px-3 font-medium">Position</th>
+                <th className="text-left py-2 px-3 font-medium">Expression</th>
+                <th className="text-left py-2 px-3 font-medium">Label</th>
+                <th className="text-left py-2 px-3 font-medium">State</th>
+                <th className="text-left py-2 px-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {labels.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-muted-foreground">
+                    No label rules - custom labels are left untouched
+                  </td>
+                </tr>
+              )}
+              {labels.map((item) => (
+                <tr key={item.id} className="border-b">
+                  <td className="py-3 px-3 font-medium">custom_label_{item.slot}</td>
+                  <td className="py-3 px-3">{item.position}</td>
+                  <td className="py-3 px-3"><code className="bg-muted px-1 rounded">{item.expression}</code></td>
+                  <td className="py-3 px-3">{item.label}</td>
+                  <td className="py-3 px-3">
+                    {item.active ? (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+                    ) : (
+                      <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">Inactive</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-3 text-right space-x-2 whitespace-nowrap">
+                    <Button variant="outline" size="sm" onClick={() => handleToggle(item)}>
+                      {item.active ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-3">
+          <Select value={slot} onValueChange={setSlot}>
+            <SelectTrigger className="min-w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOTS.map((s) => (
+                <SelectItem key={s} value={String(s)}>custom_label_{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="Position"
+            value={position}
+            onChange={(e) => setPosition(e.target.value)}
+            className="w-24"
+          />
+          <Input
+            placeholder="e.g. sale_price != '' or categories in ['Winter']"
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            className="flex-[2] min-w-[240px] font-mono"
+          />
+          <Input
+            placeholder="Label, e.g. on_sale"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="flex-1 min-w-[140px]"
+          />
+          <Button type="submit" disabled={saving || !label.trim() || !expression.trim()}>
+            Add Label
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { WebhookViewer } from "@/components/WebhookViewer";
+import { FeedStyleManager, type FeedStyle } from "@/components/FeedStyleManager";
+import { FeedRuleManager } from "@/components/FeedRuleManager";
+import { CustomLabelManager } from "@/components/CustomLabelManager";
+import { FeedVersionHistory } from "@/components/FeedVersionHistory";
+import { FeedTokenManager } from "@/components/FeedTokenManager";
+import { JobScheduler } from "@/components/JobScheduler";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCatalogUrl, getChannelFeedUrl, getSelectedStoreId, setSelectedStoreId, storeFetch } from "@/lib/store-selection";
 import { useEffect, useState, useCallback } from "react";
 
 interface SyncStats {
@@ -39,6 +47,19 @@ interface TaskProgress {
   elapsed?: number;
 }
 
+interface StoreSummary {
+  id: string;
+  name: string;
+  active: number;
+}
+
+// Feeds for other ad channels, generated next to the Meta CSVs
+const CHANNEL_FEEDS = [
+  { channel: "google", label: "Google XML", format: "google_xml" },
+  { channel: "tiktok", label: "TikTok CSV", format: "tiktok_csv" },
+  { channel: "pinterest", label: "Pinterest CSV", format: "pinterest_csv" },
+] as const;
+
 interface DashboardProps {
   onLogout: () => void;
 }
@@ -48,7 +69,10 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
-  const [activeTab, setActiveTab] = useState<"overview" | "webhooks">("overview");
+  const [activeTab, setActiveTab] = useState<"overview" | "styles" | "rules" | "labels" | "history" | "access" | "jobs" | "webhooks">("overview");
+  const [styles, setStyles] = useState<FeedStyle[]>([]);
+  const [stores, setStores] = useState<StoreSummary[]>([]);
+  const [storeId, setStoreId] = useState<string>(getSelectedStoreId);
 
   // Task progress state
   const [progress, setProgress] = useState<TaskProgress>({
@@ -67,7 +91,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
 
   const fetchStats = useCallback(async () => {
     try {
-      const res = await fetch("/api/sync/status");
+      const res = await storeFetch("/api/sync/status");
       const data = await res.json();
       if (data.error) {
         setError(data.error);
@@ -81,8 +105,44 @@ export function Dashboard({ onLogout }: DashboardProps) {
       setLoading(false);
       setLastRefresh(new Date());
     }
+  }, [storeId]);
+
+  const fetchStyles = useCallback(async () => {
+    try {
+      const res = await fetch("/api/styles");
+      const data = await res.json();
+      if (data.styles) {
+        setStyles(data.styles);
+      }
+    } catch (err) {
+      console.error("Failed to fetch styles:", err);
+    }
+  }, []);
+
+  const fetchStores = useCallback(async () => {
+    try {
+      const res = await fetch("/api/stores");
+      const data = await res.json();
+      if (data.stores) {
+        setStores(data.stores);
+      }
+    } catch (err) {
+      console.error("Failed to fetch stores:", err);
+    }
   }, []);
 
+  useEffect(() => {
+    fetchStyles();
+    fetchStores();
+  }, [fetchStyles, fetchStores]);
+
+  const handleStoreChange = (id: string) => {
+    setSelectedStoreId(id);
+    setStoreId(id);
+    setStats(null);
+    setLastResult(null);
+  };
+
   useEffect(() => {
     fetchStats();
     const interval = setInterval(fetchStats, 30000);
@@ -128,7 +188,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const handleInitialSync = async () => {
     startTask("sync", "Fetching products from WooCommerce and syncing to Meta Catalog...");
     try {
-      const res = await fetch("/api/sync/initial", { method: "POST" });
+      const res = await storeFetch("/api/sync/initial", { method: "POST" });
       const data = await res.json();
       if (data.success) {
         endTask(true, `Synced ${data.report.synced} products (${data.report.created} created, ${data.report.updated} updated, ${data.report.errors} errors)`);
@@ -141,13 +201,29 @@ export function Dashboard({ onLogout }: DashboardProps) {
     }
   };
 
+  const handleDeltaSync = async () => {
+    startTask("delta", "Syncing products changed in WooCommerce since the last run...");
+    try {
+      const res = await storeFetch("/api/sync/delta", { method: "POST" });
+      const data = await res.json();
+      if (data.success) {
+        endTask(true, `${data.report.changed} changed products: ${data.report.synced} synced, ${data.report.skipped} skipped, ${data.report.errors} errors`);
+        fetchStats();
+      } else {
+        endTask(false, data.error || "Delta sync failed");
+      }
+    } catch (err) {
+      endTask(false, String(err));
+    }
+  };
+
   const handleGenerateFast = async () => {
-    startTask("generate-fast", "Generating CSV catalogs from cache...");
+    startTask("generate-fast", "Generating CSV and XML catalogs from cache...");
     try {
-      const res = await fetch("/api/catalog/generate");
+      const res = await storeFetch("/api/catalog/generate");
       const data = await res.json();
       if (data.success) {
-        endTask(true, `Generated both catalogs`, data.elapsed);
+        endTask(true, `Generated ${Object.keys(data.urls).length} catalogs`, data.elapsed);
         fetchStats();
       } else {
         endTask(false, data.error || "Generation failed");
@@ -157,13 +233,29 @@ export function Dashboard({ onLogout }: DashboardProps) {
     }
   };
 
+  const handleGenerateFormat = async (format: string, label: string) => {
+    startTask(`generate-${format}`, `Generating ${label} feeds from cache...`);
+    try {
+      const res = await storeFetch(`/api/catalog/generate/${format}`);
+      const data = await res.json();
+      if (data.success) {
+        const skipped = Object.values(data.skipped as Record<string, number>).reduce((sum, n) => sum + n, 0);
+        endTask(true, `Generated ${Object.keys(data.urls).length} ${label} feeds${skipped ? `, ${skipped} items skipped` : ""}`, data.elapsed);
+      } else {
+        endTask(false, data.error || "Generation failed");
+      }
+    } catch (err) {
+      endTask(false, String(err));
+    }
+  };
+
   const handleGenerateRefresh = async () => {
-    startTask("generate-refresh", "Fetching fresh data from WooCommerce and generating CSVs...");
+    startTask("generate-refresh", "Fetching fresh data from WooCommerce and generating catalogs...");
     try {
-      const res = await fetch("/api/catalog/generate?refresh=true");
+      const res = await storeFetch("/api/catalog/generate?refresh=true");
       const data = await res.json();
       if (data.success) {
-        endTask(true, `Generated both catalogs with fresh data`, data.elapsed);
+        endTask(true, `Generated ${Object.keys(data.urls).length} catalogs with fresh data`, data.elapsed);
         fetchStats();
       } else {
         endTask(false, data.error || "Generation failed");
@@ -176,7 +268,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const handleRegenerateImages = async () => {
     startTask("regenerate", "Regenerating all product images with current prices...");
     try {
-      const res = await fetch("/api/sync/regenerate", { method: "POST" });
+      const res = await storeFetch("/api/sync/regenerate", { method: "POST" });
       const data = await res.json();
       if (data.success) {
         endTask(true, data.message);
@@ -192,7 +284,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
   const handleCleanupMain = async () => {
     startTask("cleanup", "Removing _main products from Meta catalog...");
     try {
-      const res = await fetch("/api/sync/cleanup-main", { method: "POST" });
+      const res = await storeFetch("/api/sync/cleanup-main", { method: "POST" });
       const data = await res.json();
       if (data.success) {
         endTask(true, data.message);
@@ -246,6 +338,20 @@ export function Dashboard({ onLogout }: DashboardProps) {
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <h1 className="text-xl font-bold">Meta Catalog Sync Dashboard</h1>
           <div className="flex items-center gap-4">
+            {stores.length > 1 && (
+              <Select value={storeId} onValueChange={handleStoreChange} disabled={progress.active}>
+                <SelectTrigger size="sm" className="min-w-40">
+                  <SelectValue placeholder="Select store" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stores.map((store) => (
+                    <SelectItem key={store.id} value={store.id}>
+                      {store.name}{store.active ? "" : " (inactive)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <span className="text-sm text-muted-foreground">
               Last refresh: {lastRefresh.toLocaleTimeString()}
             </span>
@@ -270,6 +376,66 @@ export function Dashboard({ onLogout }: DashboardProps) {
             >
               Overview
             </button>
+            <button
+              onClick={() => setActiveTab("styles")}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === "styles"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Feed Styles
+            </button>
+            <button
+              onClick={() => setActiveTab("rules")}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === "rules"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Feed Rules
+            </button>
+            <button
+              onClick={() => setActiveTab("labels")}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === "labels"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Custom Labels
+            </button>
+            <button
+              onClick={() => setActiveTab("history")}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === "history"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Feed History
+            </button>
+            <button
+              onClick={() => setActiveTab("access")}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === "access"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Feed Access
+            </button>
+            <button
+              onClick={() => setActiveTab("jobs")}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === "jobs"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Scheduled Jobs
+            </button>
             <button
               onClick={() => setActiveTab("webhooks")}
               className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
@@ -409,6 +575,21 @@ export function Dashboard({ onLogout }: DashboardProps) {
                         "Run Initial Sync"
                       )}
                     </Button>
+                    <Button
+                      onClick={handleDeltaSync}
+                      disabled={progress.active}
+                      variant="secondary"
+                      size="lg"
+                    >
+                      {progress.active && progress.task === "delta" ? (
+                        <>
+                          <span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                          Syncing changes...
+                        </>
+                      ) : (
+                        "Sync Changes"
+                      )}
+                    </Button>
                     <Button
                       onClick={handleRegenerateImages}
                       disabled={progress.active}
@@ -442,6 +623,7 @@ export function Dashboard({ onLogout }: DashboardProps) {
                   </div>
                   <p className="text-xs text-muted-foreground">
                     <strong>Initial Sync:</strong> Fetches products from WooCommerce and syncs to Meta Catalog<br />
+                    <strong>Sync Changes:</strong> Only syncs products modified since the last run (including drafts and out-of-stock)<br />
                     <strong>Regenerate Images:</strong> Re-syncs all products with updated price images<br />
                     <strong>Delete _main:</strong> Removes variable parent products from Meta (only variations should be synced)
                   </p>
@@ -489,19 +671,43 @@ export function Dashboard({ onLogout }: DashboardProps) {
                 <div className="border-t pt-6 space-y-3">
                   <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">Download Generated Files</h3>
                   <div className="flex flex-wrap gap-3">
-                    <Button variant="secondary" asChild>
-                      <a href="/product_catalog_standard.csv" target="_blank">
-                        Download Standard CSV
-                      </a>
-                    </Button>
-                    <Button variant="secondary" asChild>
-                      <a href="/product_catalog_christmas.csv" target="_blank">
-                        Download Christmas CSV
-                      </a>
-                    </Button>
+                    {styles.filter((style) => style.active).map((style) => (
+                      <Button key={style.name} variant="secondary" asChild>
+                        <a href={getCatalogUrl(storeId, style.name)} target="_blank">
+                          Download {style.name} CSV
+                        </a>
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    {styles.filter((style) => style.active).map((style) => (
+                      <div key={style.name} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="w-24 text-muted-foreground">{style.name}</span>
+                        {CHANNEL_FEEDS.map(({ channel, label }) => (
+                          <Button key={channel} variant="outline" size="sm" asChild>
+                            <a href={getChannelFeedUrl(storeId, channel, style.name)} target="_blank">
+                              {label}
+                            </a>
+                          </Button>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {CHANNEL_FEEDS.map(({ channel, label, format }) => (
+                      <Button
+                        key={channel}
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleGenerateFormat(format, label)}
+                        disabled={progress.active}
+                      >
+                        Regenerate {label} only
+                      </Button>
+                    ))}
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Download the last generated CSV files (only in-stock products)
+                    Download the last generated Meta CSV, Google Merchant XML, TikTok and Pinterest files (only in-stock products)
                   </p>
                 </div>
               </CardContent>
@@ -567,8 +773,32 @@ export function Dashboard({ onLogout }: DashboardProps) {
           </>
         )}
 
+        {activeTab === "styles" && (
+          <FeedStyleManager styles={styles} onChange={fetchStyles} />
+        )}
+
+        {activeTab === "rules" && (
+          <FeedRuleManager storeId={storeId} />
+        )}
+
+        {activeTab === "labels" && (
+          <CustomLabelManager storeId={storeId} />
+        )}
+
+        {activeTab === "history" && (
+          <FeedVersionHistory storeId={storeId} styles={styles} />
+        )}
+
+        {activeTab === "access" && (
+          <FeedTokenManager storeId={storeId} styles={styles} />
+        )}
+
+        {activeTab === "jobs" && (
+          <JobScheduler storeId={storeId} styles={styles} />
+        )}
+
         {activeTab === "webhooks" && (
-          <WebhookViewer />
+          <WebhookViewer storeId={storeId} />
         )}
       </main>
     </div>
@@ -0,0 +1,254 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { storeFetch } from "@/lib/store-selection";
+import { useCallback, useEffect, useState } from "react";
+
+interface FeedRule {
+  id: number;
+  action: "include" | "exclude";
+  type: string;
+  value: string;
+  description: string | null;
+  active: number;
+}
+
+const RULE_TYPES: { type: string; label: string; placeholder: string }[] = [
+  { type: "category", label: "Category", placeholder: "Category ID (subcategories included)" },
+  { type: "tag", label: "Tag", placeholder: "Tag slug or name" },
+  { type: "sku_pattern", label: "SKU pattern", placeholder: "e.g. TEST-* or *-SAMPLE" },
+  { type: "price_range", label: "Price range", placeholder: "min-max, e.g. 0-5 or 100-" },
+  { type: "missing_image", label: "Missing image", placeholder: "No value needed" },
+  { type: "meta_flag", label: "Meta flag", placeholder: "e.g. _exclude_from_meta or key=value" },
+];
+
+interface FeedRuleManagerProps {
+  storeId: string;
+}
+
+export function FeedRuleManager({ storeId }: FeedRuleManagerProps) {
+  const [rules, setRules] = useState<FeedRule[]>([]);
+  const [action, setAction] = useState<"include" | "exclude">("exclude");
+  const [type, setType] = useState("category");
+  const [value, setValue] = useState("");
+  const [description, setDescription] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await storeFetch("/api/feed-rules");
+      const data = await res.json();
+      if (data.rules) {
+        setRules(data.rules);
+      }
+    } catch (err) {
+      console.error("Failed to fetch feed rules:", err);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await storeFetch("/api/feed-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          type,
+          value: value.trim(),
+          description: description.trim() || null,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setValue("");
+        setDescription("");
+        fetchRules();
+      } else {
+        setError(data.error || "Failed to create rule");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: FeedRule) => {
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/feed-rules/${rule.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !rule.active }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to update rule");
+      }
+      fetchRules();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleDelete = async (rule: FeedRule) => {
+    if (!confirm(`Delete this ${rule.action} rule?`)) return;
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/feed-rules/${rule.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to delete rule");
+      }
+      fetchRules();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await storeFetch("/api/sync/feed-rules", { method: "POST" });
+      const data = await res.json();
+      if (data.report) {
+        setMessage(`${data.report.withdrawn} withdrawn, ${data.report.restored} restored, ${data.report.errors} errors`);
+      } else {
+        setError(data.error || "Failed to apply rules");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const typeInfo = RULE_TYPES.find((t) => t.type === type);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Feed Rules</CardTitle>
+          <CardDescription>
+            Exclude rules keep matching products out of CSV feeds and the Meta catalog. With include rules, only
+            matching products are published.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleApply} disabled={applying}>
+          {applying ? "Applying..." : "Apply to Meta"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            {message}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left py-2 px-3 font-medium">Action</th>
+                <th className="text-left py-2 px-3 font-medium">Type</th>
+                <th className="text-left py-2 px-3 font-medium">Value</th>
+                <th className="text-left py-2 px-3 font-medium">Description</th>
+                <th className="text-left py-2 px-3 font-medium">State</th>
+                <th className="text-left py-2 px-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-muted-foreground">
+                    No rules - every in-stock product is published
+                  </td>
+                </tr>
+              )}
+              {rules.map((rule) => (
+                <tr key={rule.id} className="border-b">
+                  <td className="py-3 px-3 font-medium capitalize">{rule.action}</td>
+                  <td className="py-3 px-3">{RULE_TYPES.find((t) => t.type === rule.type)?.label ?? rule.type}</td>
+                  <td className="py-3 px-3">{rule.value ? <code className="bg-muted px-1 rounded">{rule.value}</code> : "—"}</td>
+                  <td className="py-3 px-3 text-muted-foreground">{rule.description || "—"}</td>
+                  <td className="py-3 px-3">
+                    {rule.active ? (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+                    ) : (
+                      <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">Inactive</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-3 text-right space-x-2 whitespace-nowrap">
+                    <Button variant="outline" size="sm" onClick={() => handleToggle(rule)}>
+                      {rule.active ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-3">
+          <Select value={action} onValueChange={(v) => setAction(v as "include" | "exclude")}>
+            <SelectTrigger className="min-w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="exclude">Exclude</SelectItem>
+              <SelectItem value="include">Include</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="min-w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_TYPES.map((t) => (
+                <SelectItem key={t.type} value={t.type}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder={typeInfo?.placeholder}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="flex-1 min-w-[160px]"
+            disabled={type === "missing_image"}
+          />
+          <Input
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="flex-1 min-w-[160px]"
+          />
+          <Button type="submit" disabled={saving || (type !== "missing_image" && !value.trim())}>
+            Add Rule
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useState } from "react";
+
+export interface FeedStyle {
+  id: number;
+  name: string;
+  imgen_style: string;
+  title_prefix: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FeedStyleManagerProps {
+  styles: FeedStyle[];
+  onChange: () => void;
+}
+
+export function FeedStyleManager({ styles, onChange }: FeedStyleManagerProps) {
+  const [name, setName] = useState("");
+  const [imgenStyle, setImgenStyle] = useState("");
+  const [titlePrefix, setTitlePrefix] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/styles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          imgen_style: imgenStyle.trim() || undefined,
+          title_prefix: titlePrefix.trim() || null,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setName("");
+        setImgenStyle("");
+        setTitlePrefix("");
+        onChange();
+      } else {
+        setError(data.error || "Failed to create style");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (style: FeedStyle) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/styles/${style.name}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !style.active }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to update style");
+      }
+      onChange();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleDelete = async (style: FeedStyle) => {
+    if (!confirm(`Delete style "${style.name}"?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/styles/${style.name}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to delete style");
+      }
+      onChange();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Feed Styles</CardTitle>
+        <CardDescription>Each active style produces its own catalog at /product_catalog_&#123;name&#125;.csv</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left py-2 px-3 font-medium">Name</th>
+                <th className="text-left py-2 px-3 font-medium">Imgen Style</th>
+                <th className="text-left py-2 px-3 font-medium">Title Prefix</th>
+                <th className="text-left py-2 px-3 font-medium">State</th>
+                <th className="text-left py-2 px-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {styles.map((style) => (
+                <tr key={style.id} className="border-b">
+                  <td className="py-3 px-3 font-medium">{style.name}</td>
+                  <td className="py-3 px-3"><code className="bg-muted px-1 rounded">{style.imgen_style}</code></td>
+                  <td className="py-3 px-3 text-muted-foreground">{style.title_prefix || "—"}</td>
+                  <td className="py-3 px-3">
+                    {style.active ? (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+                    ) : (
+                      <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">Inactive</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-3 text-right space-x-2 whitespace-nowrap">
+                    <Button variant="outline" size="sm" onClick={() => handleToggle(style)}>
+                      {style.active ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(style)}>
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-3">
+          <Input
+            placeholder="Name (e.g. black-friday)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 min-w-[160px]"
+            required
+          />
+          <Input
+            placeholder="Imgen style (defaults to name)"
+            value={imgenStyle}
+            onChange={(e) => setImgenStyle(e.target.value)}
+            className="flex-1 min-w-[160px]"
+          />
+          <Input
+            placeholder="Title prefix (optional)"
+            value={titlePrefix}
+            onChange={(e) => setTitlePrefix(e.target.value)}
+            className="flex-1 min-w-[160px]"
+          />
+          <Button type="submit" disabled={saving || !name.trim()}>
+            Add Style
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
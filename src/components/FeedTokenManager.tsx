@@ -0,0 +1,333 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { getCatalogUrl, getChannelFeedUrl, storeFetch } from "@/lib/store-selection";
+import { useCallback, useEffect, useState } from "react";
+
+interface FeedToken {
+  id: number;
+  label: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+interface FeedDownload {
+  id: number;
+  token_id: number | null;
+  file: string;
+  status: number;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+interface FeedTokenManagerProps {
+  storeId: string;
+  styles: { name: string }[];
+}
+
+function tokenState(token: FeedToken): { label: string; className: string } {
+  if (token.revoked_at) return { label: "Revoked", className: "bg-gray-100 text-gray-800" };
+  if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) {
+    return { label: "Expired", className: "bg-yellow-100 text-yellow-800" };
+  }
+  return { label: "Active", className: "bg-green-100 text-green-800" };
+}
+
+export function FeedTokenManager({ storeId, styles }: FeedTokenManagerProps) {
+  const [tokens, setTokens] = useState<FeedToken[]>([]);
+  const [downloads, setDownloads] = useState<FeedDownload[]>([]);
+  const [required, setRequired] = useState(false);
+  const [selected, setSelected] = useState<FeedToken | null>(null);
+  const [label, setLabel] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const [tokensRes, storesRes] = await Promise.all([storeFetch("/api/feed-tokens"), fetch("/api/stores")]);
+      const tokensData = await tokensRes.json();
+      const storesData = await storesRes.json();
+      if (tokensData.tokens) {
+        setTokens(tokensData.tokens);
+      }
+      const store = storesData.stores?.find((s: { id: string }) => s.id === storeId);
+      setRequired(!!store?.feed_token_required);
+    } catch (err) {
+      console.error("Failed to fetch feed tokens:", err);
+    }
+  }, [storeId]);
+
+  const fetchDownloads = useCallback(async () => {
+    try {
+      const query = selected ? `?token_id=${selected.id}` : "";
+      const res = await storeFetch(`/api/feed-downloads${query}`);
+      const data = await res.json();
+      if (data.downloads) {
+        setDownloads(data.downloads);
+      }
+    } catch (err) {
+      console.error("Failed to fetch feed downloads:", err);
+    }
+  }, [storeId, selected]);
+
+  useEffect(() => {
+    setSelected(null);
+    fetchTokens();
+  }, [fetchTokens]);
+
+  useEffect(() => {
+    fetchDownloads();
+  }, [fetchDownloads]);
+
+  const handleRequiredToggle = async () => {
+    if (!required && !confirm("Feeds will only be served with a signed URL. Consumers using plain URLs will get 401. Continue?")) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/stores/${storeId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ feed_token_required: required ? 0 : 1 }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setRequired(!!data.store.feed_token_required);
+      } else {
+        setError(data.error || "Failed to update store");
+      }
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await storeFetch("/api/feed-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: label.trim(),
+          // End of the chosen day, local time
+          expires_at: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setLabel("");
+        setExpiresAt("");
+        setSelected(data.token);
+        fetchTokens();
+      } else {
+        setError(data.error || "Failed to create token");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: FeedToken) => {
+    if (!confirm(`Revoke "${token.label}"? Its feed URLs stop working immediately.`)) return;
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/feed-tokens/${token.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to revoke token");
+      }
+      fetchTokens();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const signedUrls = (token: FeedToken): { label: string; url: string }[] => {
+    const query = `?token=${encodeURIComponent(token.token)}`;
+    return styles.flatMap((style) => [
+      { label: `Meta CSV (${style.name})`, url: `${window.location.origin}${getCatalogUrl(storeId, style.name)}${query}` },
+      ...(["google", "tiktok", "pinterest"] as const).map((channel) => ({
+        label: `${channel} (${style.name})`,
+        url: `${window.location.origin}${getChannelFeedUrl(storeId, channel, style.name)}${query}`,
+      })),
+    ]);
+  };
+
+  const tokenLabel = (tokenId: number | null) =>
+    tokenId === null ? "no token" : tokens.find((t) => t.id === tokenId)?.label ?? `#${tokenId}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Feed Access</CardTitle>
+          <CardDescription>
+            Give each consumer (Meta, Google, an agency) its own signed feed URL, optionally expiring. Revoking a
+            token stops its URLs without affecting the others.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="text-sm">
+              <div className="font-medium">Require signed URLs</div>
+              <div className="text-muted-foreground">
+                {required
+                  ? "Feeds are only served with a valid token."
+                  : "Plain feed URLs still work; tokens are checked and logged when present."}
+              </div>
+            </div>
+            <Button variant={required ? "default" : "outline"} size="sm" onClick={handleRequiredToggle}>
+              {required ? "Required" : "Optional"}
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="text-left py-2 px-3 font-medium">Label</th>
+                  <th className="text-left py-2 px-3 font-medium">Created</th>
+                  <th className="text-left py-2 px-3 font-medium">Expires</th>
+                  <th className="text-left py-2 px-3 font-medium">Last used</th>
+                  <th className="text-left py-2 px-3 font-medium">State</th>
+                  <th className="text-left py-2 px-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-muted-foreground">
+                      No tokens yet
+                    </td>
+                  </tr>
+                )}
+                {tokens.map((token) => {
+                  const state = tokenState(token);
+                  return (
+                    <tr key={token.id} className="border-b">
+                      <td className="py-3 px-3 font-medium">{token.label}</td>
+                      <td className="py-3 px-3">{token.created_at}</td>
+                      <td className="py-3 px-3">{token.expires_at ? new Date(token.expires_at).toLocaleString() : "Never"}</td>
+                      <td className="py-3 px-3">{token.last_used_at ?? "-"}</td>
+                      <td className="py-3 px-3">
+                        <span className={`px-2 py-1 text-xs rounded-full ${state.className}`}>{state.label}</span>
+                      </td>
+                      <td className="py-3 px-3 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelected(selected?.id === token.id ? null : token)}
+                        >
+                          {selected?.id === token.id ? "Hide" : "URLs & log"}
+                        </Button>
+                        {!token.revoked_at && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRevoke(token)}>
+                            Revoke
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={handleCreate} className="flex flex-wrap gap-3">
+            <Input
+              placeholder="Consumer, e.g. Meta or Agency X"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="flex-1 min-w-[200px]"
+            />
+            <Input
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="w-44"
+              title="Expires (optional)"
+            />
+            <Button type="submit" disabled={saving || !label.trim()}>
+              Create Token
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {selected && !selected.revoked_at && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Signed URLs: {selected.label}</CardTitle>
+            <CardDescription>Hand these to the consumer; they work until the token is revoked or expires.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {signedUrls(selected).map(({ label: urlLabel, url }) => (
+              <div key={url} className="flex items-center gap-3">
+                <span className="w-48 shrink-0 text-muted-foreground">{urlLabel}</span>
+                <code className="flex-1 bg-muted px-2 py-1 rounded text-xs break-all">{url}</code>
+                <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(url)}>
+                  Copy
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Downloads{selected ? `: ${selected.label}` : ""}</CardTitle>
+          <CardDescription>Most recent feed requests with the token they used.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="text-left py-2 px-3 font-medium">Time</th>
+                  <th className="text-left py-2 px-3 font-medium">Token</th>
+                  <th className="text-left py-2 px-3 font-medium">File</th>
+                  <th className="text-left py-2 px-3 font-medium">Status</th>
+                  <th className="text-left py-2 px-3 font-medium">IP</th>
+                  <th className="text-left py-2 px-3 font-medium">User agent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {downloads.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-muted-foreground">
+                      No downloads logged
+                    </td>
+                  </tr>
+                )}
+                {downloads.map((download) => (
+                  <tr key={download.id} className="border-b">
+                    <td className="py-2 px-3 whitespace-nowrap">{download.created_at}</td>
+                    <td className="py-2 px-3">{tokenLabel(download.token_id)}</td>
+                    <td className="py-2 px-3 font-mono text-xs">{download.file}</td>
+                    <td className="py-2 px-3">{download.status}</td>
+                    <td className="py-2 px-3">{download.ip ?? "-"}</td>
+                    <td className="py-2 px-3 text-xs text-muted-foreground truncate max-w-[240px]">{download.user_agent ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
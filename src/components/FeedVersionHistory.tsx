@@ -0,0 +1,262 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { storeFetch } from "@/lib/store-selection";
+import { useCallback, useEffect, useState } from "react";
+
+interface FeedVersion {
+  id: number;
+  style: string;
+  hash: string;
+  item_count: number;
+  size: number;
+  published: number;
+  created_at: string;
+}
+
+interface FeedVersionDiff {
+  from: FeedVersion;
+  to: FeedVersion;
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  added: string[];
+  removed: string[];
+  changed: { id: string; fields: Record<string, { from: string; to: string }> }[];
+}
+
+const ALL_STYLES = "__all__";
+
+// Changed items listed in the diff panel
+const MAX_CHANGED_SHOWN = 50;
+
+interface FeedVersionHistoryProps {
+  storeId: string;
+  styles: { name: string }[];
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function FeedVersionHistory({ storeId, styles }: FeedVersionHistoryProps) {
+  const [versions, setVersions] = useState<FeedVersion[]>([]);
+  const [style, setStyle] = useState(ALL_STYLES);
+  const [diff, setDiff] = useState<FeedVersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const query = style === ALL_STYLES ? "" : `?style=${encodeURIComponent(style)}`;
+      const res = await storeFetch(`/api/feed-versions${query}`);
+      const data = await res.json();
+      if (data.versions) {
+        setVersions(data.versions);
+      }
+    } catch (err) {
+      console.error("Failed to fetch feed versions:", err);
+    }
+  }, [storeId, style]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  useEffect(() => {
+    setDiff(null);
+  }, [storeId]);
+
+  const handleDiff = async (version: FeedVersion) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await storeFetch(`/api/feed-versions/diff?to=${version.id}`);
+      const data = await res.json();
+      if (res.ok) {
+        setDiff(data);
+      } else {
+        setDiff(null);
+        setError(data.error || "Failed to compare versions");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async (version: FeedVersion) => {
+    if (!confirm(`Republish the ${version.style} catalog from ${version.created_at} (${version.item_count} items)?`)) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await storeFetch(`/api/feed-versions/${version.id}/rollback`, { method: "POST" });
+      const data = await res.json();
+      if (data.success) {
+        setMessage(`${version.style} catalog rolled back to version ${version.id}`);
+        fetchVersions();
+      } else {
+        setError(data.error || "Failed to roll back");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Feed History</CardTitle>
+          <CardDescription>
+            Every generated Meta catalog is kept as a version. Compare a version with the one before it, or roll
+            back to republish it - the next generation publishes a fresh catalog again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+              {message}
+            </div>
+          )}
+
+          <Select value={style} onValueChange={setStyle}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STYLES}>All styles</SelectItem>
+              {styles.map((s) => (
+                <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="text-left py-2 px-3 font-medium">Version</th>
+                  <th className="text-left py-2 px-3 font-medium">Style</th>
+                  <th className="text-left py-2 px-3 font-medium">Generated</th>
+                  <th className="text-left py-2 px-3 font-medium">Items</th>
+                  <th className="text-left py-2 px-3 font-medium">Size</th>
+                  <th className="text-left py-2 px-3 font-medium">Hash</th>
+                  <th className="text-left py-2 px-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-6 text-center text-muted-foreground">
+                      No versions yet - generate catalogs to start the history
+                    </td>
+                  </tr>
+                )}
+                {versions.map((version) => (
+                  <tr key={version.id} className="border-b">
+                    <td className="py-3 px-3 font-medium">
+                      #{version.id}
+                      {version.published ? (
+                        <span className="ml-2 px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Published</span>
+                      ) : null}
+                    </td>
+                    <td className="py-3 px-3">{version.style}</td>
+                    <td className="py-3 px-3">{version.created_at}</td>
+                    <td className="py-3 px-3">{version.item_count}</td>
+                    <td className="py-3 px-3">{formatSize(version.size)}</td>
+                    <td className="py-3 px-3"><code className="bg-muted px-1 rounded">{version.hash.slice(0, 12)}</code></td>
+                    <td className="py-3 px-3 text-right space-x-2 whitespace-nowrap">
+                      <Button variant="outline" size="sm" disabled={busy} onClick={() => handleDiff(version)}>
+                        Changes
+                      </Button>
+                      <a
+                        href={`/api/feed-versions/${version.id}/download?store=${encodeURIComponent(storeId)}`}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Download
+                      </a>
+                      {!version.published && (
+                        <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleRollback(version)}>
+                          Roll back
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {diff && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {diff.to.style}: #{diff.from.id} → #{diff.to.id}
+            </CardTitle>
+            <CardDescription>
+              {diff.counts.added} added, {diff.counts.removed} removed, {diff.counts.changed} changed,{" "}
+              {diff.counts.unchanged} unchanged
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {diff.added.length > 0 && (
+              <div>
+                <div className="font-medium mb-1">Added</div>
+                <div className="font-mono text-xs break-all">{diff.added.join(", ")}</div>
+              </div>
+            )}
+            {diff.removed.length > 0 && (
+              <div>
+                <div className="font-medium mb-1">Removed</div>
+                <div className="font-mono text-xs break-all">{diff.removed.join(", ")}</div>
+              </div>
+            )}
+            {diff.changed.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left py-2 px-3 font-medium">Item</th>
+                      <th className="text-left py-2 px-3 font-medium">Field</th>
+                      <th className="text-left py-2 px-3 font-medium">Before</th>
+                      <th className="text-left py-2 px-3 font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.changed.slice(0, MAX_CHANGED_SHOWN).flatMap((item) =>
+                      Object.entries(item.fields).map(([field, change]) => (
+                        <tr key={`${item.id}-${field}`} className="border-b align-top">
+                          <td className="py-2 px-3 font-mono text-xs">{item.id}</td>
+                          <td className="py-2 px-3">{field}</td>
+                          <td className="py-2 px-3 text-red-700 break-all">{change.from}</td>
+                          <td className="py-2 px-3 text-green-700 break-all">{change.to}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+                {diff.counts.changed > MAX_CHANGED_SHOWN && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Showing {MAX_CHANGED_SHOWN} of {diff.counts.changed} changed items
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
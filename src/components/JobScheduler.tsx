@@ -0,0 +1,371 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { storeFetch } from "@/lib/store-selection";
+import { useCallback, useEffect, useState } from "react";
+
+interface ScheduledJob {
+  id: number;
+  name: string;
+  type: string;
+  style: string | null;
+  cron: string;
+  enabled: number;
+  last_run_at: string | null;
+  last_status: "running" | "success" | "error" | null;
+  next_run_at: string | null;
+  running: boolean;
+}
+
+interface JobRun {
+  id: number;
+  triggered_by: "schedule" | "manual";
+  status: "running" | "success" | "error";
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  message: string | null;
+}
+
+interface JobSchedulerProps {
+  storeId: string;
+  styles: { name: string }[];
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  generate_feeds: "Generate feeds",
+  delta_sync: "Incremental sync",
+  full_sync: "Full sync",
+  reconcile: "Reconcile Meta",
+};
+
+// Select items can't have an empty value
+const ALL_STYLES = "__all__";
+
+const STATUS_CLASSES: Record<string, string> = {
+  running: "bg-blue-100 text-blue-800",
+  success: "bg-green-100 text-green-800",
+  error: "bg-red-100 text-red-800",
+};
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : "-";
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function JobScheduler({ storeId, styles }: JobSchedulerProps) {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [types, setTypes] = useState<string[]>(Object.keys(TYPE_LABELS));
+  const [selected, setSelected] = useState<ScheduledJob | null>(null);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [name, setName] = useState("");
+  const [type, setType] = useState("generate_feeds");
+  const [style, setStyle] = useState(ALL_STYLES);
+  const [cron, setCron] = useState("0 * * * *");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await storeFetch("/api/jobs");
+      const data = await res.json();
+      if (data.jobs) {
+        setJobs(data.jobs);
+        setTypes(data.types);
+      }
+    } catch (err) {
+      console.error("Failed to fetch jobs:", err);
+    }
+  }, [storeId]);
+
+  const fetchRuns = useCallback(async () => {
+    if (!selected) return;
+    try {
+      const res = await storeFetch(`/api/jobs/${selected.id}/runs`);
+      const data = await res.json();
+      if (data.runs) {
+        setRuns(data.runs);
+      }
+    } catch (err) {
+      console.error("Failed to fetch job runs:", err);
+    }
+  }, [storeId, selected]);
+
+  useEffect(() => {
+    setSelected(null);
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    setRuns([]);
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Poll while a job is running so status and history catch up
+  const anyRunning = jobs.some((job) => job.running);
+  useEffect(() => {
+    if (!anyRunning) return;
+    const interval = setInterval(() => {
+      fetchJobs();
+      fetchRuns();
+    }, 3000);
+    return () => clearInterval(interval);
+  }, [anyRunning, fetchJobs, fetchRuns]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await storeFetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          type,
+          style: type === "generate_feeds" && style !== ALL_STYLES ? style : null,
+          cron: cron.trim(),
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setName("");
+        fetchJobs();
+      } else {
+        setError(data.error || "Failed to create job");
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (job: ScheduledJob) => {
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/jobs/${job.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !job.enabled }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to update job");
+      }
+      fetchJobs();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleRunNow = async (job: ScheduledJob) => {
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/jobs/${job.id}/run`, { method: "POST" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to start job");
+      }
+      setSelected(job);
+      fetchJobs();
+      fetchRuns();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!confirm(`Delete job "${job.name}" and its run history?`)) return;
+    setError(null);
+    try {
+      const res = await storeFetch(`/api/jobs/${job.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Failed to delete job");
+      }
+      if (selected?.id === job.id) setSelected(null);
+      fetchJobs();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Jobs</CardTitle>
+          <CardDescription>
+            Generate feeds, sync with WooCommerce and reconcile Meta on a cron schedule (server time). Jobs run one
+            at a time; a job never overlaps itself.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="text-left py-2 px-3 font-medium">Name</th>
+                  <th className="text-left py-2 px-3 font-medium">Job</th>
+                  <th className="text-left py-2 px-3 font-medium">Schedule</th>
+                  <th className="text-left py-2 px-3 font-medium">Last run</th>
+                  <th className="text-left py-2 px-3 font-medium">Next run</th>
+                  <th className="text-left py-2 px-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-muted-foreground">
+                      No scheduled jobs yet
+                    </td>
+                  </tr>
+                )}
+                {jobs.map((job) => {
+                  const status = job.running ? "running" : job.last_status;
+                  return (
+                    <tr key={job.id} className="border-b">
+                      <td className="py-3 px-3 font-medium">{job.name}</td>
+                      <td className="py-3 px-3">
+                        {TYPE_LABELS[job.type] ?? job.type}
+                        {job.type === "generate_feeds" && (
+                          <span className="text-muted-foreground"> ({job.style ?? "all styles"})</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-3 font-mono text-xs">{job.cron}</td>
+                      <td className="py-3 px-3 whitespace-nowrap">
+                        {formatTime(job.last_run_at)}
+                        {status && (
+                          <span className={`ml-2 px-2 py-1 text-xs rounded-full ${STATUS_CLASSES[status]}`}>{status}</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-3 whitespace-nowrap">
+                        {job.enabled ? formatTime(job.next_run_at) : <span className="text-muted-foreground">Disabled</span>}
+                      </td>
+                      <td className="py-3 px-3 text-right space-x-2 whitespace-nowrap">
+                        <Button variant="outline" size="sm" onClick={() => handleRunNow(job)} disabled={job.running}>
+                          Run now
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleToggle(job)}>
+                          {job.enabled ? "Disable" : "Enable"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelected(selected?.id === job.id ? null : job)}
+                        >
+                          {selected?.id === job.id ? "Hide" : "History"}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(job)} disabled={job.running}>
+                          Delete
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={handleCreate} className="flex flex-wrap gap-3">
+            <Input
+              placeholder="Name, e.g. Hourly feeds"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 min-w-[180px]"
+            />
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger className="min-w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map((t) => (
+                  <SelectItem key={t} value={t}>{TYPE_LABELS[t] ?? t}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {type === "generate_feeds" && (
+              <Select value={style} onValueChange={setStyle}>
+                <SelectTrigger className="min-w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STYLES}>All styles</SelectItem>
+                  {styles.map((s) => (
+                    <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              placeholder="Cron, e.g. */15 * * * *"
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              className="w-44 font-mono"
+              title="minute hour day-of-month month day-of-week, or @hourly/@daily/@weekly/@monthly"
+            />
+            <Button type="submit" disabled={saving || !name.trim() || !cron.trim()}>
+              Add Job
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Run History: {selected.name}</CardTitle>
+            <CardDescription>Most recent runs, scheduled and manual.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="text-left py-2 px-3 font-medium">Started</th>
+                    <th className="text-left py-2 px-3 font-medium">Trigger</th>
+                    <th className="text-left py-2 px-3 font-medium">Status</th>
+                    <th className="text-left py-2 px-3 font-medium">Duration</th>
+                    <th className="text-left py-2 px-3 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="py-6 text-center text-muted-foreground">
+                        No runs yet
+                      </td>
+                    </tr>
+                  )}
+                  {runs.map((run) => (
+                    <tr key={run.id} className="border-b">
+                      <td className="py-2 px-3 whitespace-nowrap">{formatTime(run.started_at)}</td>
+                      <td className="py-2 px-3">{run.triggered_by}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 py-1 text-xs rounded-full ${STATUS_CLASSES[run.status]}`}>{run.status}</span>
+                      </td>
+                      <td className="py-2 px-3">{formatDuration(run.duration_ms)}</td>
+                      <td className="py-2 px-3 text-xs text-muted-foreground">{run.message ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
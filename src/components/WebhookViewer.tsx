@@ -1,6 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { storeFetch } from "@/lib/store-selection";
 import { useEffect, useState, useCallback } from "react";
 
 interface WebhookEvent {
@@ -39,7 +40,11 @@ interface SearchResult {
   hasMore: boolean;
 }
 
-export function WebhookViewer() {
+interface WebhookViewerProps {
+  storeId: string;
+}
+
+export function WebhookViewer({ storeId }: WebhookViewerProps) {
   const [events, setEvents] = useState<WebhookEvent[]>([]);
   const [stats, setStats] = useState<WebhookStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -53,13 +58,13 @@ export function WebhookViewer() {
 
   const fetchStats = useCallback(async () => {
     try {
-      const res = await fetch("/api/webhooks/stats");
+      const res = await storeFetch("/api/webhooks/stats");
       const data = await res.json();
       setStats(data);
     } catch (err) {
       console.error("Failed to fetch webhook stats:", err);
     }
-  }, []);
+  }, [storeId]);
 
   const fetchEvents = useCallback(async () => {
     setLoading(true);
@@ -73,7 +78,7 @@ export function WebhookViewer() {
       if (statusFilter === "pending") params.set("processed", "false");
       if (statusFilter === "error") params.set("hasError", "true");
 
-      const res = await fetch(`/api/webhooks?${params.toString()}`);
+      const res = await storeFetch(`/api/webhooks?${params.toString()}`);
       const data: SearchResult = await res.json();
       setEvents(data.events);
       setTotal(data.total);
@@ -82,7 +87,7 @@ export function WebhookViewer() {
     } finally {
       setLoading(false);
     }
-  }, [offset, search, actionFilter, statusFilter]);
+  }, [storeId, offset, search, actionFilter, statusFilter]);
 
   useEffect(() => {
     fetchStats();
@@ -1,14 +1,104 @@
 import { serve } from "bun";
 import index from "./index.html";
-import { generateProductFeed, generateBothFeeds } from "./lib/woocommerce";
-import { generateFastProductFeed, generateBothFastFeeds, refreshAndGenerateFeed } from "./lib/csv-generator";
+import { streamProductFeed, writeAllFeedFiles, writeOverrideFeedFiles, validateFeed, type WrittenFeed } from "./lib/csv-generator";
+import { FeedValidationError } from "./lib/feed-validator";
 import { handleWebhook } from "./lib/webhooks/handler";
 import { performInitialSync } from "./lib/sync/initial-sync";
-import { getCatalogInfo, getCatalogProducts, testSingleProductCreate, checkCatalogDiagnostics, getProductErrors, checkBatchStatus, getProductDetails, getProductsByGroupId, batchDeleteProducts } from "./lib/meta/client";
-import { getProductCount, getInStockCount, getAllProducts } from "./lib/db/products";
+import { processSaleWindowTransitions, startSaleScheduler } from "./lib/sync/sale-scheduler";
+import { performDeltaSync, isDeltaSyncRunning, startDeltaSyncScheduler } from "./lib/sync/delta-sync";
+import { syncOverridesToMeta } from "./lib/sync/overrides";
+import { applyFeedRulesToMeta } from "./lib/sync/feed-rules";
+import { getMetaConfig, getCatalogInfo, getCatalogProducts, testSingleProductCreate, checkCatalogDiagnostics, getProductErrors, checkBatchStatus, getProductDetails, getProductsByGroupId, batchDeleteProducts } from "./lib/meta/client";
+import { getProductCount, getInStockCount, getAllProducts, getVariationCountDrift } from "./lib/db/products";
 import { getSyncedCount, getPendingCount, getErrorCount } from "./lib/db/sync-status";
 import { getWebhookEventCount, getRecentWebhookEvents, searchWebhookEvents, getWebhookStats, getWebhookEventById } from "./lib/webhooks/events";
 import { getDb } from "./lib/db/index";
+import {
+  getAllFeedStyles,
+  getFeedStyleByName,
+  createFeedStyle,
+  updateFeedStyle,
+  deleteFeedStyle,
+} from "./lib/db/feed-styles";
+import {
+  getAllImageTemplates,
+  getImageTemplateByName,
+  getActiveImageTemplate,
+  saveImageTemplate,
+  activateImageTemplate,
+  deleteImageTemplate,
+} from "./lib/db/image-templates";
+import {
+  getAllAttributeMappings,
+  createAttributeMapping,
+  updateAttributeMapping,
+  deleteAttributeMapping,
+  type AttributeMappingInput,
+} from "./lib/db/attribute-mappings";
+import {
+  getAllFeedRules,
+  createFeedRule,
+  updateFeedRule,
+  deleteFeedRule,
+  type FeedRuleInput,
+} from "./lib/db/feed-rules";
+import {
+  getAllCustomLabels,
+  createCustomLabel,
+  updateCustomLabel,
+  deleteCustomLabel,
+  type CustomLabelInput,
+} from "./lib/db/custom-labels";
+import { getCategoriesWithEffectiveMapping, setCategoryMapping, setCategoryGallery } from "./lib/db/categories";
+import { syncCategories } from "./lib/sync/categories";
+import { buildTemplateImages, DEFAULT_IMAGE_TEMPLATE, type ImageTemplate } from "./lib/image-templates";
+import {
+  getAllStores,
+  getStoreById,
+  createStore,
+  updateStore,
+  deleteStore,
+  toPublicStore,
+  DEFAULT_STORE_ID,
+  type StoreInput,
+} from "./lib/db/stores";
+import { scopeRoutesToStore, runWithStore, getCurrentStoreId } from "./lib/store-context";
+import { getCatalogFileName, getFeedFilePath, getFeedUrlPath, getFeedVersionPath, getOverrideFileName } from "./lib/feed-files";
+import { serveFeedFile } from "./lib/feed-http";
+import { checkFeedAccess, signFeedToken } from "./lib/feed-tokens";
+import {
+  getFeedTokens,
+  createFeedToken,
+  updateFeedTokenLabel,
+  revokeFeedToken,
+  getFeedDownloads,
+  logFeedDownload,
+  type FeedTokenRow,
+} from "./lib/db/feed-tokens";
+import { getFeedVersionById, getFeedVersions, getPreviousFeedVersion } from "./lib/db/feed-versions";
+import { diffFeedVersions, removeStoreFeedVersions, rollbackFeedVersion } from "./lib/feed-versions";
+import { FEED_FORMATS, FEED_FORMAT_NAMES, isFeedFormatName, type FeedFormatName } from "./lib/feed-formats";
+import {
+  JOB_TYPES,
+  getAllScheduledJobs,
+  getScheduledJobById,
+  createScheduledJob,
+  updateScheduledJob,
+  deleteScheduledJob,
+  getJobRuns,
+  type ScheduledJobInput,
+} from "./lib/db/jobs";
+import { isJobRunning, startJob, startJobScheduler } from "./lib/scheduler";
+import {
+  getCountryOverrides,
+  upsertCountryOverride,
+  deleteCountryOverride,
+  getLanguageOverrides,
+  upsertLanguageOverride,
+  deleteLanguageOverride,
+  type CountryOverrideInput,
+  type LanguageOverrideInput,
+} from "./lib/db/overrides";
 import {
   validateCredentials,
   createSession,
@@ -17,146 +107,1134 @@ import {
   getSessionFromRequest,
 } from "./lib/auth/session";
 
+// Published catalogs: product_catalog_{style}.csv, product_overrides_{country|language}.csv
+// and feeds/{google|tiktok|pinterest}_{style}.{xml|csv}. Downloads may carry a signed
+// ?token= (required when the store says so) and are logged with it.
+async function serveCatalogFile(req: Request, storeId: string, filename: string): Promise<Response> {
+  const match = filename.match(/^product_catalog_([a-z0-9_-]+)\.csv$/)
+    ?? filename.match(/^product_overrides_(country|language)\.csv$/)
+    ?? filename.match(/^feeds\/(?:google|tiktok|pinterest)_([a-z0-9_-]+)\.(?:xml|csv)$/);
+  if (!match) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const access = checkFeedAccess(getStoreById(storeId), new URL(req.url).searchParams.get("token"));
+  let response: Response;
+  if (!access.allowed) {
+    response = new Response(access.reason, { status: access.status });
+  } else {
+    const styleName = match[1]!;
+    response = await serveFeedFile(req, getFeedFilePath(storeId, filename))
+      ?? new Response(`Catalog "${styleName}" not found. Please generate it first.`, { status: 404 });
+  }
+
+  try {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || server.requestIP(req)?.address || null;
+    logFeedDownload(storeId, access.tokenId, filename, response.status, ip, req.headers.get("user-agent"));
+  } catch (error) {
+    console.error("Error logging feed download:", error);
+  }
+  return response;
+}
+
+// The default store's catalogs sit at the root next to app pages like /settings, so
+// each gets an exact route and every other single-segment path falls through to
+// index.html. Rebuilt when styles are added or removed (see reloadRootFeedRoutes).
+function getRootFeedRoutes(): Record<string, (req: Request) => Promise<Response>> {
+  const fileNames = [
+    ...getAllFeedStyles().map((style) => getCatalogFileName(style.name)),
+    getOverrideFileName("country"),
+    getOverrideFileName("language"),
+  ];
+  return Object.fromEntries(
+    fileNames.map((fileName) => [`/${fileName}`, (req: Request) => serveCatalogFile(req, DEFAULT_STORE_ID, fileName)])
+  );
+}
+
+let appRoutes: object = {};
+
+function withRootFeedRoutes<T extends object>(routes: T): T {
+  appRoutes = routes;
+  return { ...scopeRoutesToStore(getRootFeedRoutes()), ...routes };
+}
+
+function reloadRootFeedRoutes(): void {
+  server.reload({ routes: withRootFeedRoutes(appRoutes) });
+}
+
+function withSignedToken(token: FeedTokenRow): FeedTokenRow & { token: string } {
+  return { ...token, token: signFeedToken(token) };
+}
+
+// URLs and skipped item counts of written feeds, per format, then style
+function summarizeWrittenFeeds(
+  storeId: string,
+  feeds: Record<string, Partial<Record<FeedFormatName, WrittenFeed>>>
+): {
+  feedUrls: Partial<Record<FeedFormatName, Record<string, string>>>;
+  skipped: Partial<Record<FeedFormatName, Record<string, number>>>;
+} {
+  const feedUrls: Partial<Record<FeedFormatName, Record<string, string>>> = {};
+  const skipped: Partial<Record<FeedFormatName, Record<string, number>>> = {};
+  for (const [styleName, outputs] of Object.entries(feeds)) {
+    for (const [format, output] of Object.entries(outputs) as [FeedFormatName, WrittenFeed][]) {
+      (feedUrls[format] ??= {})[styleName] = getFeedUrlPath(storeId, output.fileName);
+      (skipped[format] ??= {})[styleName] = output.skipped;
+    }
+  }
+  return { feedUrls, skipped };
+}
+
 const server = serve({
-  routes: {
+  // Handlers run in the store named by X-Store-Id / ?store= (default store otherwise)
+  // Default store catalogs, /product_catalog_{style}.csv, come first (see getRootFeedRoutes)
+  routes: withRootFeedRoutes(scopeRoutesToStore({
     // Serve index.html for all unmatched routes.
     "/*": index,
 
-    "/product_catalog_standard.csv": async () => {
-      const file = Bun.file("public/product_catalog_standard.csv");
-      if (await file.exists()) {
-        return new Response(file);
-      }
-      return new Response("Standard catalog not found. Please generate it first.", { status: 404 });
+    // Other stores: /stores/{store}/product_catalog_{style}.csv
+    "/stores/:storeId/:filename": async (req) => {
+      if (!getStoreById(req.params.storeId)) {
+        return new Response("Not found", { status: 404 });
+      }
+      return serveCatalogFile(req, req.params.storeId, req.params.filename);
+    },
+
+    // Other channels: /feeds/google_{style}.xml, /feeds/tiktok_{style}.csv, /feeds/pinterest_{style}.csv
+    "/feeds/:filename": async (req) => {
+      return serveCatalogFile(req, DEFAULT_STORE_ID, `feeds/${req.params.filename}`);
+    },
+
+    "/stores/:storeId/feeds/:filename": async (req) => {
+      if (!getStoreById(req.params.storeId)) {
+        return new Response("Not found", { status: 404 });
+      }
+      return serveCatalogFile(req, req.params.storeId, `feeds/${req.params.filename}`);
+    },
+
+    "/api/catalog/generate": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const refresh = url.searchParams.get("refresh") === "true";
+
+          const startTime = Date.now();
+
+          // With refresh, the cache is updated from WooCommerce once before every style is generated from it
+          console.log(refresh ? "Generating with fresh WooCommerce data..." : "Generating from cache...");
+          const feeds = await writeAllFeedFiles(FEED_FORMAT_NAMES, { refresh });
+          const storeId = getCurrentStoreId();
+
+          // `urls` keeps the Meta CSVs for existing clients
+          const { feedUrls, skipped } = summarizeWrittenFeeds(storeId, feeds);
+          const urls = feedUrls.meta_csv ?? {};
+
+          // Country/language supplementary feeds, when overrides are configured
+          const overrideUrls: Record<string, string> = {};
+          for (const [type, fileName] of Object.entries(await writeOverrideFeedFiles())) {
+            overrideUrls[type] = getFeedUrlPath(storeId, fileName);
+          }
+
+          const elapsed = Date.now() - startTime;
+          return Response.json({
+            success: true,
+            message: `${Object.keys(feeds).length} catalogs generated in ${elapsed}ms`,
+            elapsed,
+            urls,
+            feedUrls,
+            skipped,
+            overrideUrls,
+          });
+        } catch (error) {
+          console.error("Catalog generation error:", error);
+          if (error instanceof FeedValidationError) {
+            return Response.json({ error: error.message, validation: error.report }, { status: 422 });
+          }
+          return new Response(JSON.stringify({ error: "Error generating catalog", details: String(error) }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+      },
+    },
+
+    // One format for every active style, e.g. /api/catalog/generate/tiktok_csv
+    "/api/catalog/generate/:format": {
+      async GET(req) {
+        try {
+          const format = req.params.format;
+          if (!isFeedFormatName(format)) {
+            return Response.json({ error: `Unknown feed format "${format}"` }, { status: 404 });
+          }
+          const refresh = new URL(req.url).searchParams.get("refresh") === "true";
+
+          const startTime = Date.now();
+          const feeds = await writeAllFeedFiles([format], { refresh });
+          const { feedUrls, skipped } = summarizeWrittenFeeds(getCurrentStoreId(), feeds);
+          const elapsed = Date.now() - startTime;
+
+          return Response.json({
+            success: true,
+            message: `${FEED_FORMATS[format].label} generated for ${Object.keys(feeds).length} styles in ${elapsed}ms`,
+            elapsed,
+            urls: feedUrls[format] ?? {},
+            skipped: skipped[format] ?? {},
+          });
+        } catch (error) {
+          console.error("Catalog generation error:", error);
+          if (error instanceof FeedValidationError) {
+            return Response.json({ error: error.message, validation: error.report }, { status: 422 });
+          }
+          return Response.json({ error: "Error generating catalog", details: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/catalog/refresh": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const style = getFeedStyleByName(url.searchParams.get("style") || "standard");
+          if (!style) {
+            return Response.json({ error: "Unknown style" }, { status: 400 });
+          }
+
+          const startTime = Date.now();
+          const csv = await streamProductFeed(style, { refresh: true });
+          const elapsed = Date.now() - startTime;
+
+          // Rows are rendered while the body streams, so the time covers the cache refresh
+          return new Response(csv, {
+            headers: {
+              "Content-Type": "text/csv",
+              "Content-Disposition": `attachment; filename="product_catalog_${style.name}.csv"`,
+              "X-Generation-Time": `${elapsed}ms`,
+            },
+          });
+        } catch (error) {
+          console.error("Catalog refresh error:", error);
+          return new Response(JSON.stringify({ error: "Error refreshing catalog", details: String(error) }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+      },
+    },
+
+    // Check a style's feed against Meta's field rules without publishing it
+    // (?style=, ?max_error_rate= percent, ?limit= items listed, default 100)
+    "/api/catalog/validate": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const style = getFeedStyleByName(url.searchParams.get("style") || "standard");
+          if (!style) {
+            return Response.json({ error: "Unknown style" }, { status: 400 });
+          }
+          const maxErrorRateParam = url.searchParams.get("max_error_rate");
+          const maxErrorRate = maxErrorRateParam !== null ? parseFloat(maxErrorRateParam) : undefined;
+          if (maxErrorRate !== undefined && !(maxErrorRate >= 0 && maxErrorRate <= 100)) {
+            return Response.json({ error: "max_error_rate must be a percentage between 0 and 100" }, { status: 400 });
+          }
+          const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "") || 100, 1000);
+
+          const report = await validateFeed(style, maxErrorRate, limit);
+          return Response.json({ style: style.name, ...report });
+        } catch (error) {
+          console.error("Catalog validation error:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/catalog": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const style = getFeedStyleByName(url.searchParams.get("style") || "standard");
+          if (!style) {
+            return Response.json({ error: "Unknown style" }, { status: 400 });
+          }
+          // ?refresh=true (or the older ?slow=true) updates the cache from WooCommerce first;
+          // either way the feed is mapped from the cache, so the output is the same
+          const refresh = url.searchParams.get("refresh") === "true" || url.searchParams.get("slow") === "true";
+
+          const headers: Record<string, string> = {
+            "Content-Type": "text/csv",
+            "Content-Disposition": `attachment; filename="product_catalog_${style.name}.csv"`,
+          };
+
+          const startTime = Date.now();
+          const csv = await streamProductFeed(style, { refresh });
+          if (refresh) {
+            // Rows are rendered while the body streams, so the time covers the cache refresh
+            headers["X-Generation-Time"] = `${Date.now() - startTime}ms`;
+          }
+          return new Response(csv, { headers });
+        } catch (error) {
+          console.error("Catalog generation error:", error);
+          return new Response(JSON.stringify({ error: "Error generating catalog", details: String(error) }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+      },
+    },
+
+    // Published Meta catalog history, newest first (optionally ?style=)
+    "/api/feed-versions": {
+      async GET(req) {
+        try {
+          const style = new URL(req.url).searchParams.get("style") || undefined;
+          return Response.json({ versions: getFeedVersions(style) });
+        } catch (error) {
+          console.error("Error getting feed versions:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Items added, removed and changed between two versions; ?to=ID[&from=ID], from defaults to the version before
+    "/api/feed-versions/diff": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const to = getFeedVersionById(parseInt(url.searchParams.get("to") ?? ""));
+          if (!to) {
+            return Response.json({ error: "Feed version not found" }, { status: 404 });
+          }
+          const fromParam = url.searchParams.get("from");
+          const from = fromParam ? getFeedVersionById(parseInt(fromParam)) : getPreviousFeedVersion(to);
+          if (!from) {
+            return Response.json({ error: fromParam ? "Feed version not found" : "No earlier version to compare with" }, { status: 404 });
+          }
+          if (from.style !== to.style) {
+            return Response.json({ error: "Both versions must belong to the same style" }, { status: 400 });
+          }
+
+          const diff = await diffFeedVersions(from, to);
+          // Full counts, item lists capped at ?limit= (default 500)
+          const limit = parseInt(url.searchParams.get("limit") ?? "") || 500;
+          return Response.json({
+            from,
+            to,
+            counts: {
+              added: diff.added.length,
+              removed: diff.removed.length,
+              changed: diff.changed.length,
+              unchanged: diff.unchanged,
+            },
+            added: diff.added.slice(0, limit),
+            removed: diff.removed.slice(0, limit),
+            changed: diff.changed.slice(0, limit),
+          });
+        } catch (error) {
+          console.error("Error diffing feed versions:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/feed-versions/:id/download": {
+      async GET(req) {
+        try {
+          const version = getFeedVersionById(parseInt(req.params.id));
+          if (!version) {
+            return Response.json({ error: "Feed version not found" }, { status: 404 });
+          }
+          return new Response(Bun.file(getFeedVersionPath(version.store_id, version.id)), {
+            headers: {
+              "Content-Type": "text/csv",
+              "Content-Disposition": `attachment; filename="product_catalog_${version.style}_v${version.id}.csv"`,
+            },
+          });
+        } catch (error) {
+          console.error("Error downloading feed version:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Republish an older version as the style's product_catalog_{style}.csv
+    "/api/feed-versions/:id/rollback": {
+      async POST(req) {
+        try {
+          const version = getFeedVersionById(parseInt(req.params.id));
+          if (!version) {
+            return Response.json({ error: "Feed version not found" }, { status: 404 });
+          }
+          await rollbackFeedVersion(version);
+          return Response.json({
+            success: true,
+            version: getFeedVersionById(version.id),
+            url: getFeedUrlPath(version.store_id, getCatalogFileName(version.style)),
+          });
+        } catch (error) {
+          console.error("Error rolling back feed version:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Signed feed URL tokens; each token is returned with its signed value
+    "/api/feed-tokens": {
+      async GET(req) {
+        try {
+          return Response.json({ tokens: getFeedTokens().map(withSignedToken) });
+        } catch (error) {
+          console.error("Error getting feed tokens:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as { label: string; expires_at?: string | null };
+          let expiresAt: string | null = null;
+          if (body.expires_at) {
+            const expires = new Date(body.expires_at);
+            if (isNaN(expires.getTime()) || expires.getTime() <= Date.now()) {
+              return Response.json({ error: "expires_at must be a future date" }, { status: 400 });
+            }
+            expiresAt = expires.toISOString();
+          }
+          const token = createFeedToken(body.label, expiresAt);
+          return Response.json({ success: true, token: withSignedToken(token) });
+        } catch (error) {
+          console.error("Error creating feed token:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+    },
+
+    "/api/feed-tokens/:id": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as { label: string };
+          const token = updateFeedTokenLabel(parseInt(req.params.id), body.label);
+          if (!token) {
+            return Response.json({ error: "Feed token not found" }, { status: 404 });
+          }
+          return Response.json({ success: true, token: withSignedToken(token) });
+        } catch (error) {
+          console.error("Error updating feed token:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+      // Revoke; the token stays listed for the download log
+      async DELETE(req) {
+        try {
+          if (!revokeFeedToken(parseInt(req.params.id))) {
+            return Response.json({ error: "Feed token not found or already revoked" }, { status: 404 });
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error revoking feed token:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Recent feed downloads, optionally ?token_id= and ?limit= (default 100)
+    "/api/feed-downloads": {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const tokenId = url.searchParams.get("token_id");
+          const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "") || 100, 1000);
+          return Response.json({ downloads: getFeedDownloads(tokenId ? parseInt(tokenId) : undefined, limit) });
+        } catch (error) {
+          console.error("Error getting feed downloads:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Scheduled jobs of the current store, with whether each is running right now
+    "/api/jobs": {
+      async GET(req) {
+        try {
+          const jobs = getAllScheduledJobs().map((job) => ({ ...job, running: isJobRunning(job.id) }));
+          return Response.json({ jobs, types: JOB_TYPES });
+        } catch (error) {
+          console.error("Error getting jobs:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as ScheduledJobInput;
+          const job = createScheduledJob(body);
+          return Response.json({ success: true, job });
+        } catch (error) {
+          console.error("Error creating job:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+    },
+
+    "/api/jobs/:id": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as ScheduledJobInput;
+          const job = updateScheduledJob(parseInt(req.params.id), body);
+          if (!job) {
+            return Response.json({ error: "Job not found" }, { status: 404 });
+          }
+          return Response.json({ success: true, job });
+        } catch (error) {
+          console.error("Error updating job:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+      async DELETE(req) {
+        try {
+          const id = parseInt(req.params.id);
+          if (isJobRunning(id)) {
+            return Response.json({ error: "Job is running" }, { status: 409 });
+          }
+          if (!deleteScheduledJob(id)) {
+            return Response.json({ error: "Job not found" }, { status: 404 });
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting job:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Run now; the job continues in the background, follow it through /runs
+    "/api/jobs/:id/run": {
+      async POST(req) {
+        try {
+          const job = getScheduledJobById(parseInt(req.params.id));
+          if (!job) {
+            return Response.json({ error: "Job not found" }, { status: 404 });
+          }
+          if (isJobRunning(job.id)) {
+            return Response.json({ error: "Job is already running" }, { status: 409 });
+          }
+          const { run } = startJob(job, "manual");
+          return Response.json({ success: true, run }, { status: 202 });
+        } catch (error) {
+          console.error("Error starting job:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    // Run history, newest first (?limit=, default 20)
+    "/api/jobs/:id/runs": {
+      async GET(req) {
+        try {
+          const limit = Math.min(parseInt(new URL(req.url).searchParams.get("limit") ?? "") || 20, 100);
+          return Response.json({ runs: getJobRuns(parseInt(req.params.id), limit) });
+        } catch (error) {
+          console.error("Error getting job runs:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/stores": {
+      async GET(req) {
+        try {
+          return Response.json({ stores: getAllStores().map(toPublicStore) });
+        } catch (error) {
+          console.error("Error getting stores:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as StoreInput & { id?: string };
+          if (!body.id) {
+            return Response.json({ error: "id is required" }, { status: 400 });
+          }
+          if (getStoreById(body.id)) {
+            return Response.json({ error: `Store "${body.id}" already exists` }, { status: 409 });
+          }
+          const store = createStore(body.id, body);
+          return Response.json({ success: true, store: toPublicStore(store) });
+        } catch (error) {
+          console.error("Error creating store:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+    },
+
+    "/api/stores/:id": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as StoreInput;
+          const store = updateStore(req.params.id, body);
+          if (!store) {
+            return Response.json({ error: "Store not found" }, { status: 404 });
+          }
+          return Response.json({ success: true, store: toPublicStore(store) });
+        } catch (error) {
+          console.error("Error updating store:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+      async DELETE(req) {
+        try {
+          if (!deleteStore(req.params.id)) {
+            return Response.json({ error: "Store not found" }, { status: 404 });
+          }
+          removeStoreFeedVersions(req.params.id);
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting store:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/overrides": {
+      async GET(req) {
+        try {
+          return Response.json({
+            countries: getCountryOverrides(),
+            languages: getLanguageOverrides(),
+          });
+        } catch (error) {
+          console.error("Error getting overrides:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/overrides/countries": {
+      async POST(req) {
+        try {
+          const body = await req.json() as CountryOverrideInput;
+          const override = upsertCountryOverride(body);
+          return Response.json({ success: true, override });
+        } catch (error) {
+          console.error("Error saving country override:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+    },
+
+    "/api/overrides/countries/:country": {
+      async DELETE(req) {
+        try {
+          if (!deleteCountryOverride(req.params.country)) {
+            return Response.json({ error: "Country override not found" }, { status: 404 });
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting country override:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/overrides/languages": {
+      async POST(req) {
+        try {
+          const body = await req.json() as LanguageOverrideInput;
+          const override = upsertLanguageOverride(body);
+          return Response.json({ success: true, override });
+        } catch (error) {
+          console.error("Error saving language override:", error);
+          return Response.json({ error: String(error) }, { status: 400 });
+        }
+      },
+    },
+
+    "/api/overrides/languages/:locale": {
+      async DELETE(req) {
+        try {
+          if (!deleteLanguageOverride(req.params.locale)) {
+            return Response.json({ error: "Language override not found" }, { status: 404 });
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting language override:", error);
+          return Response.json({ error: String(error) }, { status: 500 });
+        }
+      },
+    },
+
+    "/api/styles": {
+      async GET(req) {
+        try {
+          return Response.json({ styles: getAllFeedStyles() });
+        } catch (error) {
+          console.error("Error listing styles:", error);
+          return Response.json(
+            { error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as {
+            name: string;
+            imgen_style?: string;
+            title_prefix?: string | null;
+            active?: boolean;
+          };
+
+          if (getFeedStyleByName(body.name)) {
+            return Response.json(
+              { success: false, error: `Style "${body.name}" already exists` },
+              { status: 409 }
+            );
+          }
+
+          const style = createFeedStyle({
+            name: body.name,
+            imgen_style: body.imgen_style || body.name,
+            title_prefix: body.title_prefix,
+            active: body.active,
+          });
+          reloadRootFeedRoutes();
+          return Response.json({ success: true, style });
+        } catch (error) {
+          console.error("Error creating style:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+    },
+
+    "/api/styles/:name": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as {
+            imgen_style?: string;
+            title_prefix?: string | null;
+            active?: boolean;
+          };
+          const style = updateFeedStyle(req.params.name, body);
+          if (!style) {
+            return Response.json(
+              { success: false, error: "Style not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true, style });
+        } catch (error) {
+          console.error("Error updating style:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          if (!deleteFeedStyle(req.params.name)) {
+            return Response.json(
+              { success: false, error: "Style not found" },
+              { status: 404 }
+            );
+          }
+          reloadRootFeedRoutes();
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting style:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/image-templates": {
+      async GET(req) {
+        try {
+          return Response.json({ templates: getAllImageTemplates() });
+        } catch (error) {
+          console.error("Error listing image templates:", error);
+          return Response.json(
+            { error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as Partial<ImageTemplate> & { name: string; active?: boolean };
+
+          if (getImageTemplateByName(body.name)) {
+            return Response.json(
+              { success: false, error: `Image template "${body.name}" already exists` },
+              { status: 409 }
+            );
+          }
+
+          const template = saveImageTemplate({
+            name: body.name,
+            base_url: body.base_url ?? "",
+            params: { ...DEFAULT_IMAGE_TEMPLATE.params, ...body.params },
+            ratios: body.ratios ?? DEFAULT_IMAGE_TEMPLATE.ratios,
+            currency_label: body.currency_label ?? DEFAULT_IMAGE_TEMPLATE.currency_label,
+          }, body.active === true);
+          return Response.json({ success: true, template });
+        } catch (error) {
+          console.error("Error creating image template:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+    },
+
+    "/api/image-templates/:name": {
+      async PUT(req) {
+        try {
+          const existing = getImageTemplateByName(req.params.name);
+          if (!existing) {
+            return Response.json(
+              { success: false, error: "Image template not found" },
+              { status: 404 }
+            );
+          }
+
+          const body = await req.json() as Partial<ImageTemplate> & { active?: boolean };
+          const template = saveImageTemplate({
+            name: existing.name,
+            base_url: body.base_url ?? existing.base_url,
+            params: { ...existing.params, ...body.params },
+            ratios: body.ratios ?? existing.ratios,
+            currency_label: body.currency_label ?? existing.currency_label,
+          }, body.active === true);
+          return Response.json({ success: true, template });
+        } catch (error) {
+          console.error("Error updating image template:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          if (!deleteImageTemplate(req.params.name)) {
+            return Response.json(
+              { success: false, error: "Image template not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting image template:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/image-templates/:name/activate": {
+      async POST(req) {
+        if (!activateImageTemplate(req.params.name)) {
+          return Response.json(
+            { success: false, error: "Image template not found" },
+            { status: 404 }
+          );
+        }
+        return Response.json({ success: true });
+      },
+    },
+
+    "/api/attribute-mappings": {
+      async GET(req) {
+        try {
+          return Response.json({ mappings: getAllAttributeMappings() });
+        } catch (error) {
+          console.error("Error listing attribute mappings:", error);
+          return Response.json(
+            { error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as AttributeMappingInput;
+          const mapping = createAttributeMapping(body);
+          return Response.json({ success: true, mapping });
+        } catch (error) {
+          console.error("Error creating attribute mapping:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
     },
 
-    "/product_catalog_christmas.csv": async () => {
-      const file = Bun.file("public/product_catalog_christmas.csv");
-      if (await file.exists()) {
-        return new Response(file);
-      }
-      return new Response("Christmas catalog not found. Please generate it first.", { status: 404 });
+    "/api/attribute-mappings/:id": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as Partial<AttributeMappingInput>;
+          const mapping = updateAttributeMapping(parseInt(req.params.id), body);
+          if (!mapping) {
+            return Response.json(
+              { success: false, error: "Attribute mapping not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true, mapping });
+        } catch (error) {
+          console.error("Error updating attribute mapping:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          if (!deleteAttributeMapping(parseInt(req.params.id))) {
+            return Response.json(
+              { success: false, error: "Attribute mapping not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting attribute mapping:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
     },
 
-    "/api/catalog/generate": {
+    "/api/feed-rules": {
       async GET(req) {
         try {
-          const url = new URL(req.url);
-          const refresh = url.searchParams.get("refresh") === "true";
-
-          const startTime = Date.now();
-          let standard: string, christmas: string;
-
-          if (refresh) {
-            // Slow: fetch fresh from WooCommerce
-            console.log("Generating with fresh WooCommerce data...");
-            [standard, christmas] = await Promise.all([
-              refreshAndGenerateFeed("standard"),
-              refreshAndGenerateFeed("christmas"),
-            ]);
-          } else {
-            // Fast: use cached data
-            console.log("Generating from cache...");
-            const feeds = await generateBothFastFeeds();
-            standard = feeds.standard;
-            christmas = feeds.christmas;
-          }
-
-          await Bun.write("public/product_catalog_standard.csv", standard);
-          await Bun.write("public/product_catalog_christmas.csv", christmas);
+          return Response.json({ rules: getAllFeedRules() });
+        } catch (error) {
+          console.error("Error listing feed rules:", error);
+          return Response.json(
+            { error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as FeedRuleInput;
+          const rule = createFeedRule(body);
+          return Response.json({ success: true, rule });
+        } catch (error) {
+          console.error("Error creating feed rule:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+    },
 
-          const elapsed = Date.now() - startTime;
-          return Response.json({
-            success: true,
-            message: `Both catalogs generated in ${elapsed}ms`,
-            elapsed,
-            urls: {
-              standard: "/product_catalog_standard.csv",
-              christmas: "/product_catalog_christmas.csv"
-            }
-          });
+    "/api/feed-rules/:id": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as Partial<FeedRuleInput>;
+          const rule = updateFeedRule(parseInt(req.params.id), body);
+          if (!rule) {
+            return Response.json(
+              { success: false, error: "Feed rule not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true, rule });
         } catch (error) {
-          console.error("Catalog generation error:", error);
-          return new Response(JSON.stringify({ error: "Error generating catalog", details: String(error) }), {
-            status: 500,
-            headers: { "Content-Type": "application/json" }
-          });
+          console.error("Error updating feed rule:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          if (!deleteFeedRule(parseInt(req.params.id))) {
+            return Response.json(
+              { success: false, error: "Feed rule not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting feed rule:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
         }
       },
     },
 
-    "/api/catalog/refresh": {
+    "/api/custom-labels": {
       async GET(req) {
         try {
-          const url = new URL(req.url);
-          const style = url.searchParams.get("style") || "standard";
-          const validStyle = style === "christmas" ? "christmas" : "standard";
-
-          const startTime = Date.now();
-          const csv = await refreshAndGenerateFeed(validStyle);
-          const elapsed = Date.now() - startTime;
+          return Response.json({ labels: getAllCustomLabels() });
+        } catch (error) {
+          console.error("Error listing custom labels:", error);
+          return Response.json(
+            { error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+      async POST(req) {
+        try {
+          const body = await req.json() as CustomLabelInput;
+          const label = createCustomLabel(body);
+          return Response.json({ success: true, label });
+        } catch (error) {
+          console.error("Error creating custom label:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+    },
 
-          return new Response(csv, {
-            headers: {
-              "Content-Type": "text/csv",
-              "Content-Disposition": `attachment; filename="product_catalog_${validStyle}.csv"`,
-              "X-Generation-Time": `${elapsed}ms`,
-            },
-          });
+    "/api/custom-labels/:id": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as Partial<CustomLabelInput>;
+          const label = updateCustomLabel(parseInt(req.params.id), body);
+          if (!label) {
+            return Response.json(
+              { success: false, error: "Custom label not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true, label });
         } catch (error) {
-          console.error("Catalog refresh error:", error);
-          return new Response(JSON.stringify({ error: "Error refreshing catalog", details: String(error) }), {
-            status: 500,
-            headers: { "Content-Type": "application/json" }
-          });
+          console.error("Error updating custom label:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
+        }
+      },
+      async DELETE(req) {
+        try {
+          if (!deleteCustomLabel(parseInt(req.params.id))) {
+            return Response.json(
+              { success: false, error: "Custom label not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error deleting custom label:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
         }
       },
     },
 
-    "/api/catalog": {
+    "/api/categories": {
       async GET(req) {
         try {
-          const url = new URL(req.url);
-          const style = url.searchParams.get("style") || "standard";
-          const validStyle = style === "christmas" ? "christmas" : "standard";
-          const slow = url.searchParams.get("slow") === "true";
+          return Response.json({ categories: getCategoriesWithEffectiveMapping() });
+        } catch (error) {
+          console.error("Error listing categories:", error);
+          return Response.json(
+            { error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
 
-          const startTime = Date.now();
-          let csv: string;
+    "/api/categories/sync": {
+      async POST(req) {
+        try {
+          const count = await syncCategories();
+          return Response.json({ success: true, count });
+        } catch (error) {
+          console.error("Category sync error:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
 
-          if (slow) {
-            // Original slow method (fetches from WooCommerce each time)
-            csv = await generateProductFeed(validStyle);
-          } else {
-            // Fast method using cache
-            csv = await generateFastProductFeed(validStyle);
+    "/api/categories/:id/mapping": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as { google_category: string | null };
+          if (!setCategoryMapping(parseInt(req.params.id), body.google_category)) {
+            return Response.json(
+              { success: false, error: "Category not found" },
+              { status: 404 }
+            );
           }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error("Error updating category mapping:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
 
-          const elapsed = Date.now() - startTime;
-
-          return new Response(csv, {
-            headers: {
-              "Content-Type": "text/csv",
-              "Content-Disposition": `attachment; filename="product_catalog_${validStyle}.csv"`,
-              "X-Generation-Time": `${elapsed}ms`,
-            },
-          });
+    "/api/categories/:id/gallery": {
+      async PUT(req) {
+        try {
+          const body = await req.json() as { gallery_images: number | null; gallery_tags?: string[] };
+          if (!setCategoryGallery(parseInt(req.params.id), body.gallery_images ?? null, body.gallery_tags)) {
+            return Response.json(
+              { success: false, error: "Category not found" },
+              { status: 404 }
+            );
+          }
+          return Response.json({ success: true });
         } catch (error) {
-          console.error("Catalog generation error:", error);
-          return new Response(JSON.stringify({ error: "Error generating catalog", details: String(error) }), {
-            status: 500,
-            headers: { "Content-Type": "application/json" }
-          });
+          console.error("Error updating category gallery:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 400 }
+          );
         }
       },
     },
 
+    // Default store (webhooks registered before multi-store support)
     "/api/webhooks/woocommerce": {
       async POST(req) {
         return handleWebhook(req);
       },
     },
 
+    "/api/webhooks/woocommerce/:storeId": {
+      async POST(req) {
+        const store = getStoreById(req.params.storeId);
+        if (!store || !store.active) {
+          return new Response("Unknown store", { status: 404 });
+        }
+        return runWithStore(store, () => handleWebhook(req));
+      },
+    },
+
     "/api/sync/initial": {
       async POST(req) {
         try {
@@ -193,6 +1271,73 @@ const server = serve({
       },
     },
 
+    "/api/sync/delta": {
+      async POST(req) {
+        if (isDeltaSyncRunning()) {
+          return Response.json(
+            { success: false, error: "Delta sync already running" },
+            { status: 409 }
+          );
+        }
+        try {
+          const report = await performDeltaSync();
+          return Response.json({ success: true, report });
+        } catch (error) {
+          console.error("Delta sync error:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/sync/sale-windows": {
+      async POST(req) {
+        try {
+          const report = await processSaleWindowTransitions();
+          return Response.json({ success: report.errors === 0, report });
+        } catch (error) {
+          console.error("Sale window sync error:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    "/api/sync/overrides": {
+      async POST(req) {
+        try {
+          const report = await syncOverridesToMeta();
+          return Response.json({ success: report.errors === 0, report });
+        } catch (error) {
+          console.error("Override sync error:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
+    // Withdraw/restore catalog items after feed rules changed
+    "/api/sync/feed-rules": {
+      async POST(req) {
+        try {
+          const report = await applyFeedRulesToMeta();
+          return Response.json({ success: report.errors === 0, report });
+        } catch (error) {
+          console.error("Feed rule sync error:", error);
+          return Response.json(
+            { success: false, error: String(error) },
+            { status: 500 }
+          );
+        }
+      },
+    },
+
     "/api/sync/cleanup-main": {
       async POST(req) {
         try {
@@ -247,11 +1392,12 @@ const server = serve({
               },
             }));
 
-            const url = `https://graph.facebook.com/v21.0/${process.env.META_CATALOG_ID}/items_batch`;
+            const { accessToken, catalogId } = getMetaConfig();
+            const url = `https://graph.facebook.com/v21.0/${catalogId}/items_batch`;
             const response = await fetch(url, {
               method: "POST",
               headers: {
-                "Authorization": `Bearer ${process.env.META_ACCESS_TOKEN}`,
+                "Authorization": `Bearer ${accessToken}`,
                 "Content-Type": "application/json",
               },
               body: JSON.stringify({
@@ -332,6 +1478,7 @@ const server = serve({
             },
             webhooks: getWebhookEventCount(),
             recentWebhooks: getRecentWebhookEvents(5),
+            variationDrift: getVariationCountDrift(),
           };
           return Response.json(stats);
         } catch (error) {
@@ -390,55 +1537,45 @@ const server = serve({
           const timestamp = Date.now();
           const groupId = `test_group_${timestamp}`;
           const baseImage = "https://lunatik-website.fra1.digitaloceanspaces.com/wp-content/uploads/2026/01/07131111/9mST4FOuXf-I6OhVHOCu1.jpg";
-          const encodedImg = Buffer.from(baseImage).toString('base64');
+          const template = getActiveImageTemplate();
 
           // Create test variants with different sizes
           const variants = [
-            { size: "S", price: "49.00 BAM" },
-            { size: "M", price: "49.00 BAM" },
-            { size: "L", price: "52.00 BAM" },
+            { size: "S", price: "49.00" },
+            { size: "M", price: "49.00" },
+            { size: "L", price: "52.00" },
           ];
 
           const requests = variants.map((variant) => {
-            const encodedPrice = encodeURIComponent(variant.price);
-            const encodedName = encodeURIComponent(`Test Product - ${variant.size}`);
-            const baseParams = `price=${encodedPrice}&name=${encodedName}&img=${encodedImg}`;
+            const name = `Test Product - ${variant.size}`;
 
             return {
               method: "CREATE" as const,
               retailer_id: `${groupId}_${variant.size}`,
               data: {
                 id: `${groupId}_${variant.size}`,
-                title: `Test Product - ${variant.size}`,
+                title: name,
                 description: "This is a test product with variants and multi-ratio images to verify Meta Catalog API",
                 availability: "in stock",
-                price: variant.price,
+                price: `${variant.price} BAM`,
                 link: "https://lunatik.ba/test-product",
                 brand: "Lunatik",
                 condition: "new",
                 item_group_id: groupId,
                 size: variant.size,
                 product_type: "Clothing > T-Shirts",  // Category hierarchy
-                // Multi-ratio images using proper array format with Meta tags
-                image: [
-                  {
-                    url: `https://imgen.lunatik.cloud/?${baseParams}&aspect_ratio=1:1`,
-                    tag: []  // Default image, no tag needed
-                  },
-                  {
-                    url: `https://imgen.lunatik.cloud/?${baseParams}&aspect_ratio=4:5`,
-                    tag: ["ASPECT_RATIO_4_5_PREFERRED"]  // 4:5 feed placements
-                  },
-                  {
-                    url: `https://imgen.lunatik.cloud/?${baseParams}&aspect_ratio=9:16`,
-                    tag: ["STORY_PREFERRED", "REELS_PREFERRED"]  // Stories and Reels
-                  }
-                ],
+                // Multi-ratio images from the active image template, with Meta tags
+                image: buildTemplateImages(template, {
+                  name,
+                  price: variant.price,
+                  imageUrl: baseImage,
+                }),
               },
             };
           });
 
-          const url = "https://graph.facebook.com/v21.0/" + process.env.META_CATALOG_ID + "/items_batch";
+          const { accessToken, catalogId } = getMetaConfig();
+          const url = "https://graph.facebook.com/v21.0/" + catalogId + "/items_batch";
           const requestBody = {
             item_type: "PRODUCT_ITEM",
             requests: requests,
@@ -449,7 +1586,7 @@ const server = serve({
           const response = await fetch(url, {
             method: "POST",
             headers: {
-              Authorization: `Bearer ${process.env.META_ACCESS_TOKEN}`,
+              Authorization: `Bearer ${accessToken}`,
               "Content-Type": "application/json",
             },
             body: JSON.stringify(requestBody),
@@ -684,7 +1821,7 @@ const server = serve({
         message: `Hello, ${name}!`,
       });
     },
-  },
+  })),
   port: 3005,
   development: process.env.NODE_ENV !== "production" && {
     // Enable browser hot reloading in development
@@ -697,3 +1834,7 @@ const server = serve({
 });
 
 console.log(`🚀 Server running at ${server.url}`);
+
+startSaleScheduler();
+startDeltaSyncScheduler();
+startJobScheduler();
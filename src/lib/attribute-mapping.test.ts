@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { isMetaAttributeField, resolveAttributes, type AttributeMapping } from "./attribute-mapping";
+
+const mappings: AttributeMapping[] = [
+  { id: 1, match: "Boja", meta_field: "color", value_map: {} },
+  { id: 2, match: "pa_velicina", meta_field: "size", value_map: {} },
+  { id: 3, match: "spol", meta_field: "gender", value_map: { "Muško": "male", "Žensko": "female" } },
+  { id: 4, match: "uzrast", meta_field: "age_group", value_map: { Djeca: "kids" } },
+];
+
+describe("resolveAttributes", () => {
+  test("matches by name or slug, with or without pa_, ignoring case", () => {
+    expect(
+      resolveAttributes(
+        [
+          { name: "BOJA", options: ["Crvena"] },
+          { name: "Veličina", slug: "pa_velicina", options: ["M", "L"] },
+          { slug: "pa_spol", options: ["Muško"] },
+        ],
+        mappings
+      )
+    ).toEqual({ color: "Crvena", size: "M", gender: "male" });
+  });
+
+  test("normalizes values through the value map, case-insensitively", () => {
+    expect(resolveAttributes([{ name: "Uzrast", options: [" djeca "] }], mappings)).toEqual({ age_group: "kids" });
+    // Values without an entry pass through unchanged
+    expect(resolveAttributes([{ name: "Spol", options: ["Unisex"] }], mappings)).toEqual({ gender: "Unisex" });
+  });
+
+  test("ignores unmapped attributes instead of guessing from the name", () => {
+    // The old loop took anything containing "age" as age_group
+    expect(resolveAttributes([{ name: "Package", options: ["Box"] }], mappings)).toEqual({});
+  });
+
+  test("later attributes win, so variation options override the parent's", () => {
+    const parent = [{ name: "Boja", options: ["Crvena", "Plava"] }];
+    const variation = [{ name: "Boja", option: "Plava" }];
+    expect(resolveAttributes([...parent, ...variation], mappings)).toEqual({ color: "Plava" });
+  });
+
+  test("skips attributes without a value", () => {
+    expect(resolveAttributes([{ name: "Boja", options: [] }, { name: "Spol" }], mappings)).toEqual({});
+  });
+});
+
+test("isMetaAttributeField", () => {
+  expect(isMetaAttributeField("material")).toBe(true);
+  expect(isMetaAttributeField("brand")).toBe(false);
+});
@@ -0,0 +1,67 @@
+/**
+ * Rule-based mapping of WooCommerce attributes to Meta product fields.
+ *
+ * Each rule matches an attribute by slug or name (case-insensitive, with or
+ * without the "pa_" prefix used by global attributes) and can normalize the
+ * value through a lookup table, e.g. "Muško" -> "male".
+ */
+
+export const META_ATTRIBUTE_FIELDS = ["color", "size", "gender", "age_group", "material"] as const;
+
+export type MetaAttributeField = (typeof META_ATTRIBUTE_FIELDS)[number];
+
+export interface AttributeMapping {
+  id: number;
+  match: string;
+  meta_field: MetaAttributeField;
+  value_map: Record<string, string>;
+}
+
+export type MappedAttributes = Partial<Record<MetaAttributeField, string>>;
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/^pa_/, "");
+}
+
+export function isMetaAttributeField(value: string): value is MetaAttributeField {
+  return (META_ATTRIBUTE_FIELDS as readonly string[]).includes(value);
+}
+
+function findMapping(attr: any, mappings: AttributeMapping[]): AttributeMapping | undefined {
+  const keys = [attr.slug, attr.name]
+    .filter((key): key is string => typeof key === "string" && key !== "")
+    .map(normalizeKey);
+
+  return mappings.find((mapping) => keys.includes(normalizeKey(mapping.match)));
+}
+
+function normalizeValue(value: string, valueMap: Record<string, string>): string {
+  const needle = value.trim().toLowerCase();
+  for (const [from, to] of Object.entries(valueMap)) {
+    if (from.trim().toLowerCase() === needle) {
+      return to;
+    }
+  }
+  return value;
+}
+
+// Later attributes win, so pass parent attributes before variation attributes
+export function resolveAttributes(
+  attributes: any[],
+  mappings: AttributeMapping[]
+): MappedAttributes {
+  const result: MappedAttributes = {};
+
+  for (const attr of attributes) {
+    const mapping = findMapping(attr, mappings);
+    if (!mapping) continue;
+
+    // Variations carry a single 'option', products a list of 'options'
+    const option: string | undefined = attr.option || attr.options?.[0];
+    if (!option) continue;
+
+    result[mapping.meta_field] = normalizeValue(option, mapping.value_map);
+  }
+
+  return result;
+}
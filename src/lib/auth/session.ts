@@ -79,3 +79,24 @@ export function getSessionFromRequest(req: Request): string | null {
   }
   return null;
 }
+
+// API routes open without a session: signing in, and WooCommerce's webhook
+// deliveries, which are checked against their signature instead
+const PUBLIC_API_ROUTES = new Set([
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/check",
+  "/api/webhooks/woocommerce",
+  "/api/webhooks/woocommerce/:storeId",
+]);
+
+// Whether a route (by its path pattern) belongs to the admin API
+export function isSessionRequired(route: string): boolean {
+  return route.startsWith("/api/") && !PUBLIC_API_ROUTES.has(route);
+}
+
+// Guard for admin routes: a 401 response unless the request carries a valid session
+export function requireSession(req: Request): Response | null {
+  if (validateSession(getSessionFromRequest(req))) return null;
+  return Response.json({ error: "Authentication required" }, { status: 401 });
+}
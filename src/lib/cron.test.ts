@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { getNextCronRun, parseCron, validateCron } from "./cron";
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe("parseCron", () => {
+  test("ranges, steps and lists", () => {
+    const schedule = parseCron("0-30/10 9-17 1,15 * MON-FRI");
+    expect(sorted(schedule.minutes)).toEqual([0, 10, 20, 30]);
+    expect(sorted(schedule.hours)).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(sorted(schedule.days)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(sorted(schedule.weekdays)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.daysRestricted).toBe(true);
+    expect(schedule.weekdaysRestricted).toBe(true);
+  });
+
+  test("steps over * or from a single value run to the end of the field", () => {
+    expect(sorted(parseCron("5/15 * * * *").minutes)).toEqual([5, 20, 35, 50]);
+    expect(sorted(parseCron("* */6 * * *").hours)).toEqual([0, 6, 12, 18]);
+  });
+
+  test("lists mix values, ranges and steps", () => {
+    expect(sorted(parseCron("1,10-12,50/5 * * * *").minutes)).toEqual([1, 10, 11, 12, 50, 55]);
+  });
+
+  test("month and weekday names, and 7 as Sunday", () => {
+    const schedule = parseCron("0 0 * jan,Jul SAT-7");
+    expect(sorted(schedule.months)).toEqual([1, 7]);
+    expect(sorted(schedule.weekdays)).toEqual([0, 6]);
+  });
+
+  test("macros", () => {
+    const weekly = parseCron("@weekly");
+    expect(sorted(weekly.minutes)).toEqual([0]);
+    expect(sorted(weekly.hours)).toEqual([0]);
+    expect(sorted(weekly.weekdays)).toEqual([0]);
+    expect(weekly.daysRestricted).toBe(false);
+  });
+
+  test("rejects invalid expressions", () => {
+    for (const expression of ["* * * *", "60 * * * *", "* 24 * * *", "0 0 0 * *", "*/0 * * * *", "5-1 * * * *", "0 0 * FOO *", "1/2/3 * * * *"]) {
+      expect(() => validateCron(expression)).toThrow();
+    }
+  });
+});
+
+describe("getNextCronRun", () => {
+  // Local time; 1 January 2026 is a Thursday
+  const at = (day: number, hour = 0, minute = 0) => new Date(2026, 0, day, hour, minute);
+
+  test("is strictly after the given time", () => {
+    expect(getNextCronRun("*/15 * * * *", at(1, 10, 7))).toEqual(at(1, 10, 15));
+    expect(getNextCronRun("*/15 * * * *", at(1, 10, 15))).toEqual(at(1, 10, 30));
+    expect(getNextCronRun("0 9-17 * * *", at(1, 17, 30))).toEqual(at(2, 9));
+  });
+
+  test("day-of-month alone or day-of-week alone must match", () => {
+    expect(getNextCronRun("0 0 13 * *", at(1))).toEqual(at(13));
+    expect(getNextCronRun("0 0 * * TUE", at(1))).toEqual(at(6));
+  });
+
+  test("day-of-month and day-of-week both restricted run when either matches", () => {
+    expect(getNextCronRun("0 0 13 * FRI", at(1))).toEqual(at(2));
+    expect(getNextCronRun("0 0 13 * FRI", at(9))).toEqual(at(13));
+    expect(getNextCronRun("0 0 13 * FRI", at(13))).toEqual(at(16));
+  });
+
+  test("null when the schedule never matches", () => {
+    expect(getNextCronRun("0 0 31 2 *", at(1))).toBeNull();
+  });
+});
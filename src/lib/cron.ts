@@ -0,0 +1,161 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week) in
+ * server local time: numbers, *, ranges (1-5), steps (0-30/10), lists
+ * (1,15), month and weekday names (JAN, MON) and the @hourly/@daily/@weekly/
+ * @monthly shortcuts. As in classic cron, a job whose day-of-month and
+ * day-of-week are both restricted runs when either matches.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Whether day-of-month / day-of-week were restricted (not *)
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  // Value of names[0]
+  nameBase?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES, nameBase: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = index >= 0 ? index + spec.nameBase! : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(number) || number < spec.min || number > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${value}" (${spec.min}-${spec.max})`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || !range) {
+      throw new Error(`Invalid ${spec.name} "${part}"`);
+    }
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!/^\d*$/.test(stepText ?? "") || !(step > 0)) {
+      throw new Error(`Invalid step in ${spec.name} "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from ?? "", spec);
+      end = parseValue(to ?? "", spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expression must have 5 fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]!));
+  if (weekdays!.delete(7)) weekdays!.add(0);
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    days: days!,
+    months: months!,
+    weekdays: weekdays!,
+    daysRestricted: fields[2] !== "*",
+    weekdaysRestricted: fields[4] !== "*",
+  };
+}
+
+// Throws with a readable message when the expression is invalid
+export function validateCron(expression: string): void {
+  parseCron(expression);
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) return day || weekday;
+  return day && weekday;
+}
+
+// Look this far ahead before giving up (e.g. "0 0 31 2 *" never runs)
+const MAX_SEARCH_YEARS = 5;
+
+// First time strictly after `after` that matches, or null if none does
+export function getNextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date | null {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getFullYear() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
@@ -1,56 +1,35 @@
 import { stringify } from "csv-stringify/sync";
 import { Base64 } from "js-base64";
 import { getDb } from "./db/index";
-import { fetchWooCommerce, fetchAllProducts, mapToMetaProduct } from "./woocommerce";
-import type { WCProduct, MetaProduct } from "./types";
-
-const WC_BRAND = process.env.WC_BRAND || "Lunatik";
-const WC_CURRENCY = process.env.WC_CURRENCY || "BAM";
-
-interface DbProductRow {
-  id: number;
-  parent_id: number;
-  type: string;
-  meta_retailer_id: string;
-  name: string;
-  sku: string | null;
-  permalink: string | null;
-  price: string | null;
-  regular_price: string | null;
-  sale_price: string | null;
-  stock_status: string;
-  stock_quantity: number | null;
-  description: string | null;
-  image_url: string | null;
-  attributes: string | null;
-  variations: string | null;
-}
-
-// Store variations in a separate table for fast access
-function initVariationsTable(): void {
-  const db = getDb();
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS product_variations (
-      id INTEGER PRIMARY KEY,
-      parent_id INTEGER NOT NULL,
-      name TEXT,
-      sku TEXT,
-      permalink TEXT,
-      price TEXT,
-      regular_price TEXT,
-      sale_price TEXT,
-      stock_status TEXT NOT NULL,
-      stock_quantity INTEGER,
-      description TEXT,
-      image_url TEXT,
-      attributes TEXT,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (parent_id) REFERENCES products(id) ON DELETE CASCADE
-    );
-    CREATE INDEX IF NOT EXISTS idx_variations_parent_id ON product_variations(parent_id);
-    CREATE INDEX IF NOT EXISTS idx_variations_stock_status ON product_variations(stock_status);
-  `);
-}
+import { fetchProductVariations, iterateProductPages } from "./woocommerce";
+import type { WCProduct } from "./types";
+import { DEFAULT_FEED_STYLE, getActiveFeedStyles, type FeedStyleConfig } from "./db/feed-styles";
+import { loadMappingContext } from "./mapping-context";
+import {
+  bulkUpsertProducts,
+  initVariationsTable,
+  recordVariationCount,
+  serializeDimensions,
+  serializeMetaData,
+} from "./db/products";
+import { syncCategories } from "./sync/categories";
+import { getSaleDateGmt } from "./sale-window";
+import { createFeedRenderer, FEED_FORMAT_NAMES, FEED_FORMATS, getFeedChannel, type FeedFormatName } from "./feed-formats";
+import { getOverrideFileName, openFeedFile } from "./feed-files";
+import { recordFeedVersion } from "./feed-versions";
+import { assertPublishable, createFeedValidator, type FeedValidationReport } from "./feed-validator";
+import { getCurrentStore, getCurrentStoreId, runWithStore } from "./store-context";
+import { getCountryOverrides, getLanguageOverrides } from "./db/overrides";
+import { iterateCachedFeedEntries } from "./feed-pipeline";
+import {
+  buildCountryOverrideRow,
+  buildLanguageOverrideRow,
+  COUNTRY_OVERRIDE_COLUMNS,
+  LANGUAGE_OVERRIDE_COLUMNS,
+  type CountryOverrideRow,
+  type LanguageOverrideRow,
+  type OverrideFeedType,
+} from "./overrides";
 
 function upsertVariation(variation: WCProduct, parentId: number): void {
   const db = getDb();
@@ -58,10 +37,11 @@ function upsertVariation(variation: WCProduct, parentId: number): void {
 
   db.run(`
     INSERT INTO product_variations (
-      id, parent_id, name, sku, permalink, price, regular_price, sale_price,
-      stock_status, stock_quantity, description, image_url, attributes, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    ON CONFLICT(id) DO UPDATE SET
+      store_id, id, parent_id, name, sku, permalink, price, regular_price, sale_price,
+      stock_status, stock_quantity, description, image_url, attributes,
+      date_on_sale_from, date_on_sale_to, meta_data, weight, dimensions, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(store_id, id) DO UPDATE SET
       parent_id = excluded.parent_id,
       name = excluded.name,
       sku = excluded.sku,
@@ -74,8 +54,14 @@ function upsertVariation(variation: WCProduct, parentId: number): void {
       description = excluded.description,
       image_url = excluded.image_url,
       attributes = excluded.attributes,
+      date_on_sale_from = excluded.date_on_sale_from,
+      date_on_sale_to = excluded.date_on_sale_to,
+      meta_data = excluded.meta_data,
+      weight = excluded.weight,
+      dimensions = excluded.dimensions,
       updated_at = CURRENT_TIMESTAMP
   `, [
+    getCurrentStoreId(),
     variation.id,
     parentId,
     variation.name || null,
@@ -89,6 +75,11 @@ function upsertVariation(variation: WCProduct, parentId: number): void {
     variation.description || null,
     imageUrl,
     variation.attributes ? JSON.stringify(variation.attributes) : null,
+    getSaleDateGmt(variation, "from"),
+    getSaleDateGmt(variation, "to"),
+    serializeMetaData(variation),
+    variation.weight || null,
+    serializeDimensions(variation),
   ]);
 }
 
@@ -100,9 +91,10 @@ async function refreshVariationsCache(): Promise<void> {
   const db = getDb();
 
   // Get all variable products that are in stock
-  const variableProducts = db.query<{ id: number; variations: string }, []>(`
-    SELECT id, variations FROM products WHERE type = 'variable' AND variations IS NOT NULL AND stock_status = 'instock'
-  `).all();
+  const variableProducts = db.query<{ id: number; variations: string }, [string]>(`
+    SELECT id, variations FROM products
+    WHERE store_id = ? AND type = 'variable' AND variations IS NOT NULL AND stock_status = 'instock'
+  `).all(getCurrentStoreId());
 
   console.log(`Found ${variableProducts.length} variable products`);
 
@@ -113,14 +105,11 @@ async function refreshVariationsCache(): Promise<void> {
 
     const promises = batch.map(async (product) => {
       try {
-        const variations: WCProduct[] = await fetchWooCommerce(
-          `/products/${product.id}/variations`,
-          { per_page: "100" }
-        );
-        return { parentId: product.id, variations };
+        const variations = await fetchProductVariations(product.id);
+        return { parentId: product.id, variations, fetched: true };
       } catch (e) {
         console.error(`Error fetching variations for product ${product.id}:`, e);
-        return { parentId: product.id, variations: [] };
+        return { parentId: product.id, variations: [] as WCProduct[], fetched: false };
       }
     });
 
@@ -128,10 +117,11 @@ async function refreshVariationsCache(): Promise<void> {
 
     // Store in database
     const transaction = db.transaction(() => {
-      for (const { parentId, variations } of results) {
+      for (const { parentId, variations, fetched } of results) {
         for (const variation of variations) {
           upsertVariation(variation, parentId);
         }
+        if (fetched) recordVariationCount(parentId, variations.length);
       }
     });
     transaction();
@@ -142,223 +132,291 @@ async function refreshVariationsCache(): Promise<void> {
   console.log("Variations cache refreshed");
 }
 
-// Convert DB row to WCProduct-like object
-function dbRowToProduct(row: DbProductRow): WCProduct {
-  return {
-    id: row.id,
-    parent_id: row.parent_id,
-    type: row.type,
-    name: row.name,
-    sku: row.sku || "",
-    permalink: row.permalink || "",
-    price: row.price || "",
-    regular_price: row.regular_price || "",
-    sale_price: row.sale_price || "",
-    stock_status: row.stock_status,
-    stock_quantity: row.stock_quantity,
-    description: row.description || "",
-    short_description: "",
-    slug: "",
-    status: "publish",
-    date_on_sale_from: null,
-    date_on_sale_to: null,
-    images: row.image_url ? [{ id: 0, src: row.image_url }] : [],
-    attributes: row.attributes ? JSON.parse(row.attributes) : [],
-    variations: row.variations ? JSON.parse(row.variations) : [],
-    categories: [],
-  };
+// Whether to refresh the cache from WooCommerce before generating
+export interface FeedGenerationOptions {
+  refresh?: boolean;
 }
 
-// Fast CSV generation from cache
-export async function generateFastProductFeed(
-  style: "standard" | "christmas" = "standard"
-): Promise<string> {
-  console.log(`Fast generating ${style} feed from cache...`);
-  const startTime = Date.now();
-
-  initVariationsTable();
-  const db = getDb();
-
-  // Check if we have cached products
-  const productCount = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM products"
-  ).get()?.count || 0;
+// Chunks of one format, rendered from the cache as they are mapped
+export function renderFeedChunks(
+  format: FeedFormatName,
+  style: FeedStyleConfig = DEFAULT_FEED_STYLE
+): AsyncGenerator<string> {
+  const context = loadMappingContext(style);
+  const entries = iterateCachedFeedEntries(context);
+  const renderer = createFeedRenderer(format, context);
+
+  return (async function* () {
+    yield renderer.header();
+    for await (const { item } of entries) {
+      const row = renderer.row(item);
+      if (row) yield row;
+    }
+    yield renderer.footer();
+  })();
+}
 
-  if (productCount === 0) {
-    throw new Error("No products in cache. Run initial sync first or use slow generation.");
+// Meta CSV of one style as a response body. Rows are rendered as the client
+// reads them, so memory stays flat however large the catalog is.
+export async function streamProductFeed(
+  style: FeedStyleConfig = DEFAULT_FEED_STYLE,
+  options: FeedGenerationOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  if (options.refresh) {
+    await refreshProductCache();
   }
 
-  const feedItems: MetaProduct[] = [];
-
-  // Get all in-stock simple products
-  const simpleProducts = db.query<DbProductRow, []>(`
-    SELECT * FROM products
-    WHERE type != 'variable' AND stock_status = 'instock'
-  `).all();
-
-  console.log(`Processing ${simpleProducts.length} simple products...`);
+  // Pulls run outside the request's async context; carry its store along
+  const store = getCurrentStore();
+  const chunks = runWithStore(store, () => renderFeedChunks("meta_csv", style));
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      return runWithStore(store, async () => {
+        // Hand over roughly 64KB per pull rather than one row at a time
+        let size = 0;
+        while (size < 64 * 1024) {
+          const next = await chunks.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+          const bytes = encoder.encode(next.value);
+          controller.enqueue(bytes);
+          size += bytes.length;
+        }
+      });
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
 
-  for (const row of simpleProducts) {
-    const product = dbRowToProduct(row);
-    const item = mapToMetaProduct(product, undefined, style);
-    feedItems.push(item);
+// Supplementary country/language feeds for the current store, keyed by type.
+// Types without an active override are left out.
+export async function generateOverrideFeeds(): Promise<Partial<Record<OverrideFeedType, string>>> {
+  const countries = getCountryOverrides(true);
+  const languages = getLanguageOverrides(true);
+  if (countries.length === 0 && languages.length === 0) {
+    return {};
   }
 
-  // Get all in-stock variable products with their variations
-  const variableProducts = db.query<DbProductRow, []>(`
-    SELECT * FROM products WHERE type = 'variable' AND stock_status = 'instock'
-  `).all();
-
-  console.log(`Processing ${variableProducts.length} variable products...`);
-
-  for (const row of variableProducts) {
-    const product = dbRowToProduct(row);
-
-    // Get variations from cache
-    const variations = db.query<DbProductRow, [number]>(`
-      SELECT * FROM product_variations WHERE parent_id = ?
-    `).all(row.id);
-
-    let totalInventory = 0;
-    let hasInStock = false;
-
-    for (const varRow of variations) {
-      if (varRow.stock_quantity) {
-        totalInventory += varRow.stock_quantity;
-      }
-      if (varRow.stock_status === "instock") {
-        hasInStock = true;
-      }
+  const startTime = Date.now();
+  const feeds: Partial<Record<OverrideFeedType, string>> = {};
+  const countryRows: CountryOverrideRow[] = [];
+  const languageRows: LanguageOverrideRow[] = [];
+
+  for await (const { item, product, parent } of iterateCachedFeedEntries(loadMappingContext())) {
+    for (const override of countries) {
+      const row = buildCountryOverrideRow(item, product, override);
+      if (row) countryRows.push(row);
     }
-
-    // Add main product if has in-stock variations
-    if (hasInStock || product.stock_status === "instock") {
-      const item = mapToMetaProduct(product, undefined, style);
-      item.inventory = totalInventory > 0 ? totalInventory : undefined;
-      item.availability = "in stock";
-      feedItems.push(item);
+    for (const override of languages) {
+      const row = buildLanguageOverrideRow(item, product, parent, override);
+      if (row) languageRows.push(row);
     }
+  }
 
-    // Add in-stock variations
-    for (const varRow of variations) {
-      if (varRow.stock_status === "instock") {
-        const variation = dbRowToProduct(varRow);
-        variation.parent_id = row.id;
-        const variantItem = mapToMetaProduct(variation, product, style);
-        feedItems.push(variantItem);
-      }
-    }
+  if (countries.length > 0) {
+    feeds.country = stringify(countryRows, { header: true, columns: COUNTRY_OVERRIDE_COLUMNS, quoted: true });
+    console.log(`Country override feed: ${countryRows.length} rows for ${countries.map((c) => c.country).join(", ")}`);
   }
 
-  // Generate CSV
-  const columns = [
-    "id", "title", "description", "rich_text_description", "availability",
-    "condition", "price", "link", "image_link", "brand",
-    "image[0].url", "image[0].tag[0]", "image[1].url", "image[1].tag[0]",
-    "image[2].url", "image[2].tag[0]", "image[2].tag[1]",
-    "age_group", "color", "gender", "item_group_id", "google_product_category",
-    "product_type", "sale_price", "sale_price_effective_date", "size", "status", "inventory",
-  ];
-
-  const csv = stringify(feedItems, {
-    header: true,
-    columns,
-    quoted: true,
-  });
+  if (languages.length > 0) {
+    feeds.language = stringify(languageRows, { header: true, columns: LANGUAGE_OVERRIDE_COLUMNS, quoted: true });
+    console.log(`Language override feed: ${languageRows.length} rows for ${languages.map((l) => l.locale).join(", ")}`);
+  }
 
-  const elapsed = Date.now() - startTime;
-  console.log(`Fast feed generated in ${elapsed}ms with ${feedItems.length} items`);
+  console.log(`Override feeds generated in ${Date.now() - startTime}ms`);
+  return feeds;
+}
 
-  return csv;
+// Write the current store's override feeds to public/, returning their file names by type
+export async function writeOverrideFeedFiles(): Promise<Partial<Record<OverrideFeedType, string>>> {
+  const storeId = getCurrentStoreId();
+  const fileNames: Partial<Record<OverrideFeedType, string>> = {};
+  for (const [type, csv] of Object.entries(await generateOverrideFeeds()) as [OverrideFeedType, string][]) {
+    const fileName = getOverrideFileName(type);
+    const file = openFeedFile(storeId, fileName);
+    file.write(csv);
+    await file.commit();
+    fileNames[type] = fileName;
+  }
+  return fileNames;
 }
 
-// Refresh cache from WooCommerce and generate feed
-export async function refreshAndGenerateFeed(
-  style: "standard" | "christmas" = "standard"
-): Promise<string> {
+// Refresh the product and variation cache from WooCommerce
+export async function refreshProductCache(): Promise<void> {
   console.log("Refreshing products from WooCommerce (in-stock only)...");
   const startTime = Date.now();
 
   initVariationsTable();
-  const db = getDb();
 
-  // Fetch only in-stock products from WooCommerce
-  const products = await fetchAllProducts("/products", { stock_status: "instock" });
-  console.log(`Fetched ${products.length} in-stock products from WooCommerce`);
-
-  // Store products in database
-  const insertProduct = db.prepare(`
-    INSERT INTO products (
-      id, parent_id, type, meta_retailer_id, name, sku, permalink, price,
-      regular_price, sale_price, stock_status, stock_quantity, description,
-      image_url, attributes, variations, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    ON CONFLICT(id) DO UPDATE SET
-      parent_id = excluded.parent_id,
-      type = excluded.type,
-      meta_retailer_id = excluded.meta_retailer_id,
-      name = excluded.name,
-      sku = excluded.sku,
-      permalink = excluded.permalink,
-      price = excluded.price,
-      regular_price = excluded.regular_price,
-      sale_price = excluded.sale_price,
-      stock_status = excluded.stock_status,
-      stock_quantity = excluded.stock_quantity,
-      description = excluded.description,
-      image_url = excluded.image_url,
-      attributes = excluded.attributes,
-      variations = excluded.variations,
-      updated_at = CURRENT_TIMESTAMP
-  `);
-
-  const transaction = db.transaction(() => {
-    for (const product of products) {
-      const metaRetailerId = product.type === "variable"
-        ? `wc_${product.id}_main`
-        : `wc_${product.id}`;
-
-      insertProduct.run(
-        product.id,
-        product.parent_id || 0,
-        product.type || "simple",
-        metaRetailerId,
-        product.name,
-        product.sku || null,
-        product.permalink || null,
-        product.price || null,
-        product.regular_price || null,
-        product.sale_price || null,
-        product.stock_status,
-        product.stock_quantity,
-        product.description || null,
-        product.images?.[0]?.src || null,
-        product.attributes ? JSON.stringify(product.attributes) : null,
-        product.variations?.length ? JSON.stringify(product.variations) : null
-      );
-    }
-  });
-  transaction();
+  // Fetch only in-stock products from WooCommerce, storing each page as it arrives
+  let productCount = 0;
+  for await (const page of iterateProductPages("/products", { stock_status: "instock" })) {
+    bulkUpsertProducts(page);
+    productCount += page.length;
+  }
+  console.log(`Fetched ${productCount} in-stock products from WooCommerce`);
+
+  // Keep the category tree current for product_type paths and taxonomy mapping
+  await syncCategories();
 
   console.log("Products cached, now fetching variations...");
 
   // Refresh variations cache in parallel
   await refreshVariationsCache();
 
-  // Generate feed from cache
-  const csv = await generateFastProductFeed(style);
-
   const elapsed = Date.now() - startTime;
-  console.log(`Total refresh + generation time: ${elapsed}ms`);
+  console.log(`Cache refresh time: ${elapsed}ms`);
+}
 
-  return csv;
+// A feed file written to public/, with what went into it
+export interface WrittenFeed {
+  fileName: string;
+  items: number;
+  skipped: number;
 }
 
-// Generate both feeds quickly
-export async function generateBothFastFeeds(): Promise<{ standard: string; christmas: string }> {
-  const [standard, christmas] = await Promise.all([
-    generateFastProductFeed("standard"),
-    generateFastProductFeed("christmas"),
-  ]);
-  return { standard, christmas };
+// Validate one style's feed from cache without writing anything
+export async function validateFeed(
+  style: FeedStyleConfig = DEFAULT_FEED_STYLE,
+  maxErrorRate?: number,
+  limit?: number
+): Promise<FeedValidationReport> {
+  const validator = createFeedValidator(maxErrorRate, limit);
+  for await (const { item } of iterateCachedFeedEntries(loadMappingContext(style))) {
+    validator.check(item);
+  }
+  return validator.report();
+}
+
+// One style's feeds rendered to temp files and validated, not yet published
+interface StagedFeeds {
+  publish(): Promise<Partial<Record<FeedFormatName, WrittenFeed>>>;
+  abort(): Promise<void>;
+}
+
+// Render formats of one style in a single streamed pass over the cache, leaving
+// the published files alone. Throws FeedValidationError, with nothing left
+// staged, when too many items fail validation.
+async function stageFeedFiles(style: FeedStyleConfig, formats: FeedFormatName[]): Promise<StagedFeeds> {
+  const startTime = Date.now();
+  const storeId = getCurrentStoreId();
+  const context = loadMappingContext(style);
+  const channel = getFeedChannel(context);
+  const entries = iterateCachedFeedEntries(context);
+  const validator = createFeedValidator();
+
+  const outputs = formats.map((format) => {
+    const fileName = FEED_FORMATS[format].fileName(style.name);
+    return {
+      format,
+      fileName,
+      renderer: createFeedRenderer(format, context, channel),
+      file: openFeedFile(storeId, fileName),
+    };
+  });
+  const abort = async () => {
+    await Promise.all(outputs.map(({ file }) => file.abort()));
+  };
+
+  try {
+    for (const { renderer, file } of outputs) {
+      file.write(renderer.header());
+    }
+    let count = 0;
+    for await (const { item } of entries) {
+      count++;
+      validator.check(item);
+      for (const { renderer, file } of outputs) {
+        const row = renderer.row(item);
+        if (row) file.write(row);
+      }
+    }
+    assertPublishable(`${style.name} feeds`, validator.report());
+    for (const { renderer, file } of outputs) {
+      file.write(renderer.footer());
+    }
+    console.log(`${style.name} feeds (${formats.join(", ")}) generated in ${Date.now() - startTime}ms with ${count} items`);
+  } catch (error) {
+    await abort();
+    throw error;
+  }
+
+  return {
+    async publish() {
+      const written: Partial<Record<FeedFormatName, WrittenFeed>> = {};
+      try {
+        for (const { format, fileName, renderer, file } of outputs) {
+          const hash = await file.commit();
+          // Meta catalogs are kept as versions for diffs and rollback
+          if (format === "meta_csv") {
+            recordFeedVersion(style.name, hash, renderer.stats().items);
+          }
+          written[format] = { fileName, ...renderer.stats() };
+        }
+      } catch (error) {
+        await abort();
+        throw error;
+      }
+      return written;
+    },
+    abort,
+  };
+}
+
+// Write formats (Meta CSV, Google XML, TikTok, Pinterest) of one style to the
+// current store's public directory, in a single streamed pass over the cache.
+// Throws FeedValidationError, keeping the published files, when too many
+// items fail validation.
+export async function writeFeedFiles(
+  style: FeedStyleConfig = DEFAULT_FEED_STYLE,
+  formats: FeedFormatName[] = FEED_FORMAT_NAMES,
+  options: FeedGenerationOptions = {}
+): Promise<Partial<Record<FeedFormatName, WrittenFeed>>> {
+  if (options.refresh) {
+    await refreshProductCache();
+  }
+
+  const staged = await stageFeedFiles(style, formats);
+  return staged.publish();
+}
+
+// Write feeds for every active style, keyed by style name, then format. A
+// refresh happens once, before the first style. Every style is validated
+// before any is published, so one style over the error threshold keeps all
+// of them at their previous generation.
+export async function writeAllFeedFiles(
+  formats: FeedFormatName[] = FEED_FORMAT_NAMES,
+  options: FeedGenerationOptions = {}
+): Promise<Record<string, Partial<Record<FeedFormatName, WrittenFeed>>>> {
+  if (options.refresh) {
+    await refreshProductCache();
+  }
+
+  const staged: [string, StagedFeeds][] = [];
+  try {
+    for (const style of getActiveFeedStyles()) {
+      staged.push([style.name, await stageFeedFiles(style, formats)]);
+    }
+  } catch (error) {
+    await Promise.all(staged.map(([, feeds]) => feeds.abort()));
+    throw error;
+  }
+
+  // Only a file system error can stop this part way; the styles after it are dropped
+  const feeds: Record<string, Partial<Record<FeedFormatName, WrittenFeed>>> = {};
+  for (const [index, [name, styleFeeds]] of staged.entries()) {
+    try {
+      feeds[name] = await styleFeeds.publish();
+    } catch (error) {
+      await Promise.all(staged.slice(index + 1).map(([, rest]) => rest.abort()));
+      throw error;
+    }
+  }
+  return feeds;
 }
@@ -0,0 +1,366 @@
+import type { WCProduct } from "./types";
+import { isSaleActive } from "./sale-window";
+
+/**
+ * Computed custom_label_0..4 values for campaign product sets.
+ *
+ * Each rule targets one slot and sets its label when its expression matches;
+ * the first matching rule per slot wins. Expressions are a small, side-effect
+ * free language over product fields:
+ *
+ *   sale_price != ''                      on_sale
+ *   categories in ['Winter', 'Zima']      total_sales >= 50 and stock_quantity > 0
+ *   (price - meta._cost) / price >= 0.4   not (sku in ['GIFT-CARD'])
+ *
+ * Operators: or/||, and/&&, not/!, == (or =), !=, <, <=, >, >=, in, not in,
+ * + - * /. String comparisons ignore case; `in` tests list membership (any
+ * element when the left side is a list) or substrings.
+ */
+
+export const CUSTOM_LABEL_SLOTS = [0, 1, 2, 3, 4] as const;
+
+export type CustomLabelSlot = (typeof CUSTOM_LABEL_SLOTS)[number];
+
+export interface CustomLabelRule {
+  id: number;
+  slot: CustomLabelSlot;
+  label: string;
+  expression: string;
+}
+
+export type CustomLabels = Partial<Record<`custom_label_${CustomLabelSlot}`, string>>;
+
+type Value = string | number | boolean | null | Value[];
+
+type Expr =
+  | { kind: "literal"; value: Value }
+  | { kind: "field"; name: string }
+  | { kind: "list"; items: Expr[] }
+  | { kind: "unary"; op: "not" | "-"; expr: Expr }
+  | { kind: "binary"; op: string; left: Expr; right: Expr };
+
+interface Token {
+  type: "number" | "string" | "ident" | "op";
+  value: string;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "=", "!", "+", "-", "*", "/", "(", ")", "[", "]", ","];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string at position ${i}`);
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: "number", value: number[0] });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = source.slice(i).match(/^[A-Za-z_][\w.]*/);
+    if (ident) {
+      tokens.push({ type: "ident", value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected "${ch}" at position ${i}`);
+    tokens.push({ type: "op", value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+// Recursive descent, lowest precedence first: or, and, not, comparison, +/-, * and /, unary minus
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.pos]!.value}"`);
+    }
+    return expr;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isKeyword(token: Token | undefined, ...words: string[]): boolean {
+    return !!token && token.type === "ident" && words.includes(token.value.toLowerCase());
+  }
+
+  private isOp(token: Token | undefined, ...ops: string[]): boolean {
+    return !!token && token.type === "op" && ops.includes(token.value);
+  }
+
+  private expectOp(op: string): void {
+    if (!this.isOp(this.peek(), op)) {
+      throw new Error(`Expected "${op}"${this.peek() ? ` but found "${this.peek()!.value}"` : " at end of expression"}`);
+    }
+    this.pos++;
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isKeyword(this.peek(), "or") || this.isOp(this.peek(), "||")) {
+      this.pos++;
+      left = { kind: "binary", op: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.isKeyword(this.peek(), "and") || this.isOp(this.peek(), "&&")) {
+      this.pos++;
+      left = { kind: "binary", op: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.isKeyword(this.peek(), "not") || this.isOp(this.peek(), "!")) {
+      this.pos++;
+      return { kind: "unary", op: "not", expr: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (this.isOp(token, "==", "=", "!=", "<", "<=", ">", ">=")) {
+      this.pos++;
+      const op = token!.value === "=" ? "==" : token!.value;
+      return { kind: "binary", op, left, right: this.parseAdditive() };
+    }
+    if (this.isKeyword(token, "in")) {
+      this.pos++;
+      return { kind: "binary", op: "in", left, right: this.parseAdditive() };
+    }
+    if (this.isKeyword(token, "not") && this.isKeyword(this.tokens[this.pos + 1], "in")) {
+      this.pos += 2;
+      return { kind: "unary", op: "not", expr: { kind: "binary", op: "in", left, right: this.parseAdditive() } };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (this.isOp(this.peek(), "+", "-")) {
+      const op = this.tokens[this.pos++]!.value;
+      left = { kind: "binary", op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (this.isOp(this.peek(), "*", "/")) {
+      const op = this.tokens[this.pos++]!.value;
+      left = { kind: "binary", op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.isOp(this.peek(), "-")) {
+      this.pos++;
+      return { kind: "unary", op: "-", expr: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+    if (!token) throw new Error("Unexpected end of expression");
+    this.pos++;
+
+    if (token.type === "number") return { kind: "literal", value: parseFloat(token.value) };
+    if (token.type === "string") return { kind: "literal", value: token.value };
+
+    if (token.type === "ident") {
+      const word = token.value.toLowerCase();
+      if (word === "true" || word === "false") return { kind: "literal", value: word === "true" };
+      if (word === "null") return { kind: "literal", value: null };
+      return { kind: "field", name: token.value };
+    }
+
+    if (token.value === "(") {
+      const expr = this.parseOr();
+      this.expectOp(")");
+      return expr;
+    }
+
+    if (token.value === "[") {
+      const items: Expr[] = [];
+      if (!this.isOp(this.peek(), "]")) {
+        items.push(this.parseOr());
+        while (this.isOp(this.peek(), ",")) {
+          this.pos++;
+          items.push(this.parseOr());
+        }
+      }
+      this.expectOp("]");
+      return { kind: "list", items };
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+}
+
+const compiled = new Map<string, Expr>();
+
+function compile(expression: string): Expr {
+  let expr = compiled.get(expression);
+  if (!expr) {
+    expr = new Parser(tokenize(expression)).parse();
+    compiled.set(expression, expr);
+  }
+  return expr;
+}
+
+// Throws a descriptive error when the expression can't be parsed
+export function validateExpression(expression: string): void {
+  if (!expression.trim()) throw new Error("expression is required");
+  compile(expression);
+}
+
+// Field values an expression can reference; variations inherit categories, tags and meta from the parent
+export function getLabelFields(product: WCProduct, parent?: WCProduct): Record<string, Value> {
+  const categories = parent?.categories?.length ? parent.categories : product.categories || [];
+  const tags = [...(parent?.tags || []), ...(product.tags || [])];
+
+  const fields: Record<string, Value> = {
+    id: product.id,
+    name: (parent || product).name,
+    sku: product.sku || "",
+    type: product.type,
+    price: product.price || "",
+    regular_price: product.regular_price || product.price || "",
+    sale_price: product.sale_price || "",
+    on_sale: isSaleActive(product),
+    stock_status: product.stock_status,
+    stock_quantity: product.stock_quantity,
+    total_sales: product.total_sales ?? parent?.total_sales ?? null,
+    categories: categories.map((c) => c.name),
+    category_ids: categories.map((c) => c.id),
+    tags: [...tags.map((t) => t.name), ...tags.map((t) => t.slug)],
+  };
+
+  for (const meta of [...(parent?.meta_data || []), ...(product.meta_data || [])]) {
+    fields[`meta.${meta.key}`] = meta.value as Value;
+  }
+  return fields;
+}
+
+function toNumber(value: Value): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") return parseFloat(value.replace(",", "."));
+  return NaN;
+}
+
+function isTruthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== "" && value !== 0 && value !== false;
+}
+
+function valuesEqual(a: Value, b: Value): boolean {
+  if (a === null || b === null) return (a ?? "") === (b ?? "");
+  if (Array.isArray(a) || Array.isArray(b)) return false;
+  if (typeof a === "number" || typeof b === "number") return toNumber(a) === toNumber(b);
+  if (typeof a === "boolean" || typeof b === "boolean") return isTruthy(a) === isTruthy(b);
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function contains(haystack: Value, needle: Value): boolean {
+  if (Array.isArray(needle)) return needle.some((n) => contains(haystack, n));
+  if (Array.isArray(haystack)) return haystack.some((h) => valuesEqual(h, needle));
+  if (typeof haystack === "string" && needle !== null) {
+    return haystack.toLowerCase().includes(String(needle).toLowerCase());
+  }
+  return false;
+}
+
+function evaluate(expr: Expr, fields: Record<string, Value>): Value {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "field":
+      return fields[expr.name] ?? null;
+    case "list":
+      return expr.items.map((item) => evaluate(item, fields));
+    case "unary":
+      return expr.op === "not" ? !isTruthy(evaluate(expr.expr, fields)) : -toNumber(evaluate(expr.expr, fields));
+    case "binary": {
+      if (expr.op === "and") return isTruthy(evaluate(expr.left, fields)) && isTruthy(evaluate(expr.right, fields));
+      if (expr.op === "or") return isTruthy(evaluate(expr.left, fields)) || isTruthy(evaluate(expr.right, fields));
+
+      const left = evaluate(expr.left, fields);
+      const right = evaluate(expr.right, fields);
+      switch (expr.op) {
+        case "==": return valuesEqual(left, right);
+        case "!=": return !valuesEqual(left, right);
+        case "in": return contains(right, left);
+        case "<": return toNumber(left) < toNumber(right);
+        case "<=": return toNumber(left) <= toNumber(right);
+        case ">": return toNumber(left) > toNumber(right);
+        case ">=": return toNumber(left) >= toNumber(right);
+        case "+": return toNumber(left) + toNumber(right);
+        case "-": return toNumber(left) - toNumber(right);
+        case "*": return toNumber(left) * toNumber(right);
+        case "/": return toNumber(left) / toNumber(right);
+      }
+      throw new Error(`Unknown operator "${expr.op}"`);
+    }
+  }
+}
+
+export function matchesExpression(expression: string, product: WCProduct, parent?: WCProduct): boolean {
+  return isTruthy(evaluate(compile(expression), getLabelFields(product, parent)));
+}
+
+// Label per slot. Slots with rules get "" when none matches so a stale label is cleared;
+// slots without rules stay undefined and are left alone.
+export function resolveCustomLabels(
+  rules: CustomLabelRule[],
+  product: WCProduct,
+  parent?: WCProduct
+): CustomLabels {
+  const labels: CustomLabels = {};
+  for (const rule of rules) {
+    const key = `custom_label_${rule.slot}` as const;
+    if (labels[key]) continue;
+    try {
+      labels[key] = matchesExpression(rule.expression, product, parent) ? rule.label : "";
+    } catch (error) {
+      // Saved expressions are validated, so this only happens for hand-edited rows
+      console.error(`Custom label rule ${rule.id} failed:`, error);
+      labels[key] ??= "";
+    }
+  }
+  return labels;
+}
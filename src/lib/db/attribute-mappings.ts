@@ -0,0 +1,91 @@
+import { getDb } from "./index";
+import { isMetaAttributeField, type AttributeMapping, type MetaAttributeField } from "../attribute-mapping";
+
+interface AttributeMappingRow {
+  id: number;
+  match: string;
+  meta_field: MetaAttributeField;
+  value_map: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AttributeMappingInput {
+  match: string;
+  meta_field: string;
+  value_map?: Record<string, string>;
+}
+
+function rowToMapping(row: AttributeMappingRow): AttributeMapping & { created_at: string; updated_at: string } {
+  return {
+    ...row,
+    value_map: JSON.parse(row.value_map) as Record<string, string>,
+  };
+}
+
+function validateInput(input: Partial<AttributeMappingInput>): void {
+  if (input.match !== undefined && !input.match.trim()) {
+    throw new Error("match is required");
+  }
+  if (input.meta_field !== undefined && !isMetaAttributeField(input.meta_field)) {
+    throw new Error(`Unsupported meta_field "${input.meta_field}"`);
+  }
+}
+
+export function getAllAttributeMappings(): AttributeMapping[] {
+  const db = getDb();
+  return db.query<AttributeMappingRow, []>(
+    "SELECT * FROM attribute_mappings ORDER BY meta_field, match"
+  ).all().map(rowToMapping);
+}
+
+export function getAttributeMappingById(id: number): AttributeMapping | null {
+  const db = getDb();
+  const row = db.query<AttributeMappingRow, [number]>(
+    "SELECT * FROM attribute_mappings WHERE id = ?"
+  ).get(id);
+  return row ? rowToMapping(row) : null;
+}
+
+export function createAttributeMapping(input: AttributeMappingInput): AttributeMapping {
+  validateInput(input);
+
+  const db = getDb();
+  const result = db.run(
+    "INSERT INTO attribute_mappings (match, meta_field, value_map) VALUES (?, ?, ?)",
+    [input.match.trim(), input.meta_field, JSON.stringify(input.value_map ?? {})]
+  );
+
+  return getAttributeMappingById(Number(result.lastInsertRowid))!;
+}
+
+export function updateAttributeMapping(
+  id: number,
+  data: Partial<AttributeMappingInput>
+): AttributeMapping | null {
+  validateInput(data);
+
+  const db = getDb();
+  db.run(
+    `UPDATE attribute_mappings SET
+      match = COALESCE(?, match),
+      meta_field = COALESCE(?, meta_field),
+      value_map = COALESCE(?, value_map),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?`,
+    [
+      data.match?.trim() ?? null,
+      data.meta_field ?? null,
+      data.value_map ? JSON.stringify(data.value_map) : null,
+      id,
+    ]
+  );
+
+  return getAttributeMappingById(id);
+}
+
+export function deleteAttributeMapping(id: number): boolean {
+  const db = getDb();
+  const result = db.run("DELETE FROM attribute_mappings WHERE id = ?", [id]);
+  return result.changes > 0;
+}
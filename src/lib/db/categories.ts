@@ -0,0 +1,131 @@
+import { getDb } from "./index";
+import { resolveGoogleCategory, resolveGallerySetting, getCategoryPath, type CategoryTree } from "../taxonomy";
+import { getCurrentStoreId } from "../store-context";
+
+export interface DbCategory {
+  store_id: string;
+  id: number;
+  parent_id: number;
+  name: string;
+  slug: string | null;
+  google_category: string | null;
+  gallery_images: number | null;
+  gallery_tags: string | null;  // JSON array of Meta image tags
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WCCategory {
+  id: number;
+  parent: number;
+  name: string;
+  slug: string;
+}
+
+export function bulkUpsertCategories(categories: WCCategory[]): void {
+  const db = getDb();
+  const storeId = getCurrentStoreId();
+  const stmt = db.prepare(`
+    INSERT INTO categories (store_id, id, parent_id, name, slug, updated_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(store_id, id) DO UPDATE SET
+      parent_id = excluded.parent_id,
+      name = excluded.name,
+      slug = excluded.slug,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+
+  const transaction = db.transaction(() => {
+    for (const category of categories) {
+      stmt.run(storeId, category.id, category.parent || 0, category.name, category.slug || null);
+    }
+  });
+  transaction();
+}
+
+export function getAllCategories(): DbCategory[] {
+  const db = getDb();
+  return db.query<DbCategory, [string]>(
+    "SELECT * FROM categories WHERE store_id = ? ORDER BY parent_id, name"
+  ).all(getCurrentStoreId());
+}
+
+export function getCategoryById(id: number): DbCategory | null {
+  const db = getDb();
+  return db.query<DbCategory, [string, number]>(
+    "SELECT * FROM categories WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), id);
+}
+
+export function setCategoryMapping(id: number, googleCategory: string | null): boolean {
+  const db = getDb();
+  const result = db.run(
+    "UPDATE categories SET google_category = ?, updated_at = CURRENT_TIMESTAMP WHERE store_id = ? AND id = ?",
+    [googleCategory?.trim() || null, getCurrentStoreId(), id]
+  );
+  return result.changes > 0;
+}
+
+// Max gallery images Meta accepts next to the main image
+const MAX_GALLERY_IMAGES = 20;
+
+// null count clears the setting so the category inherits its parent's again
+export function setCategoryGallery(id: number, count: number | null, tags: string[] = []): boolean {
+  if (count !== null && (!Number.isInteger(count) || count < 0 || count > MAX_GALLERY_IMAGES)) {
+    throw new Error(`gallery_images must be between 0 and ${MAX_GALLERY_IMAGES}`);
+  }
+  if (!Array.isArray(tags) || tags.some((t) => typeof t !== "string")) {
+    throw new Error("gallery_tags must be an array of strings");
+  }
+
+  const db = getDb();
+  const cleanTags = tags.map((t) => t.trim()).filter(Boolean);
+  const result = db.run(
+    "UPDATE categories SET gallery_images = ?, gallery_tags = ?, updated_at = CURRENT_TIMESTAMP WHERE store_id = ? AND id = ?",
+    [count, count !== null && cleanTags.length ? JSON.stringify(cleanTags) : null, getCurrentStoreId(), id]
+  );
+  return result.changes > 0;
+}
+
+export function getCategoryTree(): CategoryTree {
+  const tree: CategoryTree = {};
+  for (const category of getAllCategories()) {
+    tree[category.id] = {
+      id: category.id,
+      parent_id: category.parent_id,
+      name: category.name,
+      google_category: category.google_category,
+      gallery_images: category.gallery_images,
+      gallery_tags: category.gallery_tags ? JSON.parse(category.gallery_tags) : [],
+    };
+  }
+  return tree;
+}
+
+// Categories with their full path and the mapping they end up using (own or inherited)
+export function getCategoriesWithEffectiveMapping(): Array<DbCategory & {
+  path: string;
+  effective_google_category: string | null;
+  inherited: boolean;
+  effective_gallery_images: number;
+}> {
+  const tree = getCategoryTree();
+  return getAllCategories().map((category) => {
+    const effective = resolveGoogleCategory(tree, category.id);
+    return {
+      ...category,
+      path: getCategoryPath(tree, category.id).map((c) => c.name).join(" > "),
+      effective_google_category: effective,
+      inherited: !category.google_category && !!effective,
+      effective_gallery_images: resolveGallerySetting(tree, [category]).count,
+    };
+  });
+}
+
+export function getCategoryCount(): number {
+  const db = getDb();
+  const result = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM categories WHERE store_id = ?"
+  ).get(getCurrentStoreId());
+  return result?.count ?? 0;
+}
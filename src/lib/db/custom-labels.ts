@@ -0,0 +1,126 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+import {
+  CUSTOM_LABEL_SLOTS,
+  validateExpression,
+  type CustomLabelRule,
+  type CustomLabelSlot,
+} from "../custom-labels";
+
+export interface CustomLabelRow extends CustomLabelRule {
+  store_id: string;
+  position: number;
+  description: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomLabelInput {
+  slot: number;
+  label: string;
+  expression: string;
+  position?: number;
+  description?: string | null;
+  active?: boolean;
+}
+
+function validateInput(slot: number, label: string, expression: string): void {
+  if (!CUSTOM_LABEL_SLOTS.includes(slot as CustomLabelSlot)) {
+    throw new Error("slot must be between 0 and 4");
+  }
+  if (!label) {
+    throw new Error("label is required");
+  }
+  // Meta caps custom labels at 100 characters
+  if (label.length > 100) {
+    throw new Error("label must be at most 100 characters");
+  }
+  try {
+    validateExpression(expression);
+  } catch (error) {
+    throw new Error(`Invalid expression: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function getAllCustomLabels(): CustomLabelRow[] {
+  const db = getDb();
+  return db.query<CustomLabelRow, [string]>(
+    "SELECT * FROM custom_labels WHERE store_id = ? ORDER BY slot, position, id"
+  ).all(getCurrentStoreId());
+}
+
+// Rules mapToMetaProduct evaluates, in priority order (plain data, safe to pass to workers)
+export function getActiveCustomLabels(): CustomLabelRule[] {
+  const db = getDb();
+  return db.query<CustomLabelRule, [string]>(
+    "SELECT id, slot, label, expression FROM custom_labels WHERE store_id = ? AND active = 1 ORDER BY slot, position, id"
+  ).all(getCurrentStoreId());
+}
+
+export function getCustomLabelById(id: number): CustomLabelRow | null {
+  const db = getDb();
+  return db.query<CustomLabelRow, [string, number]>(
+    "SELECT * FROM custom_labels WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), id);
+}
+
+export function createCustomLabel(input: CustomLabelInput): CustomLabelRow {
+  const slot = Number(input.slot);
+  const label = (input.label ?? "").trim();
+  const expression = (input.expression ?? "").trim();
+  validateInput(slot, label, expression);
+
+  const db = getDb();
+  const result = db.run(
+    `INSERT INTO custom_labels (store_id, slot, label, expression, position, description, active)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      getCurrentStoreId(),
+      slot,
+      label,
+      expression,
+      input.position ?? 0,
+      input.description || null,
+      input.active === false ? 0 : 1,
+    ]
+  );
+
+  return getCustomLabelById(Number(result.lastInsertRowid))!;
+}
+
+export function updateCustomLabel(id: number, input: Partial<CustomLabelInput>): CustomLabelRow | null {
+  const existing = getCustomLabelById(id);
+  if (!existing) return null;
+
+  const slot = input.slot !== undefined ? Number(input.slot) : existing.slot;
+  const label = (input.label ?? existing.label).trim();
+  const expression = (input.expression ?? existing.expression).trim();
+  validateInput(slot, label, expression);
+
+  const db = getDb();
+  db.run(
+    `UPDATE custom_labels SET
+      slot = ?, label = ?, expression = ?, position = ?, description = ?, active = ?,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE store_id = ? AND id = ?`,
+    [
+      slot,
+      label,
+      expression,
+      input.position ?? existing.position,
+      input.description !== undefined ? input.description || null : existing.description,
+      input.active === undefined ? existing.active : input.active ? 1 : 0,
+      getCurrentStoreId(),
+      id,
+    ]
+  );
+
+  return getCustomLabelById(id);
+}
+
+export function deleteCustomLabel(id: number): boolean {
+  const db = getDb();
+  const result = db.run("DELETE FROM custom_labels WHERE store_id = ? AND id = ?", [getCurrentStoreId(), id]);
+  return result.changes > 0;
+}
@@ -0,0 +1,113 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+import {
+  isFeedRuleType,
+  validateRuleValue,
+  type FeedRule,
+  type FeedRuleAction,
+  type FeedRuleType,
+} from "../feed-rules";
+
+export interface FeedRuleRow extends FeedRule {
+  store_id: string;
+  description: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedRuleInput {
+  action?: string;
+  type: string;
+  value?: string;
+  description?: string | null;
+  active?: boolean;
+}
+
+function validateInput(action: string, type: string, value: string): void {
+  if (action !== "include" && action !== "exclude") {
+    throw new Error('action must be "include" or "exclude"');
+  }
+  if (!isFeedRuleType(type)) {
+    throw new Error(`Unsupported rule type "${type}"`);
+  }
+  validateRuleValue(type, value);
+}
+
+export function getAllFeedRules(): FeedRuleRow[] {
+  const db = getDb();
+  return db.query<FeedRuleRow, [string]>(
+    "SELECT * FROM feed_rules WHERE store_id = ? ORDER BY action DESC, type, id"
+  ).all(getCurrentStoreId());
+}
+
+// Rules the feeds and syncs apply (plain data, safe to pass to workers)
+export function getActiveFeedRules(): FeedRule[] {
+  const db = getDb();
+  return db.query<FeedRule, [string]>(
+    "SELECT id, action, type, value FROM feed_rules WHERE store_id = ? AND active = 1 ORDER BY id"
+  ).all(getCurrentStoreId());
+}
+
+export function getFeedRuleById(id: number): FeedRuleRow | null {
+  const db = getDb();
+  return db.query<FeedRuleRow, [string, number]>(
+    "SELECT * FROM feed_rules WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), id);
+}
+
+export function createFeedRule(input: FeedRuleInput): FeedRuleRow {
+  const action = input.action ?? "exclude";
+  const value = (input.value ?? "").trim();
+  validateInput(action, input.type, value);
+
+  const db = getDb();
+  const result = db.run(
+    `INSERT INTO feed_rules (store_id, action, type, value, description, active)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      getCurrentStoreId(),
+      action as FeedRuleAction,
+      input.type as FeedRuleType,
+      value,
+      input.description || null,
+      input.active === false ? 0 : 1,
+    ]
+  );
+
+  return getFeedRuleById(Number(result.lastInsertRowid))!;
+}
+
+export function updateFeedRule(id: number, input: Partial<FeedRuleInput>): FeedRuleRow | null {
+  const existing = getFeedRuleById(id);
+  if (!existing) return null;
+
+  const action = input.action ?? existing.action;
+  const type = input.type ?? existing.type;
+  const value = (input.value ?? existing.value).trim();
+  validateInput(action, type, value);
+
+  const db = getDb();
+  db.run(
+    `UPDATE feed_rules SET
+      action = ?, type = ?, value = ?, description = ?, active = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE store_id = ? AND id = ?`,
+    [
+      action,
+      type,
+      value,
+      input.description !== undefined ? input.description || null : existing.description,
+      input.active === undefined ? existing.active : input.active ? 1 : 0,
+      getCurrentStoreId(),
+      id,
+    ]
+  );
+
+  return getFeedRuleById(id);
+}
+
+export function deleteFeedRule(id: number): boolean {
+  const db = getDb();
+  const result = db.run("DELETE FROM feed_rules WHERE store_id = ? AND id = ?", [getCurrentStoreId(), id]);
+  return result.changes > 0;
+}
@@ -0,0 +1,109 @@
+import { getDb } from "./index";
+
+export interface FeedStyle {
+  id: number;
+  name: string;
+  imgen_style: string;
+  title_prefix: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedStyleInput {
+  name: string;
+  imgen_style: string;
+  title_prefix?: string | null;
+  active?: boolean;
+}
+
+// The subset of a style that product mapping needs (safe to pass to workers)
+export type FeedStyleConfig = Pick<FeedStyle, "name" | "imgen_style" | "title_prefix">;
+
+// Fallback used by the Meta API sync paths, which always push the standard look
+export const DEFAULT_FEED_STYLE: FeedStyleConfig = {
+  name: "standard",
+  imgen_style: "standard",
+  title_prefix: null,
+};
+
+// Style names end up in file names and URLs (product_catalog_{name}.csv)
+const STYLE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export function isValidStyleName(name: string): boolean {
+  return STYLE_NAME_PATTERN.test(name);
+}
+
+export function getAllFeedStyles(): FeedStyle[] {
+  const db = getDb();
+  return db.query<FeedStyle, []>(
+    "SELECT * FROM feed_styles ORDER BY id ASC"
+  ).all();
+}
+
+export function getActiveFeedStyles(): FeedStyle[] {
+  const db = getDb();
+  return db.query<FeedStyle, []>(
+    "SELECT * FROM feed_styles WHERE active = 1 ORDER BY id ASC"
+  ).all();
+}
+
+export function getFeedStyleByName(name: string): FeedStyle | null {
+  const db = getDb();
+  return db.query<FeedStyle, [string]>(
+    "SELECT * FROM feed_styles WHERE name = ?"
+  ).get(name);
+}
+
+export function createFeedStyle(input: FeedStyleInput): FeedStyle {
+  if (!isValidStyleName(input.name)) {
+    throw new Error(`Invalid style name "${input.name}" (use lowercase letters, digits, - and _)`);
+  }
+  if (!input.imgen_style) {
+    throw new Error("imgen_style is required");
+  }
+
+  const db = getDb();
+  db.run(
+    `INSERT INTO feed_styles (name, imgen_style, title_prefix, active)
+     VALUES (?, ?, ?, ?)`,
+    [
+      input.name,
+      input.imgen_style,
+      input.title_prefix || null,
+      input.active === false ? 0 : 1,
+    ]
+  );
+
+  return getFeedStyleByName(input.name)!;
+}
+
+export function updateFeedStyle(
+  name: string,
+  data: Partial<Omit<FeedStyleInput, "name">>
+): FeedStyle | null {
+  const db = getDb();
+  db.run(
+    `UPDATE feed_styles SET
+      imgen_style = COALESCE(?, imgen_style),
+      title_prefix = CASE WHEN ? THEN ? ELSE title_prefix END,
+      active = COALESCE(?, active),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE name = ?`,
+    [
+      data.imgen_style || null,
+      data.title_prefix !== undefined ? 1 : 0,
+      data.title_prefix || null,
+      data.active === undefined ? null : data.active ? 1 : 0,
+      name,
+    ]
+  );
+
+  return getFeedStyleByName(name);
+}
+
+export function deleteFeedStyle(name: string): boolean {
+  const db = getDb();
+  const result = db.run("DELETE FROM feed_styles WHERE name = ?", [name]);
+  return result.changes > 0;
+}
@@ -0,0 +1,112 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+
+// A consumer's access to the store's feed files (Meta, Google, an agency...)
+export interface FeedTokenRow {
+  id: number;
+  store_id: string;
+  label: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface FeedDownloadRow {
+  id: number;
+  store_id: string;
+  token_id: number | null;
+  file: string;
+  status: number;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+function validateLabel(label: string): string {
+  const trimmed = (label ?? "").trim();
+  if (!trimmed) {
+    throw new Error("label is required");
+  }
+  if (trimmed.length > 100) {
+    throw new Error("label must be at most 100 characters");
+  }
+  return trimmed;
+}
+
+export function getFeedTokens(): FeedTokenRow[] {
+  const db = getDb();
+  return db.query<FeedTokenRow, [string]>(
+    "SELECT * FROM feed_tokens WHERE store_id = ? ORDER BY id DESC"
+  ).all(getCurrentStoreId());
+}
+
+// Looked up by store explicitly: feed downloads name their store in the path
+export function getFeedTokenById(storeId: string, id: number): FeedTokenRow | null {
+  const db = getDb();
+  return db.query<FeedTokenRow, [string, number]>(
+    "SELECT * FROM feed_tokens WHERE store_id = ? AND id = ?"
+  ).get(storeId, id);
+}
+
+export function createFeedToken(label: string, expiresAt: string | null): FeedTokenRow {
+  const trimmed = validateLabel(label);
+
+  const db = getDb();
+  const result = db.run(
+    "INSERT INTO feed_tokens (store_id, label, expires_at) VALUES (?, ?, ?)",
+    [getCurrentStoreId(), trimmed, expiresAt]
+  );
+  return getFeedTokenById(getCurrentStoreId(), Number(result.lastInsertRowid))!;
+}
+
+export function updateFeedTokenLabel(id: number, label: string): FeedTokenRow | null {
+  const trimmed = validateLabel(label);
+
+  const db = getDb();
+  db.run(
+    "UPDATE feed_tokens SET label = ? WHERE store_id = ? AND id = ?",
+    [trimmed, getCurrentStoreId(), id]
+  );
+  return getFeedTokenById(getCurrentStoreId(), id);
+}
+
+// Revoked tokens stay listed (and in the download log) but no longer open any feed
+export function revokeFeedToken(id: number): boolean {
+  const db = getDb();
+  return db.run(
+    "UPDATE feed_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE store_id = ? AND id = ? AND revoked_at IS NULL",
+    [getCurrentStoreId(), id]
+  ).changes > 0;
+}
+
+export function logFeedDownload(
+  storeId: string,
+  tokenId: number | null,
+  file: string,
+  status: number,
+  ip: string | null,
+  userAgent: string | null
+): void {
+  const db = getDb();
+  db.run(
+    "INSERT INTO feed_downloads (store_id, token_id, file, status, ip, user_agent) VALUES (?, ?, ?, ?, ?, ?)",
+    [storeId, tokenId, file, status, ip, userAgent]
+  );
+  if (tokenId !== null && status < 400) {
+    db.run("UPDATE feed_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?", [tokenId]);
+  }
+}
+
+// Most recent downloads, optionally of one token
+export function getFeedDownloads(tokenId?: number, limit = 100): FeedDownloadRow[] {
+  const db = getDb();
+  if (tokenId !== undefined) {
+    return db.query<FeedDownloadRow, [string, number, number]>(
+      "SELECT * FROM feed_downloads WHERE store_id = ? AND token_id = ? ORDER BY id DESC LIMIT ?"
+    ).all(getCurrentStoreId(), tokenId, limit);
+  }
+  return db.query<FeedDownloadRow, [string, number]>(
+    "SELECT * FROM feed_downloads WHERE store_id = ? ORDER BY id DESC LIMIT ?"
+  ).all(getCurrentStoreId(), limit);
+}
@@ -0,0 +1,84 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+
+// A generated Meta catalog; its content is kept under the data directory (see getFeedVersionPath)
+export interface FeedVersionRow {
+  id: number;
+  store_id: string;
+  style: string;
+  hash: string;
+  item_count: number;
+  size: number;
+  // 1 for the version currently at public/product_catalog_{style}.csv
+  published: number;
+  created_at: string;
+}
+
+export function getFeedVersions(style?: string): FeedVersionRow[] {
+  const db = getDb();
+  if (style) {
+    return db.query<FeedVersionRow, [string, string]>(
+      "SELECT * FROM feed_versions WHERE store_id = ? AND style = ? ORDER BY id DESC"
+    ).all(getCurrentStoreId(), style);
+  }
+  return db.query<FeedVersionRow, [string]>(
+    "SELECT * FROM feed_versions WHERE store_id = ? ORDER BY id DESC"
+  ).all(getCurrentStoreId());
+}
+
+export function getFeedVersionById(id: number): FeedVersionRow | null {
+  const db = getDb();
+  return db.query<FeedVersionRow, [string, number]>(
+    "SELECT * FROM feed_versions WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), id);
+}
+
+export function getPublishedFeedVersion(style: string): FeedVersionRow | null {
+  const db = getDb();
+  return db.query<FeedVersionRow, [string, string]>(
+    "SELECT * FROM feed_versions WHERE store_id = ? AND style = ? AND published = 1"
+  ).get(getCurrentStoreId(), style);
+}
+
+// The version generated just before this one, for "what changed" diffs
+export function getPreviousFeedVersion(version: FeedVersionRow): FeedVersionRow | null {
+  const db = getDb();
+  return db.query<FeedVersionRow, [string, string, number]>(
+    "SELECT * FROM feed_versions WHERE store_id = ? AND style = ? AND id < ? ORDER BY id DESC LIMIT 1"
+  ).get(version.store_id, version.style, version.id);
+}
+
+export function createFeedVersion(style: string, hash: string, itemCount: number, size: number): FeedVersionRow {
+  const db = getDb();
+  const result = db.run(
+    "INSERT INTO feed_versions (store_id, style, hash, item_count, size) VALUES (?, ?, ?, ?, ?)",
+    [getCurrentStoreId(), style, hash, itemCount, size]
+  );
+  return getFeedVersionById(Number(result.lastInsertRowid))!;
+}
+
+// Mark one version as the published one of its style
+export function setPublishedFeedVersion(version: FeedVersionRow): void {
+  const db = getDb();
+  const transaction = db.transaction(() => {
+    db.run(
+      "UPDATE feed_versions SET published = 0 WHERE store_id = ? AND style = ?",
+      [version.store_id, version.style]
+    );
+    db.run("UPDATE feed_versions SET published = 1 WHERE id = ?", [version.id]);
+  });
+  transaction();
+}
+
+// Unpublished versions of a style beyond the newest `keep`
+export function getExpiredFeedVersions(style: string, keep: number): FeedVersionRow[] {
+  const db = getDb();
+  return db.query<FeedVersionRow, [string, string, number]>(
+    "SELECT * FROM feed_versions WHERE store_id = ? AND style = ? AND published = 0 ORDER BY id DESC LIMIT -1 OFFSET ?"
+  ).all(getCurrentStoreId(), style, keep);
+}
+
+export function deleteFeedVersion(id: number): void {
+  const db = getDb();
+  db.run("DELETE FROM feed_versions WHERE store_id = ? AND id = ?", [getCurrentStoreId(), id]);
+}
@@ -0,0 +1,114 @@
+import { getDb } from "./index";
+import {
+  DEFAULT_IMAGE_TEMPLATE,
+  validateImageTemplate,
+  type ImageTemplate,
+  type ImageTemplateParams,
+  type ImageTemplateRatio,
+} from "../image-templates";
+
+interface ImageTemplateRow {
+  id: number;
+  name: string;
+  base_url: string;
+  params: string;
+  ratios: string;
+  currency_label: string;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredImageTemplate extends ImageTemplate {
+  id: number;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToTemplate(row: ImageTemplateRow): StoredImageTemplate {
+  return {
+    ...row,
+    params: { ...DEFAULT_IMAGE_TEMPLATE.params, ...JSON.parse(row.params) } as ImageTemplateParams,
+    ratios: JSON.parse(row.ratios) as ImageTemplateRatio[],
+  };
+}
+
+export function getAllImageTemplates(): StoredImageTemplate[] {
+  const db = getDb();
+  return db.query<ImageTemplateRow, []>(
+    "SELECT * FROM image_templates ORDER BY id ASC"
+  ).all().map(rowToTemplate);
+}
+
+export function getImageTemplateByName(name: string): StoredImageTemplate | null {
+  const db = getDb();
+  const row = db.query<ImageTemplateRow, [string]>(
+    "SELECT * FROM image_templates WHERE name = ?"
+  ).get(name);
+  return row ? rowToTemplate(row) : null;
+}
+
+// The template used for all mapping; falls back to the built-in one if none is active
+export function getActiveImageTemplate(): ImageTemplate {
+  const db = getDb();
+  const row = db.query<ImageTemplateRow, []>(
+    "SELECT * FROM image_templates WHERE active = 1 LIMIT 1"
+  ).get();
+  return row ? rowToTemplate(row) : DEFAULT_IMAGE_TEMPLATE;
+}
+
+export function saveImageTemplate(template: ImageTemplate, activate = false): StoredImageTemplate {
+  const errors = validateImageTemplate(template);
+  if (errors.length > 0) {
+    throw new Error(`Invalid image template: ${errors.join("; ")}`);
+  }
+
+  const db = getDb();
+  const transaction = db.transaction(() => {
+    if (activate) {
+      db.run("UPDATE image_templates SET active = 0, updated_at = CURRENT_TIMESTAMP WHERE active = 1");
+    }
+    db.run(
+      `INSERT INTO image_templates (name, base_url, params, ratios, currency_label, active, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT(name) DO UPDATE SET
+         base_url = excluded.base_url,
+         params = excluded.params,
+         ratios = excluded.ratios,
+         currency_label = excluded.currency_label,
+         active = CASE WHEN ? THEN 1 ELSE image_templates.active END,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        template.name,
+        template.base_url,
+        JSON.stringify(template.params),
+        JSON.stringify(template.ratios),
+        template.currency_label ?? "",
+        activate ? 1 : 0,
+        activate ? 1 : 0,
+      ]
+    );
+  });
+  transaction();
+
+  return getImageTemplateByName(template.name)!;
+}
+
+export function activateImageTemplate(name: string): boolean {
+  const db = getDb();
+  if (!getImageTemplateByName(name)) return false;
+
+  const transaction = db.transaction(() => {
+    db.run("UPDATE image_templates SET active = 0, updated_at = CURRENT_TIMESTAMP WHERE active = 1");
+    db.run("UPDATE image_templates SET active = 1, updated_at = CURRENT_TIMESTAMP WHERE name = ?", [name]);
+  });
+  transaction();
+  return true;
+}
+
+export function deleteImageTemplate(name: string): boolean {
+  const db = getDb();
+  const result = db.run("DELETE FROM image_templates WHERE name = ?", [name]);
+  return result.changes > 0;
+}
@@ -12,6 +12,11 @@ const DATABASE_PATH = process.env.DATABASE_PATH
 
 let db: Database | null = null;
 
+// Directory holding the database; other local state (feed versions) lives next to it
+export function getDataDir(): string {
+  return dirname(DATABASE_PATH);
+}
+
 export function getDb(): Database {
   if (!db) {
     // Ensure the directory exists
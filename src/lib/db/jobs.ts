@@ -0,0 +1,199 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+import { getNextCronRun, validateCron } from "../cron";
+
+// What a scheduled job does (see executeJob in scheduler.ts)
+export const JOB_TYPES = ["generate_feeds", "delta_sync", "full_sync", "reconcile"] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export type JobRunStatus = "running" | "success" | "error";
+
+export interface ScheduledJobRow {
+  id: number;
+  store_id: string;
+  name: string;
+  type: JobType;
+  // generate_feeds only: one style, null for every active style
+  style: string | null;
+  cron: string;
+  enabled: number;
+  // ISO timestamps
+  last_run_at: string | null;
+  last_status: JobRunStatus | null;
+  next_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JobRunRow {
+  id: number;
+  store_id: string;
+  job_id: number;
+  triggered_by: "schedule" | "manual";
+  status: JobRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  // Short report summary, or the error
+  message: string | null;
+}
+
+export interface ScheduledJobInput {
+  name?: string;
+  type?: string;
+  style?: string | null;
+  cron?: string;
+  enabled?: boolean;
+}
+
+// Runs kept per job
+const MAX_RUNS_PER_JOB = 100;
+
+function validateInput(name: string, type: string, cron: string): void {
+  if (!name) {
+    throw new Error("name is required");
+  }
+  if (!(JOB_TYPES as readonly string[]).includes(type)) {
+    throw new Error(`type must be one of ${JOB_TYPES.join(", ")}`);
+  }
+  try {
+    validateCron(cron);
+  } catch (error) {
+    throw new Error(`Invalid cron expression: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function nextRunAt(cron: string, enabled: boolean): string | null {
+  return enabled ? getNextCronRun(cron)?.toISOString() ?? null : null;
+}
+
+export function getAllScheduledJobs(): ScheduledJobRow[] {
+  const db = getDb();
+  return db.query<ScheduledJobRow, [string]>(
+    "SELECT * FROM scheduled_jobs WHERE store_id = ? ORDER BY id"
+  ).all(getCurrentStoreId());
+}
+
+// Enabled jobs of every store whose next run has come
+export function getDueScheduledJobs(now: Date): ScheduledJobRow[] {
+  const db = getDb();
+  return db.query<ScheduledJobRow, [string]>(
+    "SELECT * FROM scheduled_jobs WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at"
+  ).all(now.toISOString());
+}
+
+export function getScheduledJobById(id: number): ScheduledJobRow | null {
+  const db = getDb();
+  return db.query<ScheduledJobRow, [string, number]>(
+    "SELECT * FROM scheduled_jobs WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), id);
+}
+
+export function createScheduledJob(input: ScheduledJobInput): ScheduledJobRow {
+  const name = (input.name ?? "").trim();
+  const type = input.type ?? "";
+  const cron = (input.cron ?? "").trim();
+  validateInput(name, type, cron);
+  const enabled = input.enabled ?? true;
+
+  const db = getDb();
+  const result = db.run(
+    `INSERT INTO scheduled_jobs (store_id, name, type, style, cron, enabled, next_run_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      getCurrentStoreId(),
+      name,
+      type,
+      type === "generate_feeds" ? input.style || null : null,
+      cron,
+      enabled ? 1 : 0,
+      nextRunAt(cron, enabled),
+    ]
+  );
+  return getScheduledJobById(Number(result.lastInsertRowid))!;
+}
+
+export function updateScheduledJob(id: number, input: ScheduledJobInput): ScheduledJobRow | null {
+  const existing = getScheduledJobById(id);
+  if (!existing) return null;
+
+  const name = input.name !== undefined ? input.name.trim() : existing.name;
+  const type = input.type ?? existing.type;
+  const cron = input.cron !== undefined ? input.cron.trim() : existing.cron;
+  validateInput(name, type, cron);
+  const enabled = input.enabled ?? !!existing.enabled;
+  const style = input.style !== undefined ? input.style || null : existing.style;
+
+  const db = getDb();
+  db.run(
+    `UPDATE scheduled_jobs SET
+      name = ?, type = ?, style = ?, cron = ?, enabled = ?, next_run_at = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE store_id = ? AND id = ?`,
+    [
+      name,
+      type,
+      type === "generate_feeds" ? style : null,
+      cron,
+      enabled ? 1 : 0,
+      nextRunAt(cron, enabled),
+      getCurrentStoreId(),
+      id,
+    ]
+  );
+  return getScheduledJobById(id);
+}
+
+export function deleteScheduledJob(id: number): boolean {
+  const db = getDb();
+  const transaction = db.transaction(() => {
+    db.run("DELETE FROM job_runs WHERE store_id = ? AND job_id = ?", [getCurrentStoreId(), id]);
+    return db.run("DELETE FROM scheduled_jobs WHERE store_id = ? AND id = ?", [getCurrentStoreId(), id]).changes > 0;
+  });
+  return transaction();
+}
+
+// Record the start of a run and move the job to its next slot
+export function startJobRun(job: ScheduledJobRow, triggeredBy: JobRunRow["triggered_by"], startedAt: Date): JobRunRow {
+  const db = getDb();
+  const result = db.run(
+    "INSERT INTO job_runs (store_id, job_id, triggered_by, started_at) VALUES (?, ?, ?, ?)",
+    [job.store_id, job.id, triggeredBy, startedAt.toISOString()]
+  );
+  db.run(
+    `UPDATE scheduled_jobs SET last_run_at = ?, last_status = 'running', next_run_at = ? WHERE id = ?`,
+    [startedAt.toISOString(), nextRunAt(job.cron, !!job.enabled), job.id]
+  );
+  return db.query<JobRunRow, [number]>("SELECT * FROM job_runs WHERE id = ?").get(Number(result.lastInsertRowid))!;
+}
+
+export function finishJobRun(run: JobRunRow, status: Exclude<JobRunStatus, "running">, message: string | null): void {
+  const finishedAt = new Date();
+  const db = getDb();
+  db.run(
+    "UPDATE job_runs SET status = ?, finished_at = ?, duration_ms = ?, message = ? WHERE id = ?",
+    [status, finishedAt.toISOString(), finishedAt.getTime() - Date.parse(run.started_at), message, run.id]
+  );
+  db.run("UPDATE scheduled_jobs SET last_status = ? WHERE id = ?", [status, run.job_id]);
+  db.run(
+    "DELETE FROM job_runs WHERE job_id = ? AND id NOT IN (SELECT id FROM job_runs WHERE job_id = ? ORDER BY id DESC LIMIT ?)",
+    [run.job_id, run.job_id, MAX_RUNS_PER_JOB]
+  );
+}
+
+// Runs left "running" by a server that stopped mid-job
+export function failInterruptedJobRuns(): number {
+  const db = getDb();
+  db.run(
+    "UPDATE scheduled_jobs SET last_status = 'error' WHERE last_status = 'running'"
+  );
+  return db.run(
+    "UPDATE job_runs SET status = 'error', message = 'Interrupted (server stopped)' WHERE status = 'running'"
+  ).changes;
+}
+
+export function getJobRuns(jobId: number, limit = 20): JobRunRow[] {
+  const db = getDb();
+  return db.query<JobRunRow, [string, number, number]>(
+    "SELECT * FROM job_runs WHERE store_id = ? AND job_id = ? ORDER BY id DESC LIMIT ?"
+  ).all(getCurrentStoreId(), jobId, limit);
+}
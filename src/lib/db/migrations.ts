@@ -14,6 +14,28 @@ function addColumnIfNotExists(db: Database, table: string, column: string, type:
   }
 }
 
+function columnNames(db: Database, table: string): string[] {
+  return db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all().map((c) => c.name);
+}
+
+function hasTable(db: Database, table: string): boolean {
+  return !!db.query<{ name: string }, [string]>(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name = ?"
+  ).get(table);
+}
+
+// Swaps a table for a new definition (created as <table>_new), keeping the columns both share.
+// Must run with foreign keys off.
+function rebuildTable(db: Database, table: string, createNewSql: string): void {
+  db.exec(createNewSql);
+  const oldColumns = columnNames(db, table);
+  const shared = columnNames(db, `${table}_new`).filter((c) => oldColumns.includes(c)).join(", ");
+  db.exec(`INSERT INTO ${table}_new (${shared}) SELECT ${shared} FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+  console.log(`  Rebuilt table: ${table}`);
+}
+
 export function runMigrations(db: Database): void {
   console.log("Running database migrations...");
 
@@ -47,5 +69,172 @@ export function runMigrations(db: Database): void {
     db.exec("CREATE INDEX IF NOT EXISTS idx_webhook_events_created_at ON webhook_events(created_at)");
   }
 
+  // Migration 2: Cache assigned categories on products (JSON [{id, name}])
+  addColumnIfNotExists(db, "products", "categories", "TEXT");
+
+  // Migration 3: Scheduled sale window (GMT) on products and cached variations
+  addColumnIfNotExists(db, "products", "date_on_sale_from", "TEXT");
+  addColumnIfNotExists(db, "products", "date_on_sale_to", "TEXT");
+
+  const variationsTableExists = db.query<{ name: string }, []>(
+    `SELECT name FROM sqlite_master WHERE type='table' AND name='product_variations'`
+  ).get();
+
+  if (variationsTableExists) {
+    addColumnIfNotExists(db, "product_variations", "date_on_sale_from", "TEXT");
+    addColumnIfNotExists(db, "product_variations", "date_on_sale_to", "TEXT");
+  }
+
+  // Migration 4: Number of variations actually fetched per variable product
+  addColumnIfNotExists(db, "products", "variation_count", "INTEGER");
+  addColumnIfNotExists(db, "products", "variations_fetched_at", "DATETIME");
+
+  // Migration 5: Multi-store tenancy. Product IDs are only unique within a shop, so the
+  // store-scoped tables are rebuilt with (store_id, id) keys; existing rows join the default store.
+  if (!columnNames(db, "products").includes("store_id")) {
+    db.exec("PRAGMA foreign_keys = OFF");
+    const migrate = db.transaction(() => {
+      rebuildTable(db, "products", `
+        CREATE TABLE products_new (
+          store_id TEXT NOT NULL DEFAULT 'default',
+          id INTEGER NOT NULL,
+          parent_id INTEGER DEFAULT 0,
+          type TEXT NOT NULL,
+          meta_retailer_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          sku TEXT,
+          permalink TEXT,
+          price TEXT,
+          regular_price TEXT,
+          sale_price TEXT,
+          stock_status TEXT NOT NULL,
+          stock_quantity INTEGER,
+          description TEXT,
+          image_url TEXT,
+          attributes TEXT,
+          variations TEXT,
+          categories TEXT,
+          date_on_sale_from TEXT,
+          date_on_sale_to TEXT,
+          variation_count INTEGER,
+          variations_fetched_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (store_id, id),
+          UNIQUE (store_id, meta_retailer_id)
+        )
+      `);
+
+      rebuildTable(db, "meta_sync_status", `
+        CREATE TABLE meta_sync_status_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          store_id TEXT NOT NULL DEFAULT 'default',
+          product_id INTEGER NOT NULL,
+          meta_retailer_id TEXT NOT NULL,
+          sync_status TEXT DEFAULT 'pending',
+          meta_product_exists INTEGER DEFAULT 0,
+          last_availability TEXT,
+          last_inventory INTEGER,
+          last_synced_at DATETIME,
+          last_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (store_id, meta_retailer_id),
+          FOREIGN KEY (store_id, product_id) REFERENCES products(store_id, id) ON DELETE CASCADE
+        )
+      `);
+
+      rebuildTable(db, "categories", `
+        CREATE TABLE categories_new (
+          store_id TEXT NOT NULL DEFAULT 'default',
+          id INTEGER NOT NULL,
+          parent_id INTEGER DEFAULT 0,
+          name TEXT NOT NULL,
+          slug TEXT,
+          google_category TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (store_id, id)
+        )
+      `);
+
+      if (hasTable(db, "product_variations")) {
+        rebuildTable(db, "product_variations", `
+          CREATE TABLE product_variations_new (
+            store_id TEXT NOT NULL DEFAULT 'default',
+            id INTEGER NOT NULL,
+            parent_id INTEGER NOT NULL,
+            name TEXT,
+            sku TEXT,
+            permalink TEXT,
+            price TEXT,
+            regular_price TEXT,
+            sale_price TEXT,
+            stock_status TEXT NOT NULL,
+            stock_quantity INTEGER,
+            description TEXT,
+            image_url TEXT,
+            attributes TEXT,
+            date_on_sale_from TEXT,
+            date_on_sale_to TEXT,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (store_id, id),
+            FOREIGN KEY (store_id, parent_id) REFERENCES products(store_id, id) ON DELETE CASCADE
+          )
+        `);
+      }
+
+      addColumnIfNotExists(db, "webhook_events", "store_id", "TEXT NOT NULL DEFAULT 'default'");
+
+      // Checkpoints and high-water marks are kept per store as "<store>:<key>"
+      db.run("UPDATE sync_state SET key = 'default:' || key WHERE key NOT LIKE '%:%'");
+    });
+    migrate();
+    db.exec("PRAGMA foreign_keys = ON");
+  }
+
+  // Migration 6: WooCommerce meta fields (JSON {key: value}) for country/language overrides
+  addColumnIfNotExists(db, "products", "meta_data", "TEXT");
+  if (hasTable(db, "product_variations")) {
+    addColumnIfNotExists(db, "product_variations", "meta_data", "TEXT");
+  }
+
+  // Migration 7: Product tags (JSON [{id, name, slug}]) for feed rules
+  addColumnIfNotExists(db, "products", "tags", "TEXT");
+
+  // Migration 8: Lifetime sales count for custom label expressions (bestsellers)
+  addColumnIfNotExists(db, "products", "total_sales", "INTEGER");
+
+  // Migration 9: Full gallery cache and per-category gallery settings (additional images)
+  addColumnIfNotExists(db, "products", "images", "TEXT");
+  addColumnIfNotExists(db, "categories", "gallery_images", "INTEGER");
+  addColumnIfNotExists(db, "categories", "gallery_tags", "TEXT");
+
+  // Migration 10: GTIN/MPN/brand/condition meta keys per store, cached weight and dimensions
+  addColumnIfNotExists(db, "stores", "gtin_meta_key", "TEXT");
+  addColumnIfNotExists(db, "stores", "mpn_meta_key", "TEXT");
+  addColumnIfNotExists(db, "stores", "brand_meta_key", "TEXT");
+  addColumnIfNotExists(db, "stores", "condition_meta_key", "TEXT");
+  addColumnIfNotExists(db, "stores", "weight_unit", "TEXT NOT NULL DEFAULT 'kg'");
+  addColumnIfNotExists(db, "products", "weight", "TEXT");
+  addColumnIfNotExists(db, "products", "dimensions", "TEXT");
+  if (hasTable(db, "product_variations")) {
+    addColumnIfNotExists(db, "product_variations", "weight", "TEXT");
+    addColumnIfNotExists(db, "product_variations", "dimensions", "TEXT");
+  }
+
+  // Migration 11: Signed feed URLs (per-store signing secret, optional enforcement)
+  addColumnIfNotExists(db, "stores", "feed_token_required", "INTEGER DEFAULT 0");
+  addColumnIfNotExists(db, "stores", "feed_signing_secret", "TEXT");
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_products_store_parent_id ON products(store_id, parent_id);
+    CREATE INDEX IF NOT EXISTS idx_products_store_stock_status ON products(store_id, stock_status);
+    CREATE INDEX IF NOT EXISTS idx_meta_sync_status_store_sync_status ON meta_sync_status(store_id, sync_status);
+    CREATE INDEX IF NOT EXISTS idx_meta_sync_status_store_product_id ON meta_sync_status(store_id, product_id);
+    CREATE INDEX IF NOT EXISTS idx_categories_store_parent_id ON categories(store_id, parent_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_events_store_id ON webhook_events(store_id);
+  `);
+
   console.log("Migrations complete.");
 }
@@ -0,0 +1,169 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+
+// Where a country's price comes from:
+// - meta_field: a WooCommerce meta field holding the price in that currency
+//   (falls back to exchange_rate when the field is missing and a rate is set)
+// - exchange_rate: the base price multiplied by a fixed rate
+export type CountryPriceSource = "meta_field" | "exchange_rate";
+
+export interface CountryOverride {
+  store_id: string;
+  country: string;  // ISO 3166-1 alpha-2, e.g. "HR"
+  currency: string; // ISO 4217, e.g. "EUR"
+  price_source: CountryPriceSource;
+  price_meta_key: string | null;
+  sale_price_meta_key: string | null;
+  exchange_rate: number | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CountryOverrideInput {
+  country: string;
+  currency: string;
+  price_source?: CountryPriceSource;
+  price_meta_key?: string | null;
+  sale_price_meta_key?: string | null;
+  exchange_rate?: number | null;
+  active?: boolean;
+}
+
+// Translated title/description per locale, read from WooCommerce meta fields
+export interface LanguageOverride {
+  store_id: string;
+  locale: string;  // Meta locale, e.g. "hr_HR" or "sl_XX"
+  title_meta_key: string | null;
+  description_meta_key: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LanguageOverrideInput {
+  locale: string;
+  title_meta_key?: string | null;
+  description_meta_key?: string | null;
+  active?: boolean;
+}
+
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const LOCALE_PATTERN = /^[a-z]{2}_([A-Z]{2}|XX)$/;
+
+export function getCountryOverrides(activeOnly = false): CountryOverride[] {
+  const db = getDb();
+  return db.query<CountryOverride, [string]>(
+    `SELECT * FROM country_overrides WHERE store_id = ?${activeOnly ? " AND active = 1" : ""} ORDER BY country`
+  ).all(getCurrentStoreId());
+}
+
+export function upsertCountryOverride(input: CountryOverrideInput): CountryOverride {
+  const country = input.country?.toUpperCase();
+  const currency = input.currency?.toUpperCase();
+  const priceSource = input.price_source ?? "exchange_rate";
+
+  if (!country || !COUNTRY_PATTERN.test(country)) {
+    throw new Error("country must be a two-letter ISO code (e.g. HR)");
+  }
+  if (!currency || !CURRENCY_PATTERN.test(currency)) {
+    throw new Error("currency must be a three-letter ISO code (e.g. EUR)");
+  }
+  if (priceSource !== "meta_field" && priceSource !== "exchange_rate") {
+    throw new Error('price_source must be "meta_field" or "exchange_rate"');
+  }
+  if (priceSource === "meta_field" && !input.price_meta_key) {
+    throw new Error("price_meta_key is required when price_source is meta_field");
+  }
+  if (priceSource === "exchange_rate" && !(Number(input.exchange_rate) > 0)) {
+    throw new Error("exchange_rate must be a positive number when price_source is exchange_rate");
+  }
+
+  const db = getDb();
+  const storeId = getCurrentStoreId();
+  db.run(
+    `INSERT INTO country_overrides (
+      store_id, country, currency, price_source, price_meta_key, sale_price_meta_key, exchange_rate, active
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(store_id, country) DO UPDATE SET
+      currency = excluded.currency,
+      price_source = excluded.price_source,
+      price_meta_key = excluded.price_meta_key,
+      sale_price_meta_key = excluded.sale_price_meta_key,
+      exchange_rate = excluded.exchange_rate,
+      active = excluded.active,
+      updated_at = CURRENT_TIMESTAMP`,
+    [
+      storeId,
+      country,
+      currency,
+      priceSource,
+      input.price_meta_key || null,
+      input.sale_price_meta_key || null,
+      input.exchange_rate ? Number(input.exchange_rate) : null,
+      input.active === false ? 0 : 1,
+    ]
+  );
+
+  return db.query<CountryOverride, [string, string]>(
+    "SELECT * FROM country_overrides WHERE store_id = ? AND country = ?"
+  ).get(storeId, country)!;
+}
+
+export function deleteCountryOverride(country: string): boolean {
+  const db = getDb();
+  const result = db.run(
+    "DELETE FROM country_overrides WHERE store_id = ? AND country = ?",
+    [getCurrentStoreId(), country.toUpperCase()]
+  );
+  return result.changes > 0;
+}
+
+export function getLanguageOverrides(activeOnly = false): LanguageOverride[] {
+  const db = getDb();
+  return db.query<LanguageOverride, [string]>(
+    `SELECT * FROM language_overrides WHERE store_id = ?${activeOnly ? " AND active = 1" : ""} ORDER BY locale`
+  ).all(getCurrentStoreId());
+}
+
+export function upsertLanguageOverride(input: LanguageOverrideInput): LanguageOverride {
+  if (!input.locale || !LOCALE_PATTERN.test(input.locale)) {
+    throw new Error("locale must look like hr_HR or hr_XX");
+  }
+  if (!input.title_meta_key && !input.description_meta_key) {
+    throw new Error("title_meta_key or description_meta_key is required");
+  }
+
+  const db = getDb();
+  const storeId = getCurrentStoreId();
+  db.run(
+    `INSERT INTO language_overrides (store_id, locale, title_meta_key, description_meta_key, active)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(store_id, locale) DO UPDATE SET
+      title_meta_key = excluded.title_meta_key,
+      description_meta_key = excluded.description_meta_key,
+      active = excluded.active,
+      updated_at = CURRENT_TIMESTAMP`,
+    [
+      storeId,
+      input.locale,
+      input.title_meta_key || null,
+      input.description_meta_key || null,
+      input.active === false ? 0 : 1,
+    ]
+  );
+
+  return db.query<LanguageOverride, [string, string]>(
+    "SELECT * FROM language_overrides WHERE store_id = ? AND locale = ?"
+  ).get(storeId, input.locale)!;
+}
+
+export function deleteLanguageOverride(locale: string): boolean {
+  const db = getDb();
+  const result = db.run(
+    "DELETE FROM language_overrides WHERE store_id = ? AND locale = ?",
+    [getCurrentStoreId(), locale]
+  );
+  return result.changes > 0;
+}
@@ -1,7 +1,10 @@
 import { getDb } from "./index";
 import type { WCProduct } from "../types";
+import { getSaleDateGmt } from "../sale-window";
+import { getCurrentStoreId } from "../store-context";
 
 export interface DbProduct {
+  store_id: string;
   id: number;
   parent_id: number;
   type: string;
@@ -16,12 +19,82 @@ export interface DbProduct {
   stock_quantity: number | null;
   description: string | null;
   image_url: string | null;
+  images: string | null;             // JSON [{id, src}], the full gallery
   attributes: string | null;
   variations: string | null;
+  categories: string | null;
+  date_on_sale_from: string | null;  // GMT, WooCommerce format (no offset)
+  date_on_sale_to: string | null;
+  variation_count: number | null;    // variations fetched on the last refresh
+  variations_fetched_at: string | null;
+  meta_data: string | null;          // JSON [{key, value}], scalar values only
+  tags: string | null;               // JSON [{id, name, slug}]
+  total_sales: number | null;
+  weight: string | null;
+  dimensions: string | null;         // JSON {length, width, height}
   created_at: string;
   updated_at: string;
 }
 
+// Row shape shared by the products and product_variations cache tables
+export type CachedProductRow = Pick<
+  DbProduct,
+  | "id" | "parent_id" | "name" | "sku" | "permalink" | "price" | "regular_price" | "sale_price"
+  | "stock_status" | "stock_quantity" | "description" | "image_url" | "attributes"
+> & Partial<Pick<DbProduct, "type" | "variations" | "categories" | "date_on_sale_from" | "date_on_sale_to" | "meta_data" | "tags" | "total_sales" | "images" | "weight" | "dimensions">>;
+
+// Keeps scalar meta fields (price per country, translated titles, ...) and drops
+// the nested plugin blobs WooCommerce also returns
+export function serializeMetaData(product: WCProduct): string | null {
+  const fields = (product.meta_data || [])
+    .filter((m) => ["string", "number", "boolean"].includes(typeof m.value))
+    .map((m) => ({ key: m.key, value: m.value }));
+  return fields.length ? JSON.stringify(fields) : null;
+}
+
+// Only kept when at least one side is set
+export function serializeDimensions(product: WCProduct): string | null {
+  const d = product.dimensions;
+  if (!d || !(d.length || d.width || d.height)) return null;
+  return JSON.stringify({ length: d.length || "", width: d.width || "", height: d.height || "" });
+}
+
+// Convert a cached row back to a WCProduct-like object for mapping
+export function rowToWCProduct(row: CachedProductRow): WCProduct {
+  return {
+    id: row.id,
+    parent_id: row.parent_id,
+    type: row.type as string,
+    name: row.name,
+    sku: row.sku || "",
+    permalink: row.permalink || "",
+    price: row.price || "",
+    regular_price: row.regular_price || "",
+    sale_price: row.sale_price || "",
+    stock_status: row.stock_status,
+    stock_quantity: row.stock_quantity,
+    description: row.description || "",
+    short_description: "",
+    slug: "",
+    status: "publish",
+    date_on_sale_from: row.date_on_sale_from ?? null,
+    date_on_sale_to: row.date_on_sale_to ?? null,
+    date_on_sale_from_gmt: row.date_on_sale_from ?? null,
+    date_on_sale_to_gmt: row.date_on_sale_to ?? null,
+    images: row.images
+      ? JSON.parse(row.images)
+      : row.image_url ? [{ id: 0, src: row.image_url }] : [],
+    attributes: row.attributes ? JSON.parse(row.attributes) : [],
+    variations: row.variations ? JSON.parse(row.variations) : [],
+    categories: row.categories ? JSON.parse(row.categories) : [],
+    meta_data: row.meta_data ? JSON.parse(row.meta_data) : [],
+    tags: row.tags ? JSON.parse(row.tags) : [],
+    total_sales: row.total_sales ?? undefined,
+    weight: row.weight || "",
+    dimensions: row.dimensions ? JSON.parse(row.dimensions) : undefined,
+  };
+}
+
 function generateMetaRetailerId(product: WCProduct, parent?: WCProduct): string {
   if (product.parent_id > 0) {
     return `wc_${product.id}`;
@@ -39,11 +112,12 @@ export function upsertProduct(product: WCProduct, parent?: WCProduct): void {
 
   const stmt = db.prepare(`
     INSERT INTO products (
-      id, parent_id, type, meta_retailer_id, name, sku, permalink, price,
+      store_id, id, parent_id, type, meta_retailer_id, name, sku, permalink, price,
       regular_price, sale_price, stock_status, stock_quantity, description,
-      image_url, attributes, variations, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    ON CONFLICT(id) DO UPDATE SET
+      image_url, images, attributes, variations, categories, date_on_sale_from,
+      date_on_sale_to, meta_data, tags, total_sales, weight, dimensions, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(store_id, id) DO UPDATE SET
       parent_id = excluded.parent_id,
       type = excluded.type,
       meta_retailer_id = excluded.meta_retailer_id,
@@ -57,12 +131,22 @@ export function upsertProduct(product: WCProduct, parent?: WCProduct): void {
       stock_quantity = excluded.stock_quantity,
       description = excluded.description,
       image_url = excluded.image_url,
+      images = excluded.images,
       attributes = excluded.attributes,
       variations = excluded.variations,
+      categories = COALESCE(excluded.categories, products.categories),
+      date_on_sale_from = excluded.date_on_sale_from,
+      date_on_sale_to = excluded.date_on_sale_to,
+      meta_data = COALESCE(excluded.meta_data, products.meta_data),
+      tags = COALESCE(excluded.tags, products.tags),
+      total_sales = COALESCE(excluded.total_sales, products.total_sales),
+      weight = excluded.weight,
+      dimensions = excluded.dimensions,
       updated_at = CURRENT_TIMESTAMP
   `);
 
   stmt.run(
+    getCurrentStoreId(),
     product.id,
     product.parent_id || 0,
     product.type || "simple",
@@ -77,8 +161,23 @@ export function upsertProduct(product: WCProduct, parent?: WCProduct): void {
     product.stock_quantity,
     product.description || null,
     imageUrl,
+    product.images?.length
+      ? JSON.stringify(product.images.map((i) => ({ id: i.id, src: i.src })))
+      : null,
     product.attributes ? JSON.stringify(product.attributes) : null,
-    product.variations?.length ? JSON.stringify(product.variations) : null
+    product.variations?.length ? JSON.stringify(product.variations) : null,
+    product.categories?.length
+      ? JSON.stringify(product.categories.map((c) => ({ id: c.id, name: c.name })))
+      : null,
+    getSaleDateGmt(product, "from"),
+    getSaleDateGmt(product, "to"),
+    serializeMetaData(product),
+    product.tags?.length
+      ? JSON.stringify(product.tags.map((t) => ({ id: t.id, name: t.name, slug: t.slug })))
+      : null,
+    product.total_sales !== undefined ? Number(product.total_sales) || 0 : null,
+    product.weight || null,
+    serializeDimensions(product)
   );
 }
 
@@ -94,47 +193,138 @@ export function bulkUpsertProducts(products: WCProduct[]): void {
 
 export function getProductById(id: number): DbProduct | null {
   const db = getDb();
-  return db.query<DbProduct, [number]>("SELECT * FROM products WHERE id = ?").get(id);
+  return db.query<DbProduct, [string, number]>(
+    "SELECT * FROM products WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), id);
 }
 
 export function getProductByMetaRetailerId(metaRetailerId: string): DbProduct | null {
   const db = getDb();
-  return db.query<DbProduct, [string]>(
-    "SELECT * FROM products WHERE meta_retailer_id = ?"
-  ).get(metaRetailerId);
+  return db.query<DbProduct, [string, string]>(
+    "SELECT * FROM products WHERE store_id = ? AND meta_retailer_id = ?"
+  ).get(getCurrentStoreId(), metaRetailerId);
 }
 
 export function getAllProducts(limit = 100, offset = 0): DbProduct[] {
   const db = getDb();
-  return db.query<DbProduct, [number, number]>(
-    "SELECT * FROM products ORDER BY updated_at DESC LIMIT ? OFFSET ?"
-  ).all(limit, offset);
+  return db.query<DbProduct, [string, number, number]>(
+    "SELECT * FROM products WHERE store_id = ? ORDER BY updated_at DESC LIMIT ? OFFSET ?"
+  ).all(getCurrentStoreId(), limit, offset);
 }
 
 export function getInStockProducts(): DbProduct[] {
   const db = getDb();
-  return db.query<DbProduct, []>(
-    "SELECT * FROM products WHERE stock_status = 'instock'"
-  ).all();
+  return db.query<DbProduct, [string]>(
+    "SELECT * FROM products WHERE store_id = ? AND stock_status = 'instock'"
+  ).all(getCurrentStoreId());
 }
 
 export function deleteProduct(id: number): void {
   const db = getDb();
-  db.run("DELETE FROM products WHERE id = ?", [id]);
+  db.run("DELETE FROM products WHERE store_id = ? AND id = ?", [getCurrentStoreId(), id]);
 }
 
 export function getProductCount(): number {
   const db = getDb();
-  const result = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM products"
-  ).get();
+  const result = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM products WHERE store_id = ?"
+  ).get(getCurrentStoreId());
   return result?.count ?? 0;
 }
 
 export function getInStockCount(): number {
   const db = getDb();
-  const result = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM products WHERE stock_status = 'instock'"
-  ).get();
+  const result = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM products WHERE store_id = ? AND stock_status = 'instock'"
+  ).get(getCurrentStoreId());
   return result?.count ?? 0;
 }
+
+// Products whose scheduled sale opened or closed within (since, until] (GMT, WooCommerce format)
+export function getProductsWithSaleTransitions(since: string, until: string): DbProduct[] {
+  const db = getDb();
+  return db.query<DbProduct, [string, string, string, string, string]>(
+    `SELECT * FROM products
+     WHERE store_id = ?
+       AND sale_price IS NOT NULL
+       AND ((date_on_sale_from > ? AND date_on_sale_from <= ?)
+         OR (date_on_sale_to > ? AND date_on_sale_to <= ?))`
+  ).all(getCurrentStoreId(), since, until, since, until);
+}
+
+export function recordVariationCount(parentId: number, count: number): void {
+  const db = getDb();
+  db.run(
+    "UPDATE products SET variation_count = ?, variations_fetched_at = CURRENT_TIMESTAMP WHERE store_id = ? AND id = ?",
+    [count, getCurrentStoreId(), parentId]
+  );
+}
+
+export interface VariationCountDrift {
+  id: number;
+  name: string;
+  expected: number;  // variation IDs listed on the parent
+  fetched: number;
+  variations_fetched_at: string | null;
+}
+
+// Variable products where the fetched variation count doesn't match the parent's list
+export function getVariationCountDrift(): VariationCountDrift[] {
+  const db = getDb();
+  return db.query<VariationCountDrift, [string]>(
+    `SELECT id, name, json_array_length(COALESCE(variations, '[]')) as expected,
+            variation_count as fetched, variations_fetched_at
+     FROM products
+     WHERE store_id = ?
+       AND type = 'variable'
+       AND variation_count IS NOT NULL
+       AND variation_count != json_array_length(COALESCE(variations, '[]'))
+     ORDER BY id`
+  ).all(getCurrentStoreId());
+}
+
+export type CatalogProductRow = DbProduct & { last_availability: string | null };
+
+// Cached products and variations that exist in the Meta catalog, with what was last pushed
+export function getProductsInCatalog(): CatalogProductRow[] {
+  const db = getDb();
+  return db.query<CatalogProductRow, [string]>(
+    `SELECT p.*, s.last_availability
+     FROM products p
+     JOIN meta_sync_status s ON s.store_id = p.store_id AND s.product_id = p.id
+     WHERE p.store_id = ? AND p.type != 'variable' AND s.meta_product_exists = 1`
+  ).all(getCurrentStoreId());
+}
+
+// Store variations in a separate table for fast access
+export function initVariationsTable(): void {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS product_variations (
+      store_id TEXT NOT NULL DEFAULT 'default',
+      id INTEGER NOT NULL,
+      parent_id INTEGER NOT NULL,
+      name TEXT,
+      sku TEXT,
+      permalink TEXT,
+      price TEXT,
+      regular_price TEXT,
+      sale_price TEXT,
+      stock_status TEXT NOT NULL,
+      stock_quantity INTEGER,
+      description TEXT,
+      image_url TEXT,
+      attributes TEXT,
+      date_on_sale_from TEXT,
+      date_on_sale_to TEXT,
+      meta_data TEXT,
+      weight TEXT,
+      dimensions TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (store_id, id),
+      FOREIGN KEY (store_id, parent_id) REFERENCES products(store_id, id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_variations_store_parent_id ON product_variations(store_id, parent_id);
+    CREATE INDEX IF NOT EXISTS idx_variations_store_stock_status ON product_variations(store_id, stock_status);
+  `);
+}
@@ -1,12 +1,38 @@
 import { Database } from "bun:sqlite";
+import { DEFAULT_IMAGE_TEMPLATE } from "../image-templates";
 
 export function initSchema(db: Database): void {
   db.exec(`
+    CREATE TABLE IF NOT EXISTS stores (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      wc_api_url TEXT NOT NULL,
+      wc_consumer_key TEXT NOT NULL,
+      wc_consumer_secret TEXT NOT NULL,
+      wc_auth_mode TEXT NOT NULL DEFAULT 'auto',
+      wc_webhook_secret TEXT,
+      meta_catalog_id TEXT,
+      meta_access_token TEXT,
+      currency TEXT NOT NULL DEFAULT 'BAM',
+      brand TEXT NOT NULL DEFAULT 'Lunatik',
+      gtin_meta_key TEXT,
+      mpn_meta_key TEXT,
+      brand_meta_key TEXT,
+      condition_meta_key TEXT,
+      weight_unit TEXT NOT NULL DEFAULT 'kg',
+      feed_token_required INTEGER DEFAULT 0,
+      feed_signing_secret TEXT,
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
     CREATE TABLE IF NOT EXISTS products (
-      id INTEGER PRIMARY KEY,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      id INTEGER NOT NULL,
       parent_id INTEGER DEFAULT 0,
       type TEXT NOT NULL,
-      meta_retailer_id TEXT UNIQUE NOT NULL,
+      meta_retailer_id TEXT NOT NULL,
       name TEXT NOT NULL,
       sku TEXT,
       permalink TEXT,
@@ -17,16 +43,30 @@ export function initSchema(db: Database): void {
       stock_quantity INTEGER,
       description TEXT,
       image_url TEXT,
+      images TEXT,
       attributes TEXT,
       variations TEXT,
+      categories TEXT,
+      date_on_sale_from TEXT,
+      date_on_sale_to TEXT,
+      variation_count INTEGER,
+      variations_fetched_at DATETIME,
+      meta_data TEXT,
+      tags TEXT,
+      total_sales INTEGER,
+      weight TEXT,
+      dimensions TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (store_id, id),
+      UNIQUE (store_id, meta_retailer_id)
     );
 
     CREATE TABLE IF NOT EXISTS meta_sync_status (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
       product_id INTEGER NOT NULL,
-      meta_retailer_id TEXT UNIQUE NOT NULL,
+      meta_retailer_id TEXT NOT NULL,
       sync_status TEXT DEFAULT 'pending',
       meta_product_exists INTEGER DEFAULT 0,
       last_availability TEXT,
@@ -35,11 +75,13 @@ export function initSchema(db: Database): void {
       last_error TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+      UNIQUE (store_id, meta_retailer_id),
+      FOREIGN KEY (store_id, product_id) REFERENCES products(store_id, id) ON DELETE CASCADE
     );
 
     CREATE TABLE IF NOT EXISTS webhook_events (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
       topic TEXT NOT NULL,
       wc_product_id INTEGER NOT NULL,
       product_name TEXT,
@@ -59,14 +101,239 @@ export function initSchema(db: Database): void {
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
-    CREATE INDEX IF NOT EXISTS idx_products_parent_id ON products(parent_id);
-    CREATE INDEX IF NOT EXISTS idx_products_stock_status ON products(stock_status);
-    CREATE INDEX IF NOT EXISTS idx_products_meta_retailer_id ON products(meta_retailer_id);
-    CREATE INDEX IF NOT EXISTS idx_meta_sync_status_sync_status ON meta_sync_status(sync_status);
-    CREATE INDEX IF NOT EXISTS idx_meta_sync_status_product_id ON meta_sync_status(product_id);
+    CREATE TABLE IF NOT EXISTS feed_styles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      imgen_style TEXT NOT NULL,
+      title_prefix TEXT,
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS image_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      base_url TEXT NOT NULL,
+      params TEXT NOT NULL,
+      ratios TEXT NOT NULL,
+      currency_label TEXT NOT NULL DEFAULT '',
+      active INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS attribute_mappings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match TEXT UNIQUE NOT NULL,
+      meta_field TEXT NOT NULL,
+      value_map TEXT NOT NULL DEFAULT '{}',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS categories (
+      store_id TEXT NOT NULL DEFAULT 'default',
+      id INTEGER NOT NULL,
+      parent_id INTEGER DEFAULT 0,
+      name TEXT NOT NULL,
+      slug TEXT,
+      google_category TEXT,
+      gallery_images INTEGER,
+      gallery_tags TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (store_id, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS country_overrides (
+      store_id TEXT NOT NULL DEFAULT 'default',
+      country TEXT NOT NULL,
+      currency TEXT NOT NULL,
+      price_source TEXT NOT NULL DEFAULT 'exchange_rate',
+      price_meta_key TEXT,
+      sale_price_meta_key TEXT,
+      exchange_rate REAL,
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (store_id, country)
+    );
+
+    CREATE TABLE IF NOT EXISTS language_overrides (
+      store_id TEXT NOT NULL DEFAULT 'default',
+      locale TEXT NOT NULL,
+      title_meta_key TEXT,
+      description_meta_key TEXT,
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (store_id, locale)
+    );
+
+    CREATE TABLE IF NOT EXISTS feed_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      action TEXT NOT NULL DEFAULT 'exclude',
+      type TEXT NOT NULL,
+      value TEXT NOT NULL DEFAULT '',
+      description TEXT,
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS custom_labels (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      slot INTEGER NOT NULL,
+      label TEXT NOT NULL,
+      expression TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      description TEXT,
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS feed_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      style TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      item_count INTEGER NOT NULL,
+      size INTEGER NOT NULL,
+      published INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS feed_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      label TEXT NOT NULL,
+      expires_at DATETIME,
+      revoked_at DATETIME,
+      last_used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS feed_downloads (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      token_id INTEGER,
+      file TEXT NOT NULL,
+      status INTEGER NOT NULL,
+      ip TEXT,
+      user_agent TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      style TEXT,
+      cron TEXT NOT NULL,
+      enabled INTEGER DEFAULT 1,
+      last_run_at DATETIME,
+      last_status TEXT,
+      next_run_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      store_id TEXT NOT NULL DEFAULT 'default',
+      job_id INTEGER NOT NULL,
+      triggered_by TEXT NOT NULL DEFAULT 'schedule',
+      status TEXT NOT NULL DEFAULT 'running',
+      started_at DATETIME NOT NULL,
+      finished_at DATETIME,
+      duration_ms INTEGER,
+      message TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_state (
+      key TEXT PRIMARY KEY,
+      value TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
     CREATE INDEX IF NOT EXISTS idx_webhook_events_processed ON webhook_events(processed);
     CREATE INDEX IF NOT EXISTS idx_webhook_events_wc_product_id ON webhook_events(wc_product_id);
+    CREATE INDEX IF NOT EXISTS idx_feed_rules_store_id ON feed_rules(store_id);
+    CREATE INDEX IF NOT EXISTS idx_custom_labels_store_id ON custom_labels(store_id);
+    CREATE INDEX IF NOT EXISTS idx_feed_versions_store_style ON feed_versions(store_id, style);
+    CREATE INDEX IF NOT EXISTS idx_feed_tokens_store_id ON feed_tokens(store_id);
+    CREATE INDEX IF NOT EXISTS idx_job_runs_job_id ON job_runs(job_id);
+    CREATE INDEX IF NOT EXISTS idx_feed_downloads_store_token ON feed_downloads(store_id, token_id);
+
+    -- Note: store-scoped indexes are created in migrations.ts, after older
+    -- databases have been rebuilt with store_id columns
+
+    -- Seed the original standard/christmas styles on a fresh registry
+    INSERT INTO feed_styles (name, imgen_style)
+      SELECT * FROM (VALUES ('standard', 'standard'), ('christmas', 'christmas'))
+      WHERE NOT EXISTS (SELECT 1 FROM feed_styles);
+
+    -- Seed English and Bosnian attribute names on a fresh mapping table
+    INSERT INTO attribute_mappings (match, meta_field, value_map)
+      SELECT * FROM (VALUES
+        ('color', 'color', '{}'),
+        ('boja', 'color', '{}'),
+        ('size', 'size', '{}'),
+        ('velicina', 'size', '{}'),
+        ('veličina', 'size', '{}'),
+        ('gender', 'gender', '{}'),
+        ('spol', 'gender', '{"Muško":"male","Muški":"male","Žensko":"female","Ženski":"female","Unisex":"unisex"}'),
+        ('age_group', 'age_group', '{}'),
+        ('uzrast', 'age_group', '{"Djeca":"kids","Dječije":"kids","Odrasli":"adult","Bebe":"infant"}'),
+        ('material', 'material', '{}'),
+        ('materijal', 'material', '{}')
+      )
+      WHERE NOT EXISTS (SELECT 1 FROM attribute_mappings);
   `);
+
+  // Seed the built-in imgen template on a fresh registry
+  db.run(
+    `INSERT INTO image_templates (name, base_url, params, ratios, currency_label, active)
+     SELECT ?, ?, ?, ?, ?, 1
+     WHERE NOT EXISTS (SELECT 1 FROM image_templates)`,
+    [
+      DEFAULT_IMAGE_TEMPLATE.name,
+      DEFAULT_IMAGE_TEMPLATE.base_url,
+      JSON.stringify(DEFAULT_IMAGE_TEMPLATE.params),
+      JSON.stringify(DEFAULT_IMAGE_TEMPLATE.ratios),
+      DEFAULT_IMAGE_TEMPLATE.currency_label,
+    ]
+  );
+
+  // Single-shop deployments configured through the environment become the default store
+  const { WC_API_URL, WC_CONSUMER_KEY, WC_CONSUMER_SECRET } = process.env;
+  if (WC_API_URL && WC_CONSUMER_KEY && WC_CONSUMER_SECRET) {
+    db.run(
+      `INSERT INTO stores (
+        id, name, wc_api_url, wc_consumer_key, wc_consumer_secret, wc_auth_mode,
+        wc_webhook_secret, meta_catalog_id, meta_access_token, currency, brand
+      )
+      SELECT 'default', 'Default', ?, ?, ?, ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (SELECT 1 FROM stores)`,
+      [
+        WC_API_URL.replace(/\/+$/, ""),
+        WC_CONSUMER_KEY,
+        WC_CONSUMER_SECRET,
+        process.env.WC_AUTH_MODE || "auto",
+        process.env.WC_WEBHOOK_SECRET || null,
+        process.env.META_CATALOG_ID || null,
+        process.env.META_ACCESS_TOKEN || null,
+        process.env.WC_CURRENCY || "BAM",
+        process.env.WC_BRAND || "Lunatik",
+      ]
+    );
+  }
+
   // Note: indexes for action_type, product_name, created_at are created in migrations.ts
   // after the columns are added to existing tables
 }
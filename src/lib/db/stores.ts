@@ -0,0 +1,195 @@
+import { getDb } from "./index";
+import { WEIGHT_UNITS } from "../product-identifiers";
+
+// A WooCommerce shop paired with the Meta catalog it feeds
+export interface Store {
+  id: string;
+  name: string;
+  wc_api_url: string;
+  wc_consumer_key: string;
+  wc_consumer_secret: string;
+  wc_auth_mode: string;
+  wc_webhook_secret: string | null;
+  meta_catalog_id: string | null;
+  meta_access_token: string | null;
+  currency: string;
+  brand: string;
+  // meta_data keys holding identifiers (e.g. "_wpm_gtin_code"), null when unused
+  gtin_meta_key: string | null;
+  mpn_meta_key: string | null;
+  brand_meta_key: string | null;
+  condition_meta_key: string | null;
+  weight_unit: string;
+  // 1 when feed files are only served with a valid signed token
+  feed_token_required: number;
+  // HMAC key for feed tokens, created with the first token
+  feed_signing_secret: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StoreInput = Partial<Omit<Store, "id" | "feed_signing_secret" | "created_at" | "updated_at">>;
+
+// Secrets replaced by flags, for API responses
+export type PublicStore = Omit<Store, "wc_consumer_key" | "wc_consumer_secret" | "wc_webhook_secret" | "meta_access_token" | "feed_signing_secret"> & {
+  has_wc_credentials: boolean;
+  has_webhook_secret: boolean;
+  has_meta_access_token: boolean;
+};
+
+// Rows written before multi-store support belong to this store
+export const DEFAULT_STORE_ID = "default";
+
+const STORE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export function isValidStoreId(id: string): boolean {
+  return STORE_ID_PATTERN.test(id);
+}
+
+function validateWeightUnit(unit: string | undefined): void {
+  if (unit !== undefined && !(WEIGHT_UNITS as readonly string[]).includes(unit)) {
+    throw new Error(`weight_unit must be one of ${WEIGHT_UNITS.join(", ")}`);
+  }
+}
+
+export function toPublicStore(store: Store): PublicStore {
+  const { wc_consumer_key, wc_consumer_secret, wc_webhook_secret, meta_access_token, feed_signing_secret, ...rest } = store;
+  return {
+    ...rest,
+    has_wc_credentials: !!(wc_consumer_key && wc_consumer_secret),
+    has_webhook_secret: !!wc_webhook_secret,
+    has_meta_access_token: !!meta_access_token,
+  };
+}
+
+export function getAllStores(): Store[] {
+  const db = getDb();
+  return db.query<Store, []>("SELECT * FROM stores ORDER BY id").all();
+}
+
+export function getActiveStores(): Store[] {
+  const db = getDb();
+  return db.query<Store, []>("SELECT * FROM stores WHERE active = 1 ORDER BY id").all();
+}
+
+export function getStoreById(id: string): Store | null {
+  const db = getDb();
+  return db.query<Store, [string]>("SELECT * FROM stores WHERE id = ?").get(id);
+}
+
+// Store used when a request or job doesn't name one
+export function getDefaultStore(): Store | null {
+  return getStoreById(DEFAULT_STORE_ID) ?? getActiveStores()[0] ?? null;
+}
+
+export function createStore(id: string, input: StoreInput): Store {
+  if (!isValidStoreId(id)) {
+    throw new Error("Store id must be lowercase letters, digits and dashes");
+  }
+  if (!input.name || !input.wc_api_url || !input.wc_consumer_key || !input.wc_consumer_secret) {
+    throw new Error("name, wc_api_url, wc_consumer_key and wc_consumer_secret are required");
+  }
+  validateWeightUnit(input.weight_unit);
+
+  const db = getDb();
+  db.run(
+    `INSERT INTO stores (
+      id, name, wc_api_url, wc_consumer_key, wc_consumer_secret, wc_auth_mode,
+      wc_webhook_secret, meta_catalog_id, meta_access_token, currency, brand,
+      gtin_meta_key, mpn_meta_key, brand_meta_key, condition_meta_key, weight_unit, feed_token_required, active
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      input.name,
+      input.wc_api_url.replace(/\/+$/, ""),
+      input.wc_consumer_key,
+      input.wc_consumer_secret,
+      input.wc_auth_mode || "auto",
+      input.wc_webhook_secret || null,
+      input.meta_catalog_id || null,
+      input.meta_access_token || null,
+      input.currency || "BAM",
+      input.brand || "Lunatik",
+      input.gtin_meta_key || null,
+      input.mpn_meta_key || null,
+      input.brand_meta_key || null,
+      input.condition_meta_key || null,
+      input.weight_unit || "kg",
+      input.feed_token_required ? 1 : 0,
+      input.active ?? 1,
+    ]
+  );
+  return getStoreById(id)!;
+}
+
+export function updateStore(id: string, input: StoreInput): Store | null {
+  const existing = getStoreById(id);
+  if (!existing) return null;
+  validateWeightUnit(input.weight_unit);
+
+  const db = getDb();
+  db.run(
+    `UPDATE stores SET
+      name = ?, wc_api_url = ?, wc_consumer_key = ?, wc_consumer_secret = ?, wc_auth_mode = ?,
+      wc_webhook_secret = ?, meta_catalog_id = ?, meta_access_token = ?, currency = ?, brand = ?,
+      gtin_meta_key = ?, mpn_meta_key = ?, brand_meta_key = ?, condition_meta_key = ?, weight_unit = ?,
+      feed_token_required = ?, active = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?`,
+    [
+      input.name ?? existing.name,
+      (input.wc_api_url ?? existing.wc_api_url).replace(/\/+$/, ""),
+      input.wc_consumer_key || existing.wc_consumer_key,
+      input.wc_consumer_secret || existing.wc_consumer_secret,
+      input.wc_auth_mode ?? existing.wc_auth_mode,
+      input.wc_webhook_secret !== undefined ? input.wc_webhook_secret || null : existing.wc_webhook_secret,
+      input.meta_catalog_id !== undefined ? input.meta_catalog_id || null : existing.meta_catalog_id,
+      input.meta_access_token !== undefined ? input.meta_access_token || null : existing.meta_access_token,
+      input.currency ?? existing.currency,
+      input.brand ?? existing.brand,
+      input.gtin_meta_key !== undefined ? input.gtin_meta_key || null : existing.gtin_meta_key,
+      input.mpn_meta_key !== undefined ? input.mpn_meta_key || null : existing.mpn_meta_key,
+      input.brand_meta_key !== undefined ? input.brand_meta_key || null : existing.brand_meta_key,
+      input.condition_meta_key !== undefined ? input.condition_meta_key || null : existing.condition_meta_key,
+      input.weight_unit ?? existing.weight_unit,
+      input.feed_token_required !== undefined ? (input.feed_token_required ? 1 : 0) : existing.feed_token_required,
+      input.active ?? existing.active,
+      id,
+    ]
+  );
+  return getStoreById(id);
+}
+
+// Removes the store and everything cached for it
+export function deleteStore(id: string): boolean {
+  const db = getDb();
+  const transaction = db.transaction(() => {
+    db.run("DELETE FROM meta_sync_status WHERE store_id = ?", [id]);
+    db.run("DELETE FROM products WHERE store_id = ?", [id]);
+    db.run("DELETE FROM categories WHERE store_id = ?", [id]);
+    db.run("DELETE FROM webhook_events WHERE store_id = ?", [id]);
+    db.run("DELETE FROM country_overrides WHERE store_id = ?", [id]);
+    db.run("DELETE FROM language_overrides WHERE store_id = ?", [id]);
+    db.run("DELETE FROM feed_rules WHERE store_id = ?", [id]);
+    db.run("DELETE FROM custom_labels WHERE store_id = ?", [id]);
+    db.run("DELETE FROM feed_versions WHERE store_id = ?", [id]);
+    db.run("DELETE FROM feed_tokens WHERE store_id = ?", [id]);
+    db.run("DELETE FROM feed_downloads WHERE store_id = ?", [id]);
+    db.run("DELETE FROM job_runs WHERE store_id = ?", [id]);
+    db.run("DELETE FROM scheduled_jobs WHERE store_id = ?", [id]);
+    db.run("DELETE FROM sync_state WHERE key LIKE ?", [`${id}:%`]);
+    return db.run("DELETE FROM stores WHERE id = ?", [id]).changes > 0;
+  });
+  return transaction();
+}
+
+// Signing key for the store's feed tokens, created on first use
+export function getFeedSigningSecret(id: string): string {
+  const existing = getStoreById(id)?.feed_signing_secret;
+  if (existing) return existing;
+
+  const secret = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString("base64url");
+  const db = getDb();
+  db.run("UPDATE stores SET feed_signing_secret = ? WHERE id = ? AND feed_signing_secret IS NULL", [secret, id]);
+  return getStoreById(id)?.feed_signing_secret ?? secret;
+}
@@ -0,0 +1,26 @@
+import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
+
+// Small key/value store for sync bookkeeping (checkpoints, high-water marks).
+// Keys are kept per store as "<store>:<key>".
+
+function scopedKey(key: string): string {
+  return `${getCurrentStoreId()}:${key}`;
+}
+
+export function getSyncState(key: string): string | null {
+  const db = getDb();
+  const row = db.query<{ value: string | null }, [string]>(
+    "SELECT value FROM sync_state WHERE key = ?"
+  ).get(scopedKey(key));
+  return row?.value ?? null;
+}
+
+export function setSyncState(key: string, value: string | null): void {
+  const db = getDb();
+  db.run(
+    `INSERT INTO sync_state (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`,
+    [scopedKey(key), value]
+  );
+}
@@ -1,7 +1,9 @@
 import { getDb } from "./index";
+import { getCurrentStoreId } from "../store-context";
 
 export interface SyncStatus {
   id: number;
+  store_id: string;
   product_id: number;
   meta_retailer_id: string;
   sync_status: "pending" | "synced" | "error";
@@ -17,15 +19,15 @@ export interface SyncStatus {
 export function upsertSyncStatus(
   productId: number,
   metaRetailerId: string,
-  data: Partial<Omit<SyncStatus, "id" | "product_id" | "meta_retailer_id" | "created_at" | "updated_at">>
+  data: Partial<Omit<SyncStatus, "id" | "store_id" | "product_id" | "meta_retailer_id" | "created_at" | "updated_at">>
 ): void {
   const db = getDb();
   const stmt = db.prepare(`
     INSERT INTO meta_sync_status (
-      product_id, meta_retailer_id, sync_status, meta_product_exists,
+      store_id, product_id, meta_retailer_id, sync_status, meta_product_exists,
       last_availability, last_inventory, last_synced_at, last_error, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    ON CONFLICT(meta_retailer_id) DO UPDATE SET
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(store_id, meta_retailer_id) DO UPDATE SET
       sync_status = COALESCE(excluded.sync_status, meta_sync_status.sync_status),
       meta_product_exists = COALESCE(excluded.meta_product_exists, meta_sync_status.meta_product_exists),
       last_availability = COALESCE(excluded.last_availability, meta_sync_status.last_availability),
@@ -36,6 +38,7 @@ export function upsertSyncStatus(
   `);
 
   stmt.run(
+    getCurrentStoreId(),
     productId,
     metaRetailerId,
     data.sync_status ?? "pending",
@@ -49,52 +52,52 @@ export function upsertSyncStatus(
 
 export function getSyncStatusByProductId(productId: number): SyncStatus | null {
   const db = getDb();
-  return db.query<SyncStatus, [number]>(
-    "SELECT * FROM meta_sync_status WHERE product_id = ?"
-  ).get(productId);
+  return db.query<SyncStatus, [string, number]>(
+    "SELECT * FROM meta_sync_status WHERE store_id = ? AND product_id = ?"
+  ).get(getCurrentStoreId(), productId);
 }
 
 export function getSyncStatusByRetailerId(metaRetailerId: string): SyncStatus | null {
   const db = getDb();
-  return db.query<SyncStatus, [string]>(
-    "SELECT * FROM meta_sync_status WHERE meta_retailer_id = ?"
-  ).get(metaRetailerId);
+  return db.query<SyncStatus, [string, string]>(
+    "SELECT * FROM meta_sync_status WHERE store_id = ? AND meta_retailer_id = ?"
+  ).get(getCurrentStoreId(), metaRetailerId);
 }
 
 export function getPendingSyncStatuses(): SyncStatus[] {
   const db = getDb();
-  return db.query<SyncStatus, []>(
-    "SELECT * FROM meta_sync_status WHERE sync_status = 'pending'"
-  ).all();
+  return db.query<SyncStatus, [string]>(
+    "SELECT * FROM meta_sync_status WHERE store_id = ? AND sync_status = 'pending'"
+  ).all(getCurrentStoreId());
 }
 
 export function getSyncedCount(): number {
   const db = getDb();
-  const result = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM meta_sync_status WHERE meta_product_exists = 1"
-  ).get();
+  const result = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM meta_sync_status WHERE store_id = ? AND meta_product_exists = 1"
+  ).get(getCurrentStoreId());
   return result?.count ?? 0;
 }
 
 export function getPendingCount(): number {
   const db = getDb();
-  const result = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM meta_sync_status WHERE sync_status = 'pending'"
-  ).get();
+  const result = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM meta_sync_status WHERE store_id = ? AND sync_status = 'pending'"
+  ).get(getCurrentStoreId());
   return result?.count ?? 0;
 }
 
 export function getErrorCount(): number {
   const db = getDb();
-  const result = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM meta_sync_status WHERE sync_status = 'error'"
-  ).get();
+  const result = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM meta_sync_status WHERE store_id = ? AND sync_status = 'error'"
+  ).get(getCurrentStoreId());
   return result?.count ?? 0;
 }
 
 export function deleteSyncStatus(productId: number): void {
   const db = getDb();
-  db.run("DELETE FROM meta_sync_status WHERE product_id = ?", [productId]);
+  db.run("DELETE FROM meta_sync_status WHERE store_id = ? AND product_id = ?", [getCurrentStoreId(), productId]);
 }
 
 export function markSynced(
@@ -112,8 +115,8 @@ export function markSynced(
       last_synced_at = CURRENT_TIMESTAMP,
       last_error = NULL,
       updated_at = CURRENT_TIMESTAMP
-    WHERE meta_retailer_id = ?`,
-    [availability, inventory, metaRetailerId]
+    WHERE store_id = ? AND meta_retailer_id = ?`,
+    [availability, inventory, getCurrentStoreId(), metaRetailerId]
   );
 }
 
@@ -124,7 +127,7 @@ export function markError(metaRetailerId: string, error: string): void {
       sync_status = 'error',
       last_error = ?,
       updated_at = CURRENT_TIMESTAMP
-    WHERE meta_retailer_id = ?`,
-    [error, metaRetailerId]
+    WHERE store_id = ? AND meta_retailer_id = ?`,
+    [error, getCurrentStoreId(), metaRetailerId]
   );
 }
@@ -0,0 +1,45 @@
+import { getImageColumns, type ImageTemplate } from "./image-templates";
+
+// Columns before the multi-ratio image columns
+const BASE_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "rich_text_description",
+  "availability",
+  "condition",
+  "price",
+  "link",
+  "image_link",
+  "brand",
+  "gtin",
+  "mpn",
+];
+
+// Columns after the multi-ratio image columns
+const TRAILING_COLUMNS = [
+  "additional_image_link",
+  "age_group",
+  "color",
+  "gender",
+  "material",
+  "item_group_id",
+  "google_product_category",
+  "product_type",
+  "sale_price",
+  "sale_price_effective_date",
+  "size",
+  "status",
+  "inventory",
+  "shipping_weight",
+  "custom_label_0",
+  "custom_label_1",
+  "custom_label_2",
+  "custom_label_3",
+  "custom_label_4",
+];
+
+// CSV column list shared by the slow and fast feed generators
+export function getFeedColumns(template: ImageTemplate): string[] {
+  return [...BASE_COLUMNS, ...getImageColumns(template), ...TRAILING_COLUMNS];
+}
@@ -0,0 +1,120 @@
+import { copyFileSync, createReadStream, createWriteStream, mkdirSync, renameSync, rmSync } from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { constants, createBrotliCompress, createGzip } from "zlib";
+import { getDataDir } from "./db/index";
+import { DEFAULT_STORE_ID } from "./db/stores";
+import type { OverrideFeedType } from "./overrides";
+
+// Published feeds live under public/. The default store keeps the original
+// top-level URLs so feed schedules already registered with Meta keep working;
+// other stores get their own directory.
+const PUBLIC_DIR = "public";
+
+function storeDir(storeId: string): string {
+  return storeId === DEFAULT_STORE_ID ? "" : `stores/${storeId}/`;
+}
+
+export function getFeedFilePath(storeId: string, fileName: string): string {
+  return path.join(PUBLIC_DIR, `${storeDir(storeId)}${fileName}`);
+}
+
+export function getFeedUrlPath(storeId: string, fileName: string): string {
+  return `/${storeDir(storeId)}${fileName}`;
+}
+
+export function getCatalogFileName(styleName: string): string {
+  return `product_catalog_${styleName}.csv`;
+}
+
+// Feeds for other channels (Google XML, TikTok, Pinterest): /feeds/{channel}_{style}.{ext}
+export function getFormatFeedFileName(channel: string, styleName: string, extension: "csv" | "xml"): string {
+  return `feeds/${channel}_${styleName}.${extension}`;
+}
+
+// Supplementary country/language override feeds
+export function getOverrideFileName(type: OverrideFeedType): string {
+  return `product_overrides_${type}.csv`;
+}
+
+// Stored copies of published Meta catalogs, outside public/
+export function getFeedVersionPath(storeId: string, versionId: number): string {
+  return path.join(getDataDir(), "feed-versions", storeId, `${versionId}.csv`);
+}
+
+export type FeedEncoding = "br" | "gzip";
+
+// Pre-compressed copies written next to every published feed ({file}.br, {file}.gz),
+// in the order they are preferred when the client accepts both
+export const COMPRESSED_VARIANTS: { encoding: FeedEncoding; extension: string; create: () => NodeJS.ReadWriteStream }[] = [
+  { encoding: "br", extension: "br", create: () => createBrotliCompress({ params: { [constants.BROTLI_PARAM_QUALITY]: 9 } }) },
+  { encoding: "gzip", extension: "gz", create: () => createGzip({ level: 9 }) },
+];
+
+// Write the compressed variants of sourcePath for the feed at filePath. Called
+// before the feed itself is renamed into place, so a variant is never older
+// than the file it belongs to.
+async function compressFeedFile(sourcePath: string, filePath: string): Promise<void> {
+  for (const { extension, create } of COMPRESSED_VARIANTS) {
+    const variantPath = `${filePath}.${extension}`;
+    const tempPath = `${variantPath}.${process.pid}-${Date.now()}.tmp`;
+    try {
+      await pipeline(createReadStream(sourcePath), create(), createWriteStream(tempPath));
+      renameSync(tempPath, variantPath);
+    } finally {
+      rmSync(tempPath, { force: true });
+    }
+  }
+}
+
+export interface FeedFileWriter {
+  write(chunk: string): void;
+  // Finish the file and move it over the published one; resolves to its SHA-256
+  commit(): Promise<string>;
+  // Drop the partial file, leaving the published one untouched
+  abort(): Promise<void>;
+}
+
+// Streams a feed into a temp file next to its final path and renames it into
+// place on commit, so readers never see a half-written feed
+export function openFeedFile(storeId: string, fileName: string): FeedFileWriter {
+  const filePath = getFeedFilePath(storeId, fileName);
+  const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const sink = Bun.file(tempPath).writer({ highWaterMark: 1024 * 1024 });
+  const hasher = new Bun.CryptoHasher("sha256");
+
+  return {
+    write(chunk) {
+      sink.write(chunk);
+      hasher.update(chunk);
+    },
+    async commit() {
+      await sink.end();
+      await compressFeedFile(tempPath, filePath);
+      renameSync(tempPath, filePath);
+      return hasher.digest("hex");
+    },
+    async abort() {
+      try {
+        await sink.end();
+      } finally {
+        rmSync(tempPath, { force: true });
+      }
+    },
+  };
+}
+
+// Copy a file over a published feed, with the same temp file and rename as openFeedFile
+export async function publishFeedFile(storeId: string, fileName: string, sourcePath: string): Promise<void> {
+  const filePath = getFeedFilePath(storeId, fileName);
+  const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  try {
+    copyFileSync(sourcePath, tempPath);
+    await compressFeedFile(tempPath, filePath);
+    renameSync(tempPath, filePath);
+  } finally {
+    rmSync(tempPath, { force: true });
+  }
+}
@@ -0,0 +1,42 @@
+import { stringify } from "csv-stringify/sync";
+import type { MetaProduct } from "../types";
+import type { FeedItem } from "./fields";
+
+// Declarative CSV formats: each column names its source and limits
+
+export interface FeedColumn {
+  name: string;
+  value(item: FeedItem): string | number | undefined;
+  // Items without a value are left out of the feed
+  required?: boolean;
+  // Longer values are truncated rather than rejected
+  maxLength?: number;
+}
+
+export interface ColumnFeedSpec {
+  columns: FeedColumn[];
+  // Checks beyond required columns (image rules, ...)
+  validate?(item: FeedItem): string[];
+}
+
+function cellValue(column: FeedColumn, item: FeedItem): string {
+  const value = column.value(item);
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return column.maxLength && text.length > column.maxLength ? text.slice(0, column.maxLength) : text;
+}
+
+export function validateColumns(spec: ColumnFeedSpec, item: MetaProduct): string[] {
+  const problems = spec.columns
+    .filter((column) => column.required && !cellValue(column, item))
+    .map((column) => `missing ${column.name}`);
+  return [...problems, ...(spec.validate?.(item) ?? [])];
+}
+
+export function columnsHeader(spec: ColumnFeedSpec): string {
+  return stringify([spec.columns.map((column) => column.name)], { quoted: true });
+}
+
+export function columnsRow(spec: ColumnFeedSpec, item: MetaProduct): string {
+  return stringify([spec.columns.map((column) => cellValue(column, item))], { quoted: true });
+}
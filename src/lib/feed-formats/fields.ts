@@ -0,0 +1,32 @@
+import type { MetaProduct } from "../types";
+
+// Field conversions shared by the non-Meta formats
+
+export type FeedItem = MetaProduct & Record<string, any>;
+
+// Google, TikTok and Pinterest only accept these; Meta also allows "all ages" and "teen"
+const AGE_GROUPS = ["newborn", "infant", "toddler", "kids", "adult"];
+
+// "10 BAM" -> "10.00 BAM"
+export function formatDecimalPrice(price: string | undefined): string | undefined {
+  const match = price?.trim().match(/^([\d.,]+)\s+([A-Z]{3})$/);
+  if (!match) return price || undefined;
+  const amount = parseFloat(match[1]!.replace(",", "."));
+  return Number.isFinite(amount) ? `${amount.toFixed(2)} ${match[2]}` : undefined;
+}
+
+export function toStandardAgeGroup(ageGroup: string | undefined): string | undefined {
+  return ageGroup && AGE_GROUPS.includes(ageGroup) ? ageGroup : undefined;
+}
+
+// Generated images first, then gallery photos; the first one is the main image
+export function collectImageUrls(item: FeedItem): string[] {
+  const urls: string[] = Array.isArray(item.images)
+    ? item.images.map((image: { url: string }) => image.url)
+    : [item.image_link, ...(item.additional_image_link?.split(",") ?? [])];
+  return [...new Set(urls.filter(Boolean))];
+}
+
+export function isHttpUrl(value: string | undefined): boolean {
+  return !!value && /^https?:\/\/\S+$/i.test(value);
+}
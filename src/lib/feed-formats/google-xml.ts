@@ -0,0 +1,103 @@
+import type { MetaProduct } from "../types";
+import type { FeedChannel } from "./index";
+import { collectImageUrls, formatDecimalPrice, isHttpUrl, toStandardAgeGroup, type FeedItem } from "./fields";
+
+/**
+ * Google Merchant Center product feed (RSS 2.0 with the g: namespace),
+ * built from the same MetaProduct items as the Meta CSV.
+ */
+
+const GOOGLE_NAMESPACE = "http://base.google.com/ns/1.0";
+
+// Google has no "preorder" without an availability_date; WooCommerce backorders map to "backorder"
+const AVAILABILITY: Record<MetaProduct["availability"], string> = {
+  "in stock": "in_stock",
+  "out of stock": "out_of_stock",
+  "preorder": "backorder",
+};
+
+const MAX_ADDITIONAL_IMAGES = 10;
+
+export function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0 at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Ordered g: attributes of one item; repeated names (additional_image_link) are allowed
+export function toGoogleAttributes(item: FeedItem): [string, string][] {
+  const [imageLink, ...additionalImages] = collectImageUrls(item);
+  const attributes: [string, string | undefined][] = [
+    ["id", item.id],
+    ["title", item.title],
+    ["description", item.description],
+    ["link", item.link],
+    ["image_link", imageLink],
+    ...additionalImages
+      .slice(0, MAX_ADDITIONAL_IMAGES)
+      .map((url): [string, string] => ["additional_image_link", url]),
+    ["availability", AVAILABILITY[item.availability]],
+    ["price", formatDecimalPrice(item.price)],
+    ["sale_price", formatDecimalPrice(item.sale_price)],
+    ["sale_price_effective_date", item.sale_price ? item.sale_price_effective_date : undefined],
+    ["condition", item.condition],
+    ["brand", item.brand],
+    ["gtin", item.gtin],
+    ["mpn", item.mpn],
+    // Without either identifier Google expects an explicit "no"
+    ["identifier_exists", item.gtin || item.mpn ? undefined : "no"],
+    ["item_group_id", item.item_group_id],
+    ["google_product_category", item.google_product_category],
+    ["product_type", item.product_type],
+    ["color", item.color],
+    ["size", item.size],
+    ["gender", item.gender],
+    ["age_group", toStandardAgeGroup(item.age_group)],
+    ["material", item.material],
+    ["shipping_weight", item.shipping_weight],
+    ["custom_label_0", item.custom_label_0],
+    ["custom_label_1", item.custom_label_1],
+    ["custom_label_2", item.custom_label_2],
+    ["custom_label_3", item.custom_label_3],
+    ["custom_label_4", item.custom_label_4],
+  ];
+  return attributes.filter((entry): entry is [string, string] => !!entry[1]);
+}
+
+// Items Google would reject outright
+export function validateGoogleItem(item: FeedItem): string[] {
+  const problems: string[] = [];
+  for (const field of ["id", "title", "link", "price"] as const) {
+    if (!item[field]) problems.push(`missing ${field}`);
+  }
+  if (!isHttpUrl(collectImageUrls(item)[0])) problems.push("missing image_link");
+  return problems;
+}
+
+export function googleXmlHeader(channel: FeedChannel): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rss version="2.0" xmlns:g="${GOOGLE_NAMESPACE}">`,
+    "<channel>",
+    `<title>${escapeXml(channel.title)}</title>`,
+    `<link>${escapeXml(channel.link)}</link>`,
+    `<description>${escapeXml(channel.description)}</description>`,
+    "",
+  ].join("\n");
+}
+
+export function googleXmlItem(item: MetaProduct): string {
+  const lines = ["<item>"];
+  for (const [name, value] of toGoogleAttributes(item)) {
+    lines.push(`<g:${name}>${escapeXml(String(value))}</g:${name}>`);
+  }
+  lines.push("</item>", "");
+  return lines.join("\n");
+}
+
+export const GOOGLE_XML_FOOTER = "</channel>\n</rss>\n";
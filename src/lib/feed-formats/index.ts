@@ -0,0 +1,136 @@
+import type { MetaProduct } from "../types";
+import type { MappingContext } from "../mapping-context";
+import { findCurrentStore } from "../store-context";
+import { getCatalogFileName, getFormatFeedFileName } from "../feed-files";
+import { metaCsvHeader, metaCsvRow } from "./meta-csv";
+import { GOOGLE_XML_FOOTER, googleXmlHeader, googleXmlItem, validateGoogleItem } from "./google-xml";
+import { columnsHeader, columnsRow, validateColumns, type ColumnFeedSpec } from "./columns";
+import { TIKTOK_FEED } from "./tiktok";
+import { PINTEREST_FEED } from "./pinterest";
+
+/**
+ * Output formats for a style's feed items. Every format is written from the
+ * same stream of mapped MetaProducts, one row at a time, so generating them
+ * together costs one mapping pass and no format holds the whole catalog.
+ * Formats may reject items they can't publish (missing required fields,
+ * unusable images); those are left out of that format only.
+ */
+
+// Feed-level metadata for formats that carry it (RSS channel)
+export interface FeedChannel {
+  title: string;
+  link: string;
+  description: string;
+}
+
+export interface FeedFormat {
+  label: string;
+  // Path below the store's public directory
+  fileName(styleName: string): string;
+  // Reasons the item can't go into this format, empty when it can
+  validate?(item: MetaProduct): string[];
+  // Text before the first item, one item, text after the last item
+  header(context: MappingContext, channel: FeedChannel): string;
+  row(item: MetaProduct, context: MappingContext): string;
+  footer?(): string;
+}
+
+export interface FeedStats {
+  items: number;
+  skipped: number;
+}
+
+function columnFormat(label: string, name: string, spec: ColumnFeedSpec): FeedFormat {
+  return {
+    label,
+    fileName: (styleName) => getFormatFeedFileName(name, styleName, "csv"),
+    validate: (item) => validateColumns(spec, item),
+    header: () => columnsHeader(spec),
+    row: (item) => columnsRow(spec, item),
+  };
+}
+
+export const FEED_FORMATS = {
+  meta_csv: {
+    label: "Meta CSV",
+    fileName: getCatalogFileName,
+    header: (context) => metaCsvHeader(context.template),
+    row: (item, context) => metaCsvRow(item, context.template),
+  },
+  google_xml: {
+    label: "Google XML",
+    fileName: (styleName) => getFormatFeedFileName("google", styleName, "xml"),
+    validate: validateGoogleItem,
+    header: (_context, channel) => googleXmlHeader(channel),
+    row: (item) => googleXmlItem(item),
+    footer: () => GOOGLE_XML_FOOTER,
+  },
+  tiktok_csv: columnFormat("TikTok CSV", "tiktok", TIKTOK_FEED),
+  pinterest_csv: columnFormat("Pinterest CSV", "pinterest", PINTEREST_FEED),
+} satisfies Record<string, FeedFormat>;
+
+export type FeedFormatName = keyof typeof FEED_FORMATS;
+
+export const FEED_FORMAT_NAMES = Object.keys(FEED_FORMATS) as FeedFormatName[];
+
+export function isFeedFormatName(value: string): value is FeedFormatName {
+  return value in FEED_FORMATS;
+}
+
+// Channel of the current store: its name and shop URL (the WooCommerce API origin)
+export function getFeedChannel(context: MappingContext): FeedChannel {
+  const store = findCurrentStore();
+  let link = "";
+  try {
+    link = store ? new URL(store.wc_api_url).origin : "";
+  } catch {
+    // Leave the link empty rather than failing the whole feed
+  }
+  return {
+    title: `${store?.name ?? context.brand} (${context.style.name})`,
+    link,
+    description: `${context.brand} product catalog`,
+  };
+}
+
+// Incremental renderer for one format: header() once, row() per item (empty
+// string when the format rejects it), footer() at the end, then stats()
+export interface FeedRenderer {
+  header(): string;
+  row(item: MetaProduct): string;
+  footer(): string;
+  stats(): FeedStats;
+}
+
+export function createFeedRenderer(
+  name: FeedFormatName,
+  context: MappingContext,
+  channel: FeedChannel = getFeedChannel(context)
+): FeedRenderer {
+  const format: FeedFormat = FEED_FORMATS[name];
+  const rejected: string[] = [];
+  let items = 0;
+  let skipped = 0;
+
+  return {
+    header: () => format.header(context, channel),
+    row(item) {
+      const problems = format.validate?.(item) ?? [];
+      if (problems.length > 0) {
+        // Only a few examples are kept for the log
+        if (rejected.length < 5) rejected.push(`${item.id}: ${problems.join(", ")}`);
+        skipped++;
+        return "";
+      }
+      items++;
+      return format.row(item, context);
+    },
+    footer() {
+      if (skipped > 0) {
+        console.warn(`${format.label} (${context.style.name}) skipped ${skipped} items, e.g. ${rejected.join("; ")}`);
+      }
+      return format.footer?.() ?? "";
+    },
+    stats: () => ({ items, skipped }),
+  };
+}
@@ -0,0 +1,18 @@
+import { stringify } from "csv-stringify/sync";
+import type { MetaProduct } from "../types";
+import type { ImageTemplate } from "../image-templates";
+import { getFeedColumns } from "../feed-columns";
+
+// Meta catalog CSV: base columns, multi-ratio image columns from the template, trailing columns
+
+export function metaCsvHeader(template: ImageTemplate): string {
+  return stringify([getFeedColumns(template)], { quoted: true });
+}
+
+export function metaCsvRow(item: MetaProduct, template: ImageTemplate): string {
+  return stringify([item], {
+    columns: getFeedColumns(template),
+    quoted: true, // Force quotes for safety
+  });
+}
+
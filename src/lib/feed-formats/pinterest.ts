@@ -0,0 +1,54 @@
+import type { ColumnFeedSpec } from "./columns";
+import { collectImageUrls, formatDecimalPrice, toStandardAgeGroup } from "./fields";
+
+// Pinterest catalog data source. Pinterest has no sale window column, so a
+// scheduled sale is only published once it is live.
+
+const MAX_ADDITIONAL_IMAGES = 10;
+
+export const PINTEREST_FEED: ColumnFeedSpec = {
+  columns: [
+    { name: "id", value: (item) => item.id, required: true, maxLength: 127 },
+    { name: "title", value: (item) => item.title, required: true, maxLength: 500 },
+    { name: "description", value: (item) => item.description, required: true, maxLength: 10000 },
+    { name: "link", value: (item) => item.link, required: true },
+    { name: "image_link", value: (item) => collectImageUrls(item)[0], required: true },
+    { name: "price", value: (item) => formatDecimalPrice(item.price), required: true },
+    { name: "availability", value: (item) => item.availability, required: true },
+    { name: "condition", value: (item) => item.condition },
+    {
+      name: "additional_image_link",
+      value: (item) => collectImageUrls(item).slice(1, MAX_ADDITIONAL_IMAGES + 1).join(","),
+    },
+    { name: "brand", value: (item) => item.brand },
+    { name: "sale_price", value: (item) => (isSaleLive(item.sale_price_effective_date) ? formatDecimalPrice(item.sale_price) : undefined) },
+    { name: "item_group_id", value: (item) => item.item_group_id },
+    { name: "google_product_category", value: (item) => item.google_product_category },
+    { name: "product_type", value: (item) => item.product_type, maxLength: 750 },
+    { name: "gtin", value: (item) => item.gtin },
+    { name: "mpn", value: (item) => item.mpn },
+    { name: "color", value: (item) => item.color },
+    { name: "size", value: (item) => item.size },
+    { name: "gender", value: (item) => item.gender },
+    { name: "age_group", value: (item) => toStandardAgeGroup(item.age_group) },
+    { name: "material", value: (item) => item.material },
+    { name: "shipping_weight", value: (item) => item.shipping_weight },
+    { name: "custom_label_0", value: (item) => item.custom_label_0 },
+    { name: "custom_label_1", value: (item) => item.custom_label_1 },
+    { name: "custom_label_2", value: (item) => item.custom_label_2 },
+    { name: "custom_label_3", value: (item) => item.custom_label_3 },
+    { name: "custom_label_4", value: (item) => item.custom_label_4 },
+  ],
+  validate: (item) => {
+    // Pinterest only fetches images over HTTPS
+    const [image] = collectImageUrls(item);
+    return image && !image.startsWith("https://") ? ["image_link must use https"] : [];
+  },
+};
+
+// Sale windows are "start/end" ISO-8601 intervals; no window means the sale is live
+function isSaleLive(window: string | undefined, now = Date.now()): boolean {
+  if (!window) return true;
+  const [start, end] = window.split("/").map((part) => Date.parse(part));
+  return !(start! > now) && !(end! <= now);
+}
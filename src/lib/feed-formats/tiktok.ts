@@ -0,0 +1,48 @@
+import type { ColumnFeedSpec } from "./columns";
+import { collectImageUrls, formatDecimalPrice, isHttpUrl, toStandardAgeGroup } from "./fields";
+
+// TikTok catalog template (Shop Ads). Brand is required; items are keyed by sku_id.
+
+const MAX_ADDITIONAL_IMAGES = 10;
+
+export const TIKTOK_FEED: ColumnFeedSpec = {
+  columns: [
+    { name: "sku_id", value: (item) => item.id, required: true },
+    { name: "title", value: (item) => item.title, required: true, maxLength: 150 },
+    { name: "description", value: (item) => item.description, required: true, maxLength: 10000 },
+    { name: "availability", value: (item) => item.availability, required: true },
+    { name: "condition", value: (item) => item.condition, required: true },
+    { name: "price", value: (item) => formatDecimalPrice(item.price), required: true },
+    { name: "link", value: (item) => item.link, required: true },
+    { name: "image_link", value: (item) => collectImageUrls(item)[0], required: true },
+    { name: "brand", value: (item) => item.brand, required: true },
+    {
+      name: "additional_image_link",
+      value: (item) => collectImageUrls(item).slice(1, MAX_ADDITIONAL_IMAGES + 1).join(","),
+    },
+    { name: "item_group_id", value: (item) => item.item_group_id },
+    { name: "sale_price", value: (item) => formatDecimalPrice(item.sale_price) },
+    { name: "sale_price_effective_date", value: (item) => (item.sale_price ? item.sale_price_effective_date : undefined) },
+    { name: "google_product_category", value: (item) => item.google_product_category },
+    { name: "product_type", value: (item) => item.product_type },
+    { name: "gtin", value: (item) => item.gtin },
+    { name: "mpn", value: (item) => item.mpn },
+    { name: "color", value: (item) => item.color },
+    { name: "size", value: (item) => item.size },
+    { name: "gender", value: (item) => item.gender },
+    { name: "age_group", value: (item) => toStandardAgeGroup(item.age_group) },
+    { name: "material", value: (item) => item.material },
+    { name: "shipping_weight", value: (item) => item.shipping_weight },
+    { name: "custom_label_0", value: (item) => item.custom_label_0 },
+    { name: "custom_label_1", value: (item) => item.custom_label_1 },
+    { name: "custom_label_2", value: (item) => item.custom_label_2 },
+    { name: "custom_label_3", value: (item) => item.custom_label_3 },
+    { name: "custom_label_4", value: (item) => item.custom_label_4 },
+  ],
+  validate: (item) => {
+    const problems: string[] = [];
+    const [image] = collectImageUrls(item);
+    if (image && !isHttpUrl(image)) problems.push("image_link is not an http(s) URL");
+    return problems;
+  },
+};
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { etagMatches, parseAcceptEncoding, selectEncoding, serveFeedFile } from "./feed-http";
+
+describe("content negotiation", () => {
+  test("parseAcceptEncoding orders by quality, then header order", () => {
+    expect(parseAcceptEncoding("gzip, deflate, br")).toEqual(["gzip", "deflate", "br"]);
+    expect(parseAcceptEncoding("gzip;q=0.8, BR, identity;q=0.1")).toEqual(["br", "gzip", "identity"]);
+    expect(parseAcceptEncoding("br;q=0, gzip")).toEqual(["gzip"]);
+    expect(parseAcceptEncoding(null)).toEqual([]);
+  });
+
+  test("selectEncoding picks the best accepted variant that exists", () => {
+    expect(selectEncoding("gzip, br", ["br", "gzip"])).toBe("gzip");
+    expect(selectEncoding("gzip;q=0.5, br", ["br", "gzip"])).toBe("br");
+    expect(selectEncoding("br", ["gzip"])).toBeNull();
+    expect(selectEncoding("*", ["br", "gzip"])).toBe("br");
+    expect(selectEncoding(null, ["br", "gzip"])).toBeNull();
+  });
+
+  test("etagMatches handles lists, weak tags and *", () => {
+    expect(etagMatches('"abc"', ['"abc"'])).toBe(true);
+    expect(etagMatches('"xyz", W/"abc"', ['"abc"'])).toBe(true);
+    expect(etagMatches('"abc-gzip"', ['"abc"'])).toBe(false);
+    expect(etagMatches("*", ['"abc"'])).toBe(true);
+    expect(etagMatches(null, ['"abc"'])).toBe(false);
+  });
+});
+
+describe("serveFeedFile", () => {
+  const dir = mkdtempSync(join(tmpdir(), "feed-http-"));
+  const filePath = join(dir, "product_catalog_standard.csv");
+  writeFileSync(filePath, "id,title\n1,Shirt\n");
+  writeFileSync(`${filePath}.gz`, Bun.gzipSync("id,title\n1,Shirt\n"));
+
+  const get = (headers: Record<string, string> = {}) =>
+    serveFeedFile(new Request("http://localhost/product_catalog_standard.csv", { headers }), filePath);
+
+  test("missing files are left to the caller", async () => {
+    expect(await serveFeedFile(new Request("http://localhost/x.csv"), join(dir, "missing.csv"))).toBeNull();
+  });
+
+  test("serves the file with validators", async () => {
+    const response = (await get())!;
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(response.headers.get("Last-Modified")).toBeTruthy();
+    expect(response.headers.get("Content-Encoding")).toBeNull();
+    expect(await response.text()).toBe("id,title\n1,Shirt\n");
+  });
+
+  test("304 when If-None-Match has the current tag", async () => {
+    const etag = (await get())!.headers.get("ETag")!;
+    const response = (await get({ "If-None-Match": etag }))!;
+    expect(response.status).toBe(304);
+    expect(response.headers.get("ETag")).toBe(etag);
+    expect(await response.text()).toBe("");
+
+    expect((await get({ "If-None-Match": '"0123"' }))!.status).toBe(200);
+  });
+
+  test("compressed variants get their own tag, and any variant's tag is a match", async () => {
+    const identity = (await get())!.headers.get("ETag")!;
+    const gzip = (await get({ "Accept-Encoding": "gzip, br" }))!;
+    expect(gzip.status).toBe(200);
+    expect(gzip.headers.get("Content-Encoding")).toBe("gzip");
+    expect(gzip.headers.get("ETag")).toBe(identity.replace(/"$/, '-gzip"'));
+
+    expect((await get({ "Accept-Encoding": "gzip", "If-None-Match": identity }))!.status).toBe(304);
+    expect((await get({ "If-None-Match": gzip.headers.get("ETag")! }))!.status).toBe(304);
+  });
+
+  test("If-Modified-Since counts only without If-None-Match", async () => {
+    const lastModified = (await get())!.headers.get("Last-Modified")!;
+    expect((await get({ "If-Modified-Since": lastModified }))!.status).toBe(304);
+    expect((await get({ "If-Modified-Since": lastModified, "If-None-Match": '"0123"' }))!.status).toBe(200);
+    expect((await get({ "If-Modified-Since": new Date(0).toUTCString() }))!.status).toBe(200);
+  });
+
+  test("a changed file no longer matches, and stale variants are not served", async () => {
+    const etag = (await get())!.headers.get("ETag")!;
+    writeFileSync(filePath, "id,title\n1,Shirt\n2,Hat\n");
+    // The .gz now belongs to the previous version
+    const later = new Date(Date.now() + 60_000);
+    utimesSync(filePath, later, later);
+
+    const response = (await get({ "Accept-Encoding": "gzip", "If-None-Match": etag }))!;
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Encoding")).toBeNull();
+    expect(response.headers.get("ETag")).not.toBe(etag);
+    expect(await response.text()).toBe("id,title\n1,Shirt\n2,Hat\n");
+  });
+});
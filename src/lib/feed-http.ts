@@ -0,0 +1,124 @@
+import { createReadStream, statSync, type Stats } from "fs";
+import path from "path";
+import { COMPRESSED_VARIANTS, type FeedEncoding } from "./feed-files";
+
+/**
+ * Serving published feed files with conditional GET: strong ETags from the
+ * content hash, Last-Modified from the file time, 304 for unchanged files,
+ * and the gzip/brotli variants written at publish time when the client
+ * accepts them. Meta's scheduled fetcher then skips unchanged catalogs and
+ * downloads changed ones compressed.
+ */
+
+interface HashEntry {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+// Content hash per file path, recomputed when the file's time or size changes
+const hashCache = new Map<string, HashEntry>();
+
+async function getContentHash(filePath: string, stats: Stats): Promise<string> {
+  const cached = hashCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.hash;
+  }
+
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hasher.update(chunk);
+  }
+  const hash = hasher.digest("hex").slice(0, 32);
+  hashCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, hash });
+  return hash;
+}
+
+// Encodings the client accepts, best first ("br, gzip;q=0.8" -> ["br", "gzip"])
+export function parseAcceptEncoding(header: string | null): string[] {
+  if (!header) return [];
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [name, ...params] = part.trim().toLowerCase().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return { name: name!.trim(), q: q ? parseFloat(q.slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.name && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((entry) => entry.name);
+}
+
+export function selectEncoding(header: string | null, available: FeedEncoding[]): FeedEncoding | null {
+  for (const name of parseAcceptEncoding(header)) {
+    if (name === "*") return available[0] ?? null;
+    const match = available.find((encoding) => encoding === name);
+    if (match) return match;
+  }
+  return null;
+}
+
+// If-None-Match against the tags of the current content; weak tags compare by value
+export function etagMatches(ifNoneMatch: string | null, etags: string[]): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => etags.includes(tag));
+}
+
+// Representation tag: identity keeps the bare hash, compressed variants get a suffix
+function etagFor(hash: string, encoding: FeedEncoding | null): string {
+  return encoding ? `"${hash}-${encoding}"` : `"${hash}"`;
+}
+
+export async function serveFeedFile(req: Request, filePath: string): Promise<Response | null> {
+  let stats: Stats;
+  try {
+    stats = statSync(filePath);
+  } catch {
+    return null;
+  }
+
+  const hash = await getContentHash(filePath, stats);
+  const lastModified = new Date(Math.floor(stats.mtimeMs / 1000) * 1000);
+
+  // Variants older than the file belong to an earlier version
+  const available = COMPRESSED_VARIANTS.filter(({ encoding, extension }) => {
+    try {
+      return statSync(`${filePath}.${extension}`).mtimeMs >= stats.mtimeMs;
+    } catch {
+      return false;
+    }
+  });
+  const encoding = selectEncoding(req.headers.get("accept-encoding"), available.map((v) => v.encoding));
+
+  const headers: Record<string, string> = {
+    "ETag": etagFor(hash, encoding),
+    "Last-Modified": lastModified.toUTCString(),
+    "Cache-Control": "no-cache",
+    "Vary": "Accept-Encoding",
+  };
+
+  // If-Modified-Since only counts without If-None-Match
+  const ifNoneMatch = req.headers.get("if-none-match");
+  const ifModifiedSince = req.headers.get("if-modified-since");
+  const notModified = ifNoneMatch
+    ? etagMatches(ifNoneMatch, [null, ...COMPRESSED_VARIANTS.map((v) => v.encoding)].map((e) => etagFor(hash, e)))
+    : !!ifModifiedSince && lastModified.getTime() <= Date.parse(ifModifiedSince);
+  if (notModified) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const file = Bun.file(filePath);
+  headers["Content-Type"] = file.type;
+  // Name the feed itself, not the .br/.gz file behind it
+  headers["Content-Disposition"] = `inline; filename="${path.basename(filePath)}"`;
+  if (encoding) {
+    const variant = COMPRESSED_VARIANTS.find((v) => v.encoding === encoding)!;
+    headers["Content-Encoding"] = encoding;
+    return new Response(Bun.file(`${filePath}.${variant.extension}`), { headers });
+  }
+  return new Response(file, { headers });
+}
@@ -0,0 +1,51 @@
+import { expect, mock, test } from "bun:test";
+import type { MappingContext } from "./mapping-context";
+import type { CachedFeedEntry, FeedUnit, MappedFeedUnits } from "./feed-pipeline";
+
+// Batch 1 maps slowly, batch 2 fails at once, later batches succeed
+let batches = 0;
+mock.module("./feed-worker-pool", () => ({
+  FEED_WORKERS: 2,
+  runInFeedWorker(units: FeedUnit[]): Promise<MappedFeedUnits> {
+    batches++;
+    if (batches === 2) {
+      return Promise.reject(new Error("worker crashed"));
+    }
+    const entries = units.map(({ row }) => ({ item: { id: `wc_${row.id}` }, product: { id: row.id } }) as unknown as CachedFeedEntry);
+    return new Promise((resolve) => setTimeout(() => resolve({ entries, excluded: 0 }), 20));
+  },
+}));
+
+const { getDb } = await import("./db/index");
+const { initVariationsTable } = await import("./db/products");
+const { iterateCachedFeedEntries } = await import("./feed-pipeline");
+const { getCurrentStoreId } = await import("./store-context");
+
+// More simple products than fit in one batch (200), in whichever store the
+// pipeline falls back to (other test files may have created stores)
+const db = getDb();
+const storeId = getCurrentStoreId();
+initVariationsTable();
+for (let id = 1; id <= 450; id++) {
+  db.run(
+    "INSERT INTO products (store_id, id, type, meta_retailer_id, name, stock_status) VALUES (?, ?, 'simple', ?, ?, 'instock')",
+    [storeId, id, `wc_${id}`, `Product ${id}`]
+  );
+}
+
+test("a batch failing behind the one being consumed surfaces in order, not as an unhandled rejection", async () => {
+  const entries = iterateCachedFeedEntries({} as MappingContext);
+
+  // Batch 2 has already failed while the consumer holds the first yield
+  const first = await entries.next();
+  expect(first.value?.item.id).toBe("wc_1");
+  await Bun.sleep(50);
+
+  let consumed = 1;
+  const drain = async () => {
+    for await (const _ of entries) consumed++;
+  };
+  await expect(drain()).rejects.toThrow("worker crashed");
+  // Every entry of batch 1 came out before the failure
+  expect(consumed).toBe(200);
+});
@@ -0,0 +1,199 @@
+import { getDb } from "./db/index";
+import { rowToWCProduct, type CachedProductRow } from "./db/products";
+import { mapToMetaProduct } from "./woocommerce";
+import type { MetaProduct, WCProduct } from "./types";
+import type { MappingContext } from "./mapping-context";
+import { getCurrentStoreId } from "./store-context";
+import { isIncludedInFeed } from "./feed-rules";
+import { FEED_WORKERS, runInFeedWorker } from "./feed-worker-pool";
+
+/**
+ * The one way feed items are produced: cached products are read from SQLite
+ * in a fixed order, cut into batches, mapped (on the worker pool when it is
+ * enabled) and handed back in the same order. Whether the cache is refreshed
+ * first is up to the caller; the mapping is the same either way, so feeds are
+ * byte-identical across modes and worker counts.
+ */
+
+// A cached product ready for the feed, with the source data its overrides are built from
+export interface CachedFeedEntry {
+  item: MetaProduct;
+  product: WCProduct;
+  parent?: WCProduct;
+}
+
+// One cached product as read for mapping: a simple product, or a variable
+// product with its cached variations (plain rows, so they can go to a worker)
+export interface FeedUnit {
+  row: CachedProductRow;
+  variations?: CachedProductRow[];
+}
+
+export interface MappedFeedUnits {
+  entries: CachedFeedEntry[];
+  // Products/variations the feed rules left out
+  excluded: number;
+}
+
+// Units per batch sent to a worker, and batches mapped ahead of the reader
+const BATCH_SIZE = 200;
+const BATCHES_IN_FLIGHT = Math.max(1, FEED_WORKERS) * 2;
+
+// Map a batch of units; runs on the main thread or in a pool worker
+export function mapFeedUnits(units: FeedUnit[], context: MappingContext): MappedFeedUnits {
+  const entries: CachedFeedEntry[] = [];
+  let excluded = 0;
+
+  for (const { row, variations: cachedVariations } of units) {
+    const product = rowToWCProduct(row);
+    if (!isIncludedInFeed(product, undefined, context)) {
+      excluded++;
+      continue;
+    }
+
+    if (!cachedVariations) {
+      entries.push({ item: mapToMetaProduct(product, undefined, context), product });
+      continue;
+    }
+
+    // Variations minus those the feed rules exclude
+    const variations = cachedVariations.filter((varRow) => isIncludedInFeed(rowToWCProduct(varRow), product, context));
+    excluded += cachedVariations.length - variations.length;
+
+    // Every variation excluded - leave the parent out too
+    if (cachedVariations.length > 0 && variations.length === 0) continue;
+
+    let totalInventory = 0;
+    let hasInStock = false;
+
+    for (const varRow of variations) {
+      if (varRow.stock_quantity) {
+        totalInventory += varRow.stock_quantity;
+      }
+      if (varRow.stock_status === "instock") {
+        hasInStock = true;
+      }
+    }
+
+    // Add main product if has in-stock variations
+    if (hasInStock || product.stock_status === "instock") {
+      const item = mapToMetaProduct(product, undefined, context);
+      item.inventory = totalInventory > 0 ? totalInventory : undefined;
+      item.availability = "in stock";
+      entries.push({ item, product });
+    }
+
+    // Add in-stock variations
+    for (const varRow of variations) {
+      if (varRow.stock_status === "instock") {
+        const variation = rowToWCProduct(varRow);
+        variation.parent_id = row.id;
+        entries.push({ item: mapToMetaProduct(variation, product, context), product: variation, parent: product });
+      }
+    }
+  }
+
+  return { entries, excluded };
+}
+
+// In-stock simple products, then in-stock variable products with their variations
+function* readFeedUnits(storeId: string): Generator<FeedUnit> {
+  const db = getDb();
+  // Prepared (not the cached db.query) statements: another request running the
+  // same SQL while this generator is suspended must not reset our cursor
+  const simpleQuery = db.prepare<CachedProductRow, [string]>(`
+    SELECT * FROM products
+    WHERE store_id = ? AND type != 'variable' AND stock_status = 'instock'
+  `);
+  const variableQuery = db.prepare<CachedProductRow, [string]>(`
+    SELECT * FROM products WHERE store_id = ? AND type = 'variable' AND stock_status = 'instock'
+  `);
+  const variationsQuery = db.prepare<CachedProductRow, [string, number]>(`
+    SELECT * FROM product_variations WHERE store_id = ? AND parent_id = ?
+  `);
+
+  try {
+    for (const row of simpleQuery.iterate(storeId)) {
+      yield { row };
+    }
+    for (const row of variableQuery.iterate(storeId)) {
+      yield { row, variations: variationsQuery.all(storeId, row.id) };
+    }
+  } finally {
+    simpleQuery.finalize();
+    variableQuery.finalize();
+    variationsQuery.finalize();
+  }
+}
+
+function mapBatch(units: FeedUnit[], context: MappingContext): Promise<MappedFeedUnits> {
+  if (FEED_WORKERS === 0) {
+    return Promise.resolve().then(() => mapFeedUnits(units, context));
+  }
+  return runInFeedWorker(units, context);
+}
+
+async function* mapCachedFeedEntries(context: MappingContext, storeId: string): AsyncGenerator<CachedFeedEntry> {
+  const units = readFeedUnits(storeId);
+  const pending: Promise<MappedFeedUnits>[] = [];
+  let readAll = false;
+
+  // Keep up to BATCHES_IN_FLIGHT batches mapping while earlier ones are consumed
+  const fill = () => {
+    while (!readAll && pending.length < BATCHES_IN_FLIGHT) {
+      const batch: FeedUnit[] = [];
+      while (batch.length < BATCH_SIZE) {
+        const next = units.next();
+        if (next.done) {
+          readAll = true;
+          break;
+        }
+        batch.push(next.value);
+      }
+      if (batch.length === 0) continue;
+      const mapped = mapBatch(batch, context);
+      // A later batch may fail while an earlier one is awaited or the consumer
+      // holds a yield; it is rethrown when its turn comes
+      mapped.catch(() => {});
+      pending.push(mapped);
+    }
+  };
+
+  let entries = 0;
+  let excluded = 0;
+  try {
+    fill();
+    while (pending.length > 0) {
+      const mapped = await pending.shift()!;
+      fill();
+      entries += mapped.entries.length;
+      excluded += mapped.excluded;
+      yield* mapped.entries;
+    }
+
+    console.log(`Mapped ${entries} products/variations from cache`);
+    if (excluded > 0) {
+      console.log(`Feed rules excluded ${excluded} products/variations`);
+    }
+  } finally {
+    units.return(undefined);
+  }
+}
+
+// In-stock products and variations from the cache, mapped with the given context
+// in cache order. Throws right away (not on the first read) when the cache is empty.
+export function iterateCachedFeedEntries(context: MappingContext): AsyncGenerator<CachedFeedEntry> {
+  const db = getDb();
+  const storeId = getCurrentStoreId();
+
+  // Check if we have cached products
+  const productCount = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM products WHERE store_id = ?"
+  ).get(storeId)?.count || 0;
+
+  if (productCount === 0) {
+    throw new Error("No products in cache. Run initial sync or refresh the cache first.");
+  }
+
+  return mapCachedFeedEntries(context, storeId);
+}
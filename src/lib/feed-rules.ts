@@ -0,0 +1,134 @@
+import type { WCProduct } from "./types";
+import { getCategoryPath, type CategoryTree } from "./taxonomy";
+import type { MappingContext } from "./mapping-context";
+
+/**
+ * Rules deciding which in-stock products go into feeds and the Meta catalog.
+ *
+ * Exclude rules drop every product they match. When any include rule is
+ * active, a product must also match at least one of them. Variations are
+ * judged together with their parent: categories, tags and meta flags come
+ * from either, SKU, price and image from the variation itself (the image
+ * falling back to the parent's, like the feed does).
+ */
+
+export const FEED_RULE_TYPES = ["category", "tag", "sku_pattern", "price_range", "missing_image", "meta_flag"] as const;
+
+export type FeedRuleType = (typeof FEED_RULE_TYPES)[number];
+
+export type FeedRuleAction = "include" | "exclude";
+
+export interface FeedRule {
+  id: number;
+  action: FeedRuleAction;
+  type: FeedRuleType;
+  // category: category ID (subcategories match too)
+  // tag: tag slug or name
+  // sku_pattern: glob with * and ?, case-insensitive
+  // price_range: "min-max", either end may be empty ("-5", "100-")
+  // missing_image: unused
+  // meta_flag: meta key ("_exclude_from_meta") or key=value
+  value: string;
+}
+
+export function isFeedRuleType(value: string): value is FeedRuleType {
+  return (FEED_RULE_TYPES as readonly string[]).includes(value);
+}
+
+// Throws on values the matcher couldn't use
+export function validateRuleValue(type: FeedRuleType, value: string): void {
+  switch (type) {
+    case "category":
+      if (!/^\d+$/.test(value)) throw new Error("category rules need a category ID");
+      break;
+    case "price_range": {
+      const range = parsePriceRange(value);
+      if (!range || (range.min === null && range.max === null)) {
+        throw new Error('price_range rules need "min-max" (e.g. "0-5" or "100-")');
+      }
+      break;
+    }
+    case "missing_image":
+      break;
+    default:
+      if (!value.trim()) throw new Error(`${type} rules need a value`);
+  }
+}
+
+function parsePriceRange(value: string): { min: number | null; max: number | null } | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)?\s*-\s*(\d+(?:\.\d+)?)?$/);
+  if (!match) return null;
+  return {
+    min: match[1] !== undefined ? parseFloat(match[1]) : null,
+    max: match[2] !== undefined ? parseFloat(match[2]) : null,
+  };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+const TRUTHY_FLAGS = ["1", "yes", "true", "on"];
+
+function matchesMetaFlag(product: WCProduct | undefined, rule: string): boolean {
+  const [key, expected] = rule.split("=", 2).map((s) => s.trim());
+  const value = product?.meta_data?.find((m) => m.key === key)?.value;
+  if (value === undefined || value === null) return false;
+  const actual = String(value).toLowerCase();
+  return expected !== undefined ? actual === expected.toLowerCase() : TRUTHY_FLAGS.includes(actual);
+}
+
+function matchesRule(rule: FeedRule, product: WCProduct, parent: WCProduct | undefined, tree: CategoryTree): boolean {
+  switch (rule.type) {
+    case "category": {
+      const categoryId = parseInt(rule.value, 10);
+      const categories = [...(parent?.categories || []), ...(product.categories || [])];
+      return categories.some(
+        (c) => c.id === categoryId || getCategoryPath(tree, c.id).some((node) => node.id === categoryId)
+      );
+    }
+    case "tag": {
+      const needle = rule.value.trim().toLowerCase();
+      const tags = [...(parent?.tags || []), ...(product.tags || [])];
+      return tags.some((t) => t.slug?.toLowerCase() === needle || t.name?.toLowerCase() === needle);
+    }
+    case "sku_pattern":
+      return !!product.sku && globToRegExp(rule.value.trim()).test(product.sku);
+    case "price_range": {
+      const range = parsePriceRange(rule.value);
+      const price = parseFloat(product.price || product.regular_price);
+      if (!range || !Number.isFinite(price)) return false;
+      return (range.min === null || price >= range.min) && (range.max === null || price <= range.max);
+    }
+    case "missing_image":
+      return !(product.image?.src || product.images?.[0]?.src || parent?.images?.[0]?.src);
+    case "meta_flag":
+      return matchesMetaFlag(product, rule.value) || matchesMetaFlag(parent, rule.value);
+  }
+}
+
+// First rule keeping the product out of feeds, or null when it may be published
+export function findExcludingRule(
+  product: WCProduct,
+  parent: WCProduct | undefined,
+  context: Pick<MappingContext, "feedRules" | "categoryTree">
+): FeedRule | null {
+  const { feedRules: rules, categoryTree: tree } = context;
+  const excluded = rules.find((rule) => rule.action === "exclude" && matchesRule(rule, product, parent, tree));
+  if (excluded) return excluded;
+
+  const includes = rules.filter((rule) => rule.action === "include");
+  if (includes.length > 0 && !includes.some((rule) => matchesRule(rule, product, parent, tree))) {
+    return includes[0]!;
+  }
+  return null;
+}
+
+export function isIncludedInFeed(
+  product: WCProduct,
+  parent: WCProduct | undefined,
+  context: Pick<MappingContext, "feedRules" | "categoryTree">
+): boolean {
+  return findExcludingRule(product, parent, context) === null;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { checkFeedAccess, signFeedToken } from "./feed-tokens";
+import { createFeedToken, revokeFeedToken } from "./db/feed-tokens";
+import { createStore } from "./db/stores";
+import { runWithStore } from "./store-context";
+
+const storeInput = {
+  wc_api_url: "https://shop.test/wp-json/wc/v3",
+  wc_consumer_key: "ck",
+  wc_consumer_secret: "cs",
+};
+const store = createStore("tokens", { name: "Tokens", ...storeInput });
+const otherStore = createStore("tokens-other", { name: "Other", ...storeInput });
+const requiredStore = createStore("tokens-required", { name: "Required", ...storeInput, feed_token_required: 1 });
+
+const HOUR = 60 * 60 * 1000;
+
+describe("checkFeedAccess", () => {
+  test("a valid token opens the feed", () => {
+    const row = runWithStore(store, () => createFeedToken("Meta", null));
+    expect(checkFeedAccess(store, signFeedToken(row))).toEqual({ allowed: true, tokenId: row.id });
+  });
+
+  test("without a token the store decides", () => {
+    expect(checkFeedAccess(store, null)).toEqual({ allowed: true, tokenId: null });
+    expect(checkFeedAccess(requiredStore, null)).toMatchObject({ allowed: false, status: 401 });
+  });
+
+  test("tampered tokens are rejected", () => {
+    const row = runWithStore(store, () => createFeedToken("Google", new Date(Date.now() + HOUR).toISOString()));
+    const other = runWithStore(store, () => createFeedToken("TikTok", null));
+    const [id, expires, signature] = signFeedToken(row).split(".") as [string, string, string];
+    const flipped = (signature[0] === "A" ? "B" : "A") + signature.slice(1);
+
+    for (const token of [
+      `${id}.${expires}.${flipped}`,
+      `${other.id}.${expires}.${signature}`,
+      `${id}.${Number(expires) + 3600}.${signature}`,
+      `${id}.0.${signature}`,
+      `${id}.${expires}`,
+      "garbage",
+    ]) {
+      expect(checkFeedAccess(store, token)).toMatchObject({ allowed: false, status: 403, reason: "Invalid feed token" });
+    }
+  });
+
+  test("tokens are bound to their store", () => {
+    const row = runWithStore(store, () => createFeedToken("Agency", null));
+    expect(checkFeedAccess(otherStore, signFeedToken(row))).toMatchObject({ allowed: false, status: 403 });
+  });
+
+  test("expired tokens are rejected", () => {
+    const row = runWithStore(store, () => createFeedToken("Trial", new Date(Date.now() + HOUR).toISOString()));
+    const token = signFeedToken(row);
+    expect(checkFeedAccess(store, token).allowed).toBe(true);
+    expect(checkFeedAccess(store, token, Date.now() + 2 * HOUR)).toEqual({
+      allowed: false,
+      status: 403,
+      reason: "Feed token expired",
+      tokenId: row.id,
+    });
+  });
+
+  test("revoked tokens are rejected", () => {
+    const row = runWithStore(store, () => createFeedToken("Old agency", null));
+    const token = signFeedToken(row);
+    expect(runWithStore(store, () => revokeFeedToken(row.id))).toBe(true);
+    expect(checkFeedAccess(store, token)).toEqual({
+      allowed: false,
+      status: 403,
+      reason: "Feed token revoked",
+      tokenId: row.id,
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { getFeedSigningSecret, type Store } from "./db/stores";
+import { getFeedTokenById, type FeedTokenRow } from "./db/feed-tokens";
+
+/**
+ * Signed feed URLs. A token is "{id}.{expiry}.{signature}": the token row id,
+ * its expiry in unix seconds (0 for none) and an HMAC-SHA256 of both plus the
+ * store id, keyed with the store's signing secret. The signature makes tokens
+ * unguessable; the row makes them revocable and labels them in the download log.
+ */
+
+const TOKEN_PATTERN = /^(\d+)\.(\d+)\.([A-Za-z0-9_-]+)$/;
+
+function expirySeconds(token: FeedTokenRow): number {
+  return token.expires_at ? Math.floor(Date.parse(token.expires_at) / 1000) : 0;
+}
+
+function signature(storeId: string, id: number, expires: number): string {
+  return createHmac("sha256", getFeedSigningSecret(storeId))
+    .update(`${storeId}.${id}.${expires}`)
+    .digest("base64url");
+}
+
+export function signFeedToken(token: FeedTokenRow): string {
+  const expires = expirySeconds(token);
+  return `${token.id}.${expires}.${signature(token.store_id, token.id, expires)}`;
+}
+
+export type FeedAccess =
+  | { allowed: true; tokenId: number | null }
+  | { allowed: false; status: 401 | 403; reason: string; tokenId: number | null };
+
+// Whether a feed download may proceed. Without a token the store decides; a
+// token that is present must be valid even when the store doesn't require one.
+export function checkFeedAccess(store: Store | null, token: string | null, now = Date.now()): FeedAccess {
+  if (!token) {
+    return store?.feed_token_required
+      ? { allowed: false, status: 401, reason: "Feed token required", tokenId: null }
+      : { allowed: true, tokenId: null };
+  }
+
+  const match = token.match(TOKEN_PATTERN);
+  if (!store || !match) {
+    return { allowed: false, status: 403, reason: "Invalid feed token", tokenId: null };
+  }
+
+  const id = parseInt(match[1]!);
+  const expires = parseInt(match[2]!);
+  const expected = Buffer.from(signature(store.id, id, expires));
+  const given = Buffer.from(match[3]!);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { allowed: false, status: 403, reason: "Invalid feed token", tokenId: null };
+  }
+
+  const row = getFeedTokenById(store.id, id);
+  if (!row || expirySeconds(row) !== expires) {
+    return { allowed: false, status: 403, reason: "Invalid feed token", tokenId: null };
+  }
+  if (row.revoked_at) {
+    return { allowed: false, status: 403, reason: "Feed token revoked", tokenId: id };
+  }
+  if (expires > 0 && now >= expires * 1000) {
+    return { allowed: false, status: 403, reason: "Feed token expired", tokenId: id };
+  }
+  return { allowed: true, tokenId: id };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import {
+  FeedValidationError,
+  assertPublishable,
+  createFeedValidator,
+  getFeedItemErrors,
+  parseMaxErrorRate,
+  validateFeedItem,
+} from "./feed-validator";
+import type { MetaProduct } from "./types";
+
+// An item Meta accepts without warnings
+function item(fields: Partial<MetaProduct> = {}): MetaProduct {
+  return {
+    id: "wc_1",
+    title: "Cotton shirt",
+    description: "A cotton shirt",
+    availability: "in stock",
+    condition: "new",
+    price: "19.99 EUR",
+    link: "https://shop.test/shirt",
+    image_link: "https://shop.test/shirt.jpg",
+    brand: "Shop",
+    gtin: "4006381333931",
+    google_product_category: "212",
+    status: "active",
+    ...fields,
+  };
+}
+
+// A validator that has checked `valid` good items and `invalid` items with errors
+function validatorWith(maxErrorRate: number, valid: number, invalid: number) {
+  const validator = createFeedValidator(maxErrorRate);
+  for (let i = 0; i < valid; i++) validator.check(item({ id: `wc_${i}` }));
+  for (let i = 0; i < invalid; i++) validator.check(item({ id: `bad_${i}`, price: "" }));
+  return validator;
+}
+
+describe("validateFeedItem", () => {
+  test("accepts a complete item", () => {
+    expect(validateFeedItem(item())).toEqual([]);
+  });
+
+  test("errors on what Meta rejects the item for", () => {
+    expect(getFeedItemErrors(item({ brand: " ", price: "19.99", image_link: "" }))).toEqual([
+      "missing brand",
+      'price "19.99" is not "amount CURRENCY"',
+      "missing image_link",
+    ]);
+    expect(getFeedItemErrors(item({ link: "shop.test/shirt", gender: "men" }))).toEqual([
+      "link is not an http(s) URL",
+      "gender must be one of female, male, unisex",
+    ]);
+  });
+
+  test("only warns about what Meta accepts", () => {
+    const issues = validateFeedItem(item({ title: "COTTON SHIRT", sale_price: "25.00 EUR", gtin: undefined, age_group: "babies" }));
+    expect(issues.every((issue) => issue.severity === "warning")).toBe(true);
+    expect(issues.map((issue) => issue.field)).toEqual(["title", "sale_price", "age_group", "gtin"]);
+  });
+});
+
+describe("createFeedValidator threshold", () => {
+  test("publishes up to and including the threshold", () => {
+    const atThreshold = validatorWith(5, 95, 5).report();
+    expect(atThreshold).toMatchObject({ total: 100, invalid: 5, errorRate: 5, publishable: true });
+
+    const over = validatorWith(5, 94, 6).report();
+    expect(over).toMatchObject({ errorRate: 6, publishable: false });
+    expect(() => assertPublishable("Standard feed", over)).toThrow(FeedValidationError);
+    expect(() => assertPublishable("Standard feed", over)).toThrow("6 of 100 items (6%) have errors, above the 5% threshold");
+  });
+
+  test("0 blocks on any error, and an empty feed is publishable", () => {
+    expect(validatorWith(0, 999, 1).report().publishable).toBe(false);
+    expect(validatorWith(0, 10, 0).report().publishable).toBe(true);
+    expect(createFeedValidator(0).report()).toMatchObject({ total: 0, errorRate: 0, publishable: true });
+  });
+
+  test("reports issues per field and keeps items with errors first", () => {
+    const validator = createFeedValidator(5, 2);
+    validator.check(item({ id: "warned", gtin: undefined }));
+    validator.check(item({ id: "broken", price: "" }));
+    validator.check(item({ id: "broken_too", price: "" }));
+    const report = validator.report();
+    expect(report.byField).toEqual({ "warning:gtin": 1, "error:price": 2 });
+    expect(report.items.map((entry) => entry.id)).toEqual(["broken", "broken_too"]);
+  });
+});
+
+describe("parseMaxErrorRate", () => {
+  test("takes a percentage from 0 to 100", () => {
+    expect(parseMaxErrorRate("0")).toBe(0);
+    expect(parseMaxErrorRate("2.5")).toBe(2.5);
+    expect(parseMaxErrorRate(" 100 ")).toBe(100);
+  });
+
+  test("falls back to 5 when unset, malformed or out of range", () => {
+    for (const value of [undefined, "", "5abc", "1e1", "0x10", "-1", "101", "Infinity", "five"]) {
+      expect(parseMaxErrorRate(value)).toBe(5);
+    }
+  });
+});
@@ -0,0 +1,248 @@
+import type { MetaProduct } from "./types";
+import { collectImageUrls, isHttpUrl, type FeedItem } from "./feed-formats/fields";
+
+/**
+ * Checks mapped items against Meta's catalog field rules before they are
+ * published to public/ or sent to the Catalog API. Errors are what Meta
+ * rejects the item for; warnings are accepted but worth fixing. A whole feed
+ * is blocked when the share of items with errors exceeds the threshold.
+ */
+
+export type FeedIssueSeverity = "error" | "warning";
+
+export interface FeedIssue {
+  field: string;
+  severity: FeedIssueSeverity;
+  message: string;
+}
+
+export interface FeedItemIssues {
+  id: string;
+  title: string;
+  errors: FeedIssue[];
+  warnings: FeedIssue[];
+}
+
+export interface FeedValidationReport {
+  total: number;
+  // Items with at least one error / at least one warning
+  invalid: number;
+  withWarnings: number;
+  // Percentage of items with errors
+  errorRate: number;
+  maxErrorRate: number;
+  publishable: boolean;
+  // Issue counts per "severity:field"
+  byField: Record<string, number>;
+  // Items with issues, errors first, capped at the report limit
+  items: FeedItemIssues[];
+}
+
+// Above this percentage (0-100) of items with errors a feed is not published (0 blocks
+// on any error). A value that isn't a plain number in that range falls back to the default.
+const DEFAULT_MAX_ERROR_RATE = 5;
+
+export function parseMaxErrorRate(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") return DEFAULT_MAX_ERROR_RATE;
+
+  // Number() alone would take "1e1" and "0x10"; only plain decimals are percentages here
+  const rate = /^\s*\d+(\.\d+)?\s*$/.test(value) ? Number(value) : NaN;
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    console.warn(`Ignoring FEED_MAX_ERROR_RATE="${value}" (a percentage 0-100), using ${DEFAULT_MAX_ERROR_RATE}`);
+    return DEFAULT_MAX_ERROR_RATE;
+  }
+  return rate;
+}
+
+export const FEED_MAX_ERROR_RATE = parseMaxErrorRate(process.env.FEED_MAX_ERROR_RATE);
+
+const REQUIRED_FIELDS = ["id", "title", "description", "availability", "condition", "price", "link", "brand"] as const;
+
+const AVAILABILITY_VALUES = ["in stock", "out of stock", "preorder", "available for order", "discontinued"];
+const CONDITION_VALUES = ["new", "refurbished", "used"];
+const GENDER_VALUES = ["female", "male", "unisex"];
+const AGE_GROUP_VALUES = ["adult", "all ages", "teen", "kids", "toddler", "infant", "newborn"];
+
+// Meta's limits; the title limit is the one Meta shows in full in ads
+const MAX_ID_LENGTH = 100;
+const MAX_TITLE_LENGTH = 150;
+const MAX_DESCRIPTION_LENGTH = 9999;
+const LONG_DESCRIPTION_LENGTH = 5000;
+
+// "9.99 USD": an amount and a three-letter ISO currency
+const PRICE_PATTERN = /^(\d+(?:\.\d+)?) [A-Z]{3}$/;
+
+function parsePrice(price: string): number | null {
+  const match = price.match(PRICE_PATTERN);
+  return match ? parseFloat(match[1]!) : null;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+// Every issue of one item, errors and warnings mixed
+export function validateFeedItem(item: MetaProduct): FeedIssue[] {
+  const issues: FeedIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ field, severity: "error", message });
+  const warning = (field: string, message: string) => issues.push({ field, severity: "warning", message });
+
+  for (const field of REQUIRED_FIELDS) {
+    if (isBlank(item[field])) error(field, `missing ${field}`);
+  }
+
+  if (item.id && item.id.length > MAX_ID_LENGTH) {
+    error("id", `id longer than ${MAX_ID_LENGTH} characters`);
+  }
+  if (item.title && item.title.length > MAX_TITLE_LENGTH) {
+    error("title", `title is ${item.title.length} characters (max ${MAX_TITLE_LENGTH})`);
+  } else if (item.title && item.title === item.title.toUpperCase() && /[A-Z]/.test(item.title)) {
+    warning("title", "title is all capitals");
+  }
+  if (item.description && item.description.length > MAX_DESCRIPTION_LENGTH) {
+    error("description", `description is ${item.description.length} characters (max ${MAX_DESCRIPTION_LENGTH})`);
+  } else if (item.description && item.description.length > LONG_DESCRIPTION_LENGTH) {
+    warning("description", `description is ${item.description.length} characters`);
+  }
+
+  const price = item.price ? parsePrice(item.price) : null;
+  if (item.price && price === null) {
+    error("price", `price "${item.price}" is not "amount CURRENCY"`);
+  } else if (price === 0) {
+    warning("price", "price is zero");
+  }
+  if (item.sale_price) {
+    const salePrice = parsePrice(item.sale_price);
+    if (salePrice === null) {
+      error("sale_price", `sale_price "${item.sale_price}" is not "amount CURRENCY"`);
+    } else if (price !== null && salePrice >= price) {
+      warning("sale_price", "sale_price is not lower than price");
+    }
+  }
+
+  if (item.link && !isHttpUrl(item.link)) {
+    error("link", "link is not an http(s) URL");
+  }
+  const [image, ...additionalImages] = collectImageUrls(item as FeedItem);
+  if (!image) {
+    error("image_link", "missing image_link");
+  } else if (!isHttpUrl(image)) {
+    error("image_link", "image_link is not an http(s) URL");
+  }
+  if (additionalImages.some((url) => !isHttpUrl(url))) {
+    warning("additional_image_link", "additional_image_link has a URL that is not http(s)");
+  }
+
+  if (item.availability && !AVAILABILITY_VALUES.includes(item.availability)) {
+    error("availability", `availability must be one of ${AVAILABILITY_VALUES.join(", ")}`);
+  }
+  if (item.condition && !CONDITION_VALUES.includes(item.condition)) {
+    error("condition", `condition must be one of ${CONDITION_VALUES.join(", ")}`);
+  }
+  if (item.gender && !GENDER_VALUES.includes(item.gender)) {
+    error("gender", `gender must be one of ${GENDER_VALUES.join(", ")}`);
+  }
+  if (item.age_group && !AGE_GROUP_VALUES.includes(item.age_group)) {
+    // Meta drops the attribute rather than the item
+    warning("age_group", `age_group must be one of ${AGE_GROUP_VALUES.join(", ")}`);
+  }
+
+  if (isBlank(item.gtin) && isBlank(item.mpn)) {
+    warning("gtin", "no gtin or mpn; matching and ad delivery suffer");
+  }
+  if (isBlank(item.google_product_category)) {
+    warning("google_product_category", "missing google_product_category");
+  }
+
+  return issues;
+}
+
+// Item errors only, as one line per item for sync logs and statuses
+export function getFeedItemErrors(item: MetaProduct): string[] {
+  return validateFeedItem(item)
+    .filter((issue) => issue.severity === "error")
+    .map((issue) => issue.message);
+}
+
+// Incremental validation of a feed: check() per item, then report()
+export interface FeedValidator {
+  check(item: MetaProduct): FeedIssue[];
+  report(): FeedValidationReport;
+}
+
+export function createFeedValidator(
+  maxErrorRate: number = FEED_MAX_ERROR_RATE,
+  // Items with issues kept in the report
+  limit = 100
+): FeedValidator {
+  const errorItems: FeedItemIssues[] = [];
+  const warningItems: FeedItemIssues[] = [];
+  const byField: Record<string, number> = {};
+  let total = 0;
+  let invalid = 0;
+  let withWarnings = 0;
+
+  return {
+    check(item) {
+      total++;
+      const issues = validateFeedItem(item);
+      if (issues.length === 0) return issues;
+
+      for (const issue of issues) {
+        const key = `${issue.severity}:${issue.field}`;
+        byField[key] = (byField[key] ?? 0) + 1;
+      }
+      const entry: FeedItemIssues = {
+        id: item.id,
+        title: item.title,
+        errors: issues.filter((issue) => issue.severity === "error"),
+        warnings: issues.filter((issue) => issue.severity === "warning"),
+      };
+      if (entry.errors.length > 0) {
+        invalid++;
+        if (errorItems.length < limit) errorItems.push(entry);
+      }
+      if (entry.warnings.length > 0) {
+        withWarnings++;
+        if (entry.errors.length === 0 && warningItems.length < limit) warningItems.push(entry);
+      }
+      return issues;
+    },
+    report() {
+      const errorRate = total > 0 ? Math.round((invalid / total) * 10000) / 100 : 0;
+      return {
+        total,
+        invalid,
+        withWarnings,
+        errorRate,
+        maxErrorRate,
+        publishable: errorRate <= maxErrorRate,
+        byField,
+        items: [...errorItems, ...warningItems].slice(0, limit),
+      };
+    },
+  };
+}
+
+// Thrown instead of publishing a feed whose error rate is over the threshold
+export class FeedValidationError extends Error {
+  readonly feed: string;
+  readonly report: FeedValidationReport;
+
+  constructor(feed: string, report: FeedValidationReport) {
+    super(
+      `${feed} not published: ${report.invalid} of ${report.total} items (${report.errorRate}%) have errors, ` +
+        `above the ${report.maxErrorRate}% threshold`
+    );
+    this.name = "FeedValidationError";
+    this.feed = feed;
+    this.report = report;
+  }
+}
+
+// Throw unless the report is under the threshold
+export function assertPublishable(feed: string, report: FeedValidationReport): void {
+  if (!report.publishable) {
+    throw new FeedValidationError(feed, report);
+  }
+}
@@ -0,0 +1,118 @@
+import { copyFileSync, mkdirSync, rmSync } from "fs";
+import path from "path";
+import Papa from "papaparse";
+import {
+  createFeedVersion,
+  deleteFeedVersion,
+  getExpiredFeedVersions,
+  getPublishedFeedVersion,
+  setPublishedFeedVersion,
+  type FeedVersionRow,
+} from "./db/feed-versions";
+import { getCatalogFileName, getFeedFilePath, getFeedVersionPath, publishFeedFile } from "./feed-files";
+import { getCurrentStoreId } from "./store-context";
+
+/**
+ * History of published Meta catalogs. Every generated product_catalog_{style}.csv
+ * is copied to the data directory and recorded with its hash and item count,
+ * so two versions can be diffed by item id and an older one republished.
+ */
+
+// Versions kept per style, besides the published one
+const MAX_VERSIONS_PER_STYLE = 30;
+
+// Record the catalog just written to public/ as the published version of its style.
+// A catalog identical to the published version adds nothing and returns that version.
+export function recordFeedVersion(style: string, hash: string, itemCount: number): FeedVersionRow {
+  const storeId = getCurrentStoreId();
+  const published = getPublishedFeedVersion(style);
+  if (published?.hash === hash) {
+    return published;
+  }
+
+  const filePath = getFeedFilePath(storeId, getCatalogFileName(style));
+  const version = createFeedVersion(style, hash, itemCount, Bun.file(filePath).size);
+  const versionPath = getFeedVersionPath(storeId, version.id);
+  try {
+    mkdirSync(path.dirname(versionPath), { recursive: true });
+    copyFileSync(filePath, versionPath);
+  } catch (error) {
+    deleteFeedVersion(version.id);
+    throw error;
+  }
+  setPublishedFeedVersion(version);
+
+  for (const expired of getExpiredFeedVersions(style, MAX_VERSIONS_PER_STYLE)) {
+    rmSync(getFeedVersionPath(storeId, expired.id), { force: true });
+    deleteFeedVersion(expired.id);
+  }
+  return version;
+}
+
+// Republish an older version as its style's catalog
+export async function rollbackFeedVersion(version: FeedVersionRow): Promise<void> {
+  await publishFeedFile(version.store_id, getCatalogFileName(version.style), getFeedVersionPath(version.store_id, version.id));
+  setPublishedFeedVersion(version);
+  console.log(`Rolled back ${version.style} catalog to version ${version.id} (${version.created_at})`);
+}
+
+// Drop every stored version file of a store (its rows go with deleteStore)
+export function removeStoreFeedVersions(storeId: string): void {
+  rmSync(path.dirname(getFeedVersionPath(storeId, 0)), { recursive: true, force: true });
+}
+
+export interface FeedItemChange {
+  id: string;
+  // Changed columns with their old and new value
+  fields: Record<string, { from: string; to: string }>;
+}
+
+export interface FeedDiff {
+  added: string[];
+  removed: string[];
+  changed: FeedItemChange[];
+  unchanged: number;
+}
+
+type FeedRow = Record<string, string>;
+
+// Compare two catalogs item by item (the id column)
+export function diffFeedRows(before: FeedRow[], after: FeedRow[]): FeedDiff {
+  const previous = new Map(before.map((row) => [row.id ?? "", row]));
+  const diff: FeedDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const row of after) {
+    const id = row.id ?? "";
+    const old = previous.get(id);
+    if (!old) {
+      diff.added.push(id);
+      continue;
+    }
+    previous.delete(id);
+
+    const fields: FeedItemChange["fields"] = {};
+    for (const column of new Set([...Object.keys(old), ...Object.keys(row)])) {
+      const from = old[column] ?? "";
+      const to = row[column] ?? "";
+      if (from !== to) fields[column] = { from, to };
+    }
+    if (Object.keys(fields).length > 0) {
+      diff.changed.push({ id, fields });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed = [...previous.keys()];
+  return diff;
+}
+
+async function readVersionRows(version: FeedVersionRow): Promise<FeedRow[]> {
+  const csv = await Bun.file(getFeedVersionPath(version.store_id, version.id)).text();
+  return Papa.parse<FeedRow>(csv, { header: true, skipEmptyLines: true }).data;
+}
+
+export async function diffFeedVersions(from: FeedVersionRow, to: FeedVersionRow): Promise<FeedDiff> {
+  const [before, after] = await Promise.all([readVersionRows(from), readVersionRows(to)]);
+  return diffFeedRows(before, after);
+}
@@ -0,0 +1,130 @@
+import { Worker } from "worker_threads";
+import os from "os";
+import path from "path";
+import type { MappingContext } from "./mapping-context";
+import type { FeedUnit, MappedFeedUnits } from "./feed-pipeline";
+
+/**
+ * Persistent worker threads that map feed batches (see worker.ts). Workers are
+ * started on first use and kept for later feeds; one that crashes is replaced
+ * on the next batch. They hold no store state: each batch carries its units
+ * and, when the worker hasn't seen it yet, the mapping context.
+ */
+
+// Worker threads for feed mapping; 0 maps on the main thread
+const configuredWorkers = parseInt(process.env.FEED_WORKERS || "", 10);
+export const FEED_WORKERS = Number.isNaN(configuredWorkers)
+  ? Math.min(os.cpus().length, 4)
+  : Math.max(0, configuredWorkers);
+
+export interface FeedWorkerRequest {
+  id: number;
+  contextId: number;
+  // Sent only when the worker last mapped with another context
+  context?: MappingContext;
+  units: FeedUnit[];
+}
+
+export type FeedWorkerResponse =
+  | { id: number; result: MappedFeedUnits }
+  | { id: number; error: string };
+
+interface FeedTask {
+  id: number;
+  contextId: number;
+  context: MappingContext;
+  units: FeedUnit[];
+  resolve(result: MappedFeedUnits): void;
+  reject(error: Error): void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  contextId: number | null;
+  task: FeedTask | null;
+}
+
+const workers: PoolWorker[] = [];
+const queue: FeedTask[] = [];
+let nextTaskId = 1;
+
+// Contexts are numbered per object, so a feed's batches share one id
+const contextIds = new WeakMap<MappingContext, number>();
+let nextContextId = 1;
+
+function getContextId(context: MappingContext): number {
+  let id = contextIds.get(context);
+  if (id === undefined) {
+    id = nextContextId++;
+    contextIds.set(context, id);
+  }
+  return id;
+}
+
+function removeWorker(entry: PoolWorker, error: Error): void {
+  const index = workers.indexOf(entry);
+  if (index < 0) return;
+  workers.splice(index, 1);
+  entry.task?.reject(error);
+  entry.task = null;
+  dispatch();
+}
+
+function startWorker(): PoolWorker {
+  const entry: PoolWorker = {
+    worker: new Worker(path.resolve(import.meta.dir, "worker.ts")),
+    contextId: null,
+    task: null,
+  };
+
+  entry.worker.on("message", (response: FeedWorkerResponse) => {
+    const task = entry.task;
+    if (!task || task.id !== response.id) return;
+    entry.task = null;
+    entry.worker.unref();
+    if ("error" in response) {
+      task.reject(new Error(`Feed worker failed: ${response.error}`));
+    } else {
+      task.resolve(response.result);
+    }
+    dispatch();
+  });
+  entry.worker.on("error", (error) => {
+    console.error("Feed worker error:", error);
+    removeWorker(entry, error instanceof Error ? error : new Error(String(error)));
+  });
+  entry.worker.on("exit", (code) => {
+    removeWorker(entry, new Error(`Feed worker stopped with exit code ${code}`));
+  });
+
+  // Idle workers must not keep the process alive (after the listeners, which ref it again)
+  entry.worker.unref();
+  workers.push(entry);
+  return entry;
+}
+
+// Hand queued batches to idle workers, starting workers up to FEED_WORKERS
+function dispatch(): void {
+  while (queue.length > 0) {
+    const entry = workers.find((w) => !w.task) ?? (workers.length < FEED_WORKERS ? startWorker() : null);
+    if (!entry) return;
+
+    const task = queue.shift()!;
+    const request: FeedWorkerRequest = { id: task.id, contextId: task.contextId, units: task.units };
+    if (entry.contextId !== task.contextId) {
+      request.context = task.context;
+      entry.contextId = task.contextId;
+    }
+    entry.task = task;
+    entry.worker.ref();
+    entry.worker.postMessage(request);
+  }
+}
+
+// Map a batch of units on the pool; batches are served in the order they are queued
+export function runInFeedWorker(units: FeedUnit[], context: MappingContext): Promise<MappedFeedUnits> {
+  return new Promise((resolve, reject) => {
+    queue.push({ id: nextTaskId++, contextId: getContextId(context), context, units, resolve, reject });
+    dispatch();
+  });
+}
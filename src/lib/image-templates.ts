@@ -0,0 +1,162 @@
+import { Base64 } from "js-base64";
+import type { MetaImage } from "./meta/types";
+
+/**
+ * Image template engine.
+ *
+ * A template describes how product images are rendered by an external image
+ * service (imgen by default): the base URL, which query parameters carry the
+ * product data, which aspect ratios to request and which Meta tags each ratio
+ * gets. Templates are stored in SQLite (see db/image-templates.ts) so ratios
+ * or the whole service can be changed without touching the mapping code.
+ */
+
+export interface ImageTemplateParams {
+  // Query parameter names; an empty string omits the parameter
+  name: string;
+  price: string;
+  discount_price: string;
+  img: string;
+  style: string;
+  aspect_ratio: string;
+}
+
+export interface ImageTemplateRatio {
+  value: string;  // e.g. "4:5"
+  tags: string[];  // Meta image tags, empty for the default image
+}
+
+export interface ImageTemplate {
+  name: string;
+  base_url: string;
+  params: ImageTemplateParams;
+  ratios: ImageTemplateRatio[];
+  currency_label: string;  // Currency shown inside the rendered image (e.g. "KM")
+}
+
+export interface ImageTemplateInput {
+  name: string;
+  price: string;
+  salePrice?: string;
+  imageUrl: string;
+  style?: string;
+}
+
+export const DEFAULT_IMAGE_TEMPLATE: ImageTemplate = {
+  name: "imgen",
+  base_url: "https://imgen.lunatik.cloud/",
+  params: {
+    name: "name",
+    price: "price",
+    discount_price: "discount_price",
+    img: "img",
+    style: "style",
+    aspect_ratio: "aspect_ratio",
+  },
+  ratios: [
+    // First image is the default, no tag needed
+    { value: "1:1", tags: [] },
+    // 4:5 portrait for feed placements
+    { value: "4:5", tags: ["ASPECT_RATIO_4_5_PREFERRED"] },
+    // 9:16 for Stories and Reels (both tags for full coverage)
+    { value: "9:16", tags: ["STORY_PREFERRED", "REELS_PREFERRED"] },
+  ],
+  currency_label: "KM",
+};
+
+export function formatImagePrice(template: ImageTemplate, amount: string): string {
+  return template.currency_label ? `${amount} ${template.currency_label}` : amount;
+}
+
+// Build one image per ratio; returns an empty list when the product has no source image
+export function buildTemplateImages(
+  template: ImageTemplate,
+  input: ImageTemplateInput
+): MetaImage[] {
+  if (!input.imageUrl) return [];
+
+  const { params } = template;
+  const query: string[] = [];
+  const add = (param: string, value: string) => {
+    if (param) query.push(`${param}=${value}`);
+  };
+
+  add(params.price, encodeURIComponent(formatImagePrice(template, input.price)));
+  // Only include discount_price param if there's actually a sale price
+  if (input.salePrice) {
+    add(params.discount_price, encodeURIComponent(formatImagePrice(template, input.salePrice)));
+  }
+  add(params.name, encodeURIComponent(input.name));
+  add(params.img, Base64.encode(input.imageUrl, true));
+  if (input.style) {
+    add(params.style, encodeURIComponent(input.style));
+  }
+
+  const separator = template.base_url.includes("?") ? "&" : "?";
+  const baseUrl = `${template.base_url}${separator}${query.join("&")}`;
+
+  return template.ratios.map((ratio) => ({
+    url: params.aspect_ratio ? `${baseUrl}&${params.aspect_ratio}=${ratio.value}` : baseUrl,
+    tag: [...ratio.tags],
+  }));
+}
+
+// CSV columns for the multi-ratio images: image[i].url plus one column per tag (at least one)
+export function getImageColumns(template: ImageTemplate): string[] {
+  const columns: string[] = [];
+  template.ratios.forEach((ratio, i) => {
+    columns.push(`image[${i}].url`);
+    const tagCount = Math.max(ratio.tags.length, 1);
+    for (let t = 0; t < tagCount; t++) {
+      columns.push(`image[${i}].tag[${t}]`);
+    }
+  });
+  return columns;
+}
+
+// Flatten images into the CSV columns above; missing images yield empty cells
+export function toImageColumnEntries(
+  template: ImageTemplate,
+  images: MetaImage[]
+): Record<string, string> {
+  const entries: Record<string, string> = {};
+  template.ratios.forEach((ratio, i) => {
+    const image = images[i];
+    entries[`image[${i}].url`] = image?.url ?? "";
+    const tagCount = Math.max(ratio.tags.length, 1);
+    for (let t = 0; t < tagCount; t++) {
+      entries[`image[${i}].tag[${t}]`] = image?.tag[t] ?? "";
+    }
+  });
+  return entries;
+}
+
+export function validateImageTemplate(template: ImageTemplate): string[] {
+  const errors: string[] = [];
+
+  if (!template.name) {
+    errors.push("name is required");
+  }
+  try {
+    new URL(template.base_url);
+  } catch {
+    errors.push(`base_url "${template.base_url}" is not a valid URL`);
+  }
+  if (!template.params?.img) {
+    errors.push("params.img is required");
+  }
+  if (!Array.isArray(template.ratios)) {
+    errors.push("ratios must be an array");
+  } else {
+    for (const ratio of template.ratios) {
+      if (!/^\d+:\d+$/.test(ratio.value)) {
+        errors.push(`Invalid ratio "${ratio.value}" (expected W:H)`);
+      }
+      if (!Array.isArray(ratio.tags)) {
+        errors.push(`Ratio ${ratio.value} tags must be an array`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,56 @@
+import { DEFAULT_FEED_STYLE, type FeedStyleConfig } from "./db/feed-styles";
+import { getActiveImageTemplate } from "./db/image-templates";
+import { getAllAttributeMappings } from "./db/attribute-mappings";
+import { getCategoryTree } from "./db/categories";
+import type { ImageTemplate } from "./image-templates";
+import type { AttributeMapping } from "./attribute-mapping";
+import type { CategoryTree } from "./taxonomy";
+import { findCurrentStore } from "./store-context";
+import { getActiveFeedRules } from "./db/feed-rules";
+import type { FeedRule } from "./feed-rules";
+import { getActiveCustomLabels } from "./db/custom-labels";
+import type { CustomLabelRule } from "./custom-labels";
+import type { IdentifierMetaKeys } from "./product-identifiers";
+
+/**
+ * Everything mapToMetaProduct needs besides the product itself.
+ * Loaded once per feed/sync run and passed down (it is plain data, so it can
+ * also be handed to worker threads via workerData).
+ */
+export interface MappingContext {
+  style: FeedStyleConfig;
+  currency: string;
+  brand: string;
+  identifierKeys: IdentifierMetaKeys;
+  weightUnit: string;
+  template: ImageTemplate;
+  attributeMappings: AttributeMapping[];
+  categoryTree: CategoryTree;
+  feedRules: FeedRule[];
+  customLabels: CustomLabelRule[];
+}
+
+export function loadMappingContext(style: FeedStyleConfig = DEFAULT_FEED_STYLE): MappingContext {
+  const store = findCurrentStore();
+  return {
+    style: {
+      name: style.name,
+      imgen_style: style.imgen_style,
+      title_prefix: style.title_prefix,
+    },
+    currency: store?.currency ?? process.env.WC_CURRENCY ?? "BAM",
+    brand: store?.brand ?? process.env.WC_BRAND ?? "Lunatik",
+    identifierKeys: {
+      gtin: store?.gtin_meta_key ?? null,
+      mpn: store?.mpn_meta_key ?? null,
+      brand: store?.brand_meta_key ?? null,
+      condition: store?.condition_meta_key ?? null,
+    },
+    weightUnit: store?.weight_unit ?? "kg",
+    template: getActiveImageTemplate(),
+    attributeMappings: getAllAttributeMappings(),
+    categoryTree: getCategoryTree(),
+    feedRules: getActiveFeedRules(),
+    customLabels: getActiveCustomLabels(),
+  };
+}
@@ -1,5 +1,6 @@
 import type { MetaProduct } from "../types";
 import type { MetaBatchItem, MetaBatchResponse, MetaCatalogProduct, MetaImage } from "./types";
+import { CUSTOM_LABEL_SLOTS } from "../custom-labels";
 import { batchUpsertProducts, fetchCatalogState, getProductByRetailerId } from "./client";
 import { markSynced, markError, upsertSyncStatus } from "../db/sync-status";
 
@@ -48,6 +49,55 @@ export function createBatchItem(
   // Always include sale_price - send empty string to clear it if removed
   // This ensures Meta updates the sale price whether it's added, changed, or removed
   data.sale_price = product.sale_price || "";
+  data.sale_price_effective_date = product.sale_price_effective_date || "";
+
+  // Custom labels follow price and stock into product sets, so send them on every update.
+  // Slots without label rules are undefined and left untouched.
+  for (const slot of CUSTOM_LABEL_SLOTS) {
+    const key = `custom_label_${slot}` as const;
+    if (product[key] !== undefined) {
+      data[key] = product[key];
+    }
+  }
+
+  // Identifiers, brand and condition are often set after a product was first synced,
+  // so send them on updates too
+  data.brand = product.brand;
+  data.condition = product.condition;
+  if (product.gtin) {
+    data.gtin = product.gtin;
+  }
+  if (product.mpn) {
+    data.mpn = product.mpn;
+  }
+  if (product.shipping_weight) {
+    data.shipping_weight = product.shipping_weight;
+  }
+
+  // Attribute mapping rules can be edited after the first sync, so send mapped attributes on updates too
+  if (product.size) {
+    data.size = product.size;
+  }
+  if (product.color) {
+    data.color = product.color;
+  }
+  if (product.gender) {
+    data.gender = product.gender;
+  }
+  if (product.age_group) {
+    data.age_group = product.age_group;
+  }
+  if (product.material) {
+    data.material = product.material;
+  }
+
+  // Category mappings can change after the first sync too
+  if (product.product_type) {
+    data.product_type = product.product_type;
+  }
+  if (product.google_product_category) {
+    data.google_product_category = product.google_product_category;
+  }
 
   // Build multi-ratio image array - always include since price is embedded in image URL
   const images: MetaImage[] = [];
@@ -71,24 +121,10 @@ export function createBatchItem(
     data.title = product.title;
     data.description = product.description;
     data.link = product.link;
-    data.brand = product.brand;
-    data.condition = product.condition;
 
     if (product.item_group_id) {
       data.item_group_id = product.item_group_id;
     }
-    if (product.size) {
-      data.size = product.size;
-    }
-    if (product.color) {
-      data.color = product.color;
-    }
-    if (product.product_type) {
-      data.product_type = product.product_type;
-    }
-    if (product.google_product_category) {
-      data.google_product_category = product.google_product_category;
-    }
   }
 
   return {
@@ -3,19 +3,27 @@ import type {
   MetaCatalogProduct,
   MetaBatchItem,
   MetaBatchResponse,
+  MetaLocalizedItem,
 } from "./types";
+import { getCurrentStore } from "../store-context";
 
 const META_BASE_URL = "https://graph.facebook.com/v21.0";
-const META_ACCESS_TOKEN = process.env.META_ACCESS_TOKEN;
-const META_CATALOG_ID = process.env.META_CATALOG_ID;
 
-function validateConfig(): void {
-  if (!META_ACCESS_TOKEN) {
-    throw new Error("META_ACCESS_TOKEN environment variable is not set");
+export interface MetaConfig {
+  accessToken: string;
+  catalogId: string;
+}
+
+// Catalog and token of the current store
+export function getMetaConfig(): MetaConfig {
+  const store = getCurrentStore();
+  if (!store.meta_access_token) {
+    throw new Error(`Meta access token is not set for store "${store.id}"`);
   }
-  if (!META_CATALOG_ID) {
-    throw new Error("META_CATALOG_ID environment variable is not set");
+  if (!store.meta_catalog_id) {
+    throw new Error(`Meta catalog ID is not set for store "${store.id}"`);
   }
+  return { accessToken: store.meta_access_token, catalogId: store.meta_catalog_id };
 }
 
 export async function metaApiRequest<T>(
@@ -23,11 +31,11 @@ export async function metaApiRequest<T>(
   method: "GET" | "POST" = "GET",
   body?: Record<string, unknown>
 ): Promise<MetaApiResponse<T>> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   const url = `${META_BASE_URL}${endpoint}`;
   const headers: Record<string, string> = {
-    Authorization: `Bearer ${META_ACCESS_TOKEN}`,
+    Authorization: `Bearer ${accessToken}`,
   };
 
   const options: RequestInit = { method, headers };
@@ -45,15 +53,15 @@ export async function getCatalogProducts(
   fields: string[] = ["retailer_id", "availability", "inventory"],
   limit = 100
 ): Promise<MetaCatalogProduct[]> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   const allProducts: MetaCatalogProduct[] = [];
   let nextUrl: string | null =
-    `${META_BASE_URL}/${META_CATALOG_ID}/products?fields=${fields.join(",")}&limit=${limit}`;
+    `${META_BASE_URL}/${catalogId}/products?fields=${fields.join(",")}&limit=${limit}`;
 
   while (nextUrl) {
     const response = await fetch(nextUrl, {
-      headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+      headers: { Authorization: `Bearer ${accessToken}` },
     });
     const data = (await response.json()) as MetaApiResponse<MetaCatalogProduct[]>;
 
@@ -74,12 +82,12 @@ export async function getCatalogProducts(
 export async function getProductByRetailerId(
   retailerId: string
 ): Promise<MetaCatalogProduct | null> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/products?filter={"retailer_id":{"eq":"${retailerId}"}}&fields=id,retailer_id,availability,inventory`;
+  const url = `${META_BASE_URL}/${catalogId}/products?filter={"retailer_id":{"eq":"${retailerId}"}}&fields=id,retailer_id,availability,inventory`;
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
   const data = (await response.json()) as MetaApiResponse<MetaCatalogProduct[]>;
 
@@ -94,9 +102,9 @@ export async function getProductByRetailerId(
 export async function batchUpsertProducts(
   items: MetaBatchItem[]
 ): Promise<MetaBatchResponse> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/items_batch`;
+  const url = `${META_BASE_URL}/${catalogId}/items_batch`;
 
   const requestBody = {
     item_type: "PRODUCT_ITEM",
@@ -117,7 +125,7 @@ export async function batchUpsertProducts(
   const response = await fetch(url, {
     method: "POST",
     headers: {
-      Authorization: `Bearer ${META_ACCESS_TOKEN}`,
+      Authorization: `Bearer ${accessToken}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify(requestBody),
@@ -138,9 +146,9 @@ export async function batchUpsertProducts(
 export async function batchDeleteProducts(
   retailerIds: string[]
 ): Promise<MetaBatchResponse> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/items_batch`;
+  const url = `${META_BASE_URL}/${catalogId}/items_batch`;
 
   // For DELETE, we need to include the id in data (same as CREATE/UPDATE)
   const requestBody = {
@@ -161,7 +169,7 @@ export async function batchDeleteProducts(
   const response = await fetch(url, {
     method: "POST",
     headers: {
-      Authorization: `Bearer ${META_ACCESS_TOKEN}`,
+      Authorization: `Bearer ${accessToken}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify(requestBody),
@@ -179,6 +187,50 @@ export async function batchDeleteProducts(
   return result;
 }
 
+// Country and language overrides go through a separate endpoint from the base items
+export async function batchUpdateLocalizedItems(
+  items: MetaLocalizedItem[]
+): Promise<MetaBatchResponse> {
+  const { accessToken, catalogId } = getMetaConfig();
+
+  const url = `${META_BASE_URL}/${catalogId}/localized_items_batch`;
+
+  const requestBody = {
+    item_type: "PRODUCT_ITEM",
+    requests: items.map(item => ({
+      method: item.method,
+      data: {
+        id: item.retailer_id,
+        override_type: item.override_type,
+        override_value: item.override_value,
+        ...item.data,
+      },
+    })),
+  };
+
+  console.log(`Sending localized batch request to: ${url}`);
+  console.log(`Localized batch size: ${items.length} items`);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  const result = await response.json() as MetaBatchResponse;
+
+  console.log(`Localized batch response status: ${response.status}`);
+
+  if (!response.ok) {
+    console.error(`Meta API HTTP Error: ${response.status}`, JSON.stringify(result));
+  }
+
+  return result;
+}
+
 export async function updateProductStock(
   retailerId: string,
   availability: "in stock" | "out of stock" | "preorder",
@@ -215,14 +267,14 @@ export async function fetchCatalogState(): Promise<Map<string, MetaCatalogProduc
 }
 
 export async function getCatalogInfo(): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}?fields=id,name,product_count,vertical`;
+  const url = `${META_BASE_URL}/${catalogId}?fields=id,name,product_count,vertical`;
 
   console.log(`Fetching catalog info from: ${url}`);
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   const data = await response.json();
@@ -232,12 +284,12 @@ export async function getCatalogInfo(): Promise<any> {
 }
 
 export async function checkBatchStatus(handleId: string): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   const url = `${META_BASE_URL}/${handleId}`;
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   return response.json();
@@ -253,9 +305,9 @@ export async function testSingleProductCreate(testProduct: {
   image_link: string;
   brand: string;
 }): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/items_batch`;
+  const url = `${META_BASE_URL}/${catalogId}/items_batch`;
 
   const requestBody = {
     item_type: "PRODUCT_ITEM",
@@ -281,7 +333,7 @@ export async function testSingleProductCreate(testProduct: {
   const response = await fetch(url, {
     method: "POST",
     headers: {
-      Authorization: `Bearer ${META_ACCESS_TOKEN}`,
+      Authorization: `Bearer ${accessToken}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify(requestBody),
@@ -298,20 +350,20 @@ export async function testSingleProductCreate(testProduct: {
 }
 
 export async function getProductErrors(limit = 50): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   // Fetch products with errors from the catalog
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/product_groups?fields=retailer_id,errors&limit=${limit}`;
+  const url = `${META_BASE_URL}/${catalogId}/product_groups?fields=retailer_id,errors&limit=${limit}`;
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   return response.json();
 }
 
 export async function getProductDetails(retailerId: string): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   // Fetch product with all fields
   const fields = [
@@ -333,12 +385,12 @@ export async function getProductDetails(retailerId: string): Promise<any> {
     "google_product_category",
   ].join(",");
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/products?filter={"retailer_id":{"eq":"${retailerId}"}}&fields=${fields}`;
+  const url = `${META_BASE_URL}/${catalogId}/products?filter={"retailer_id":{"eq":"${retailerId}"}}&fields=${fields}`;
 
   console.log(`Fetching product details from: ${url}`);
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   const data = await response.json();
@@ -348,7 +400,7 @@ export async function getProductDetails(retailerId: string): Promise<any> {
 }
 
 export async function getProductsByGroupId(groupId: string): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   const fields = [
     "id",
@@ -369,12 +421,12 @@ export async function getProductsByGroupId(groupId: string): Promise<any> {
     "google_product_category",
   ].join(",");
 
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}/products?filter={"item_group_id":{"eq":"${groupId}"}}&fields=${fields}`;
+  const url = `${META_BASE_URL}/${catalogId}/products?filter={"item_group_id":{"eq":"${groupId}"}}&fields=${fields}`;
 
   console.log(`Fetching products by group from: ${url}`);
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   const data = await response.json();
@@ -384,21 +436,21 @@ export async function getProductsByGroupId(groupId: string): Promise<any> {
 }
 
 export async function checkCatalogDiagnostics(): Promise<any> {
-  validateConfig();
+  const { accessToken, catalogId } = getMetaConfig();
 
   // Check catalog diagnostics for any issues
-  const url = `${META_BASE_URL}/${META_CATALOG_ID}?fields=id,name,product_count,vertical,da_display_settings`;
+  const url = `${META_BASE_URL}/${catalogId}?fields=id,name,product_count,vertical,da_display_settings`;
 
   const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   const catalogInfo = await response.json();
 
   // Also check for product feed status
-  const feedsUrl = `${META_BASE_URL}/${META_CATALOG_ID}/product_feeds?fields=id,name,product_count,latest_upload`;
+  const feedsUrl = `${META_BASE_URL}/${catalogId}/product_feeds?fields=id,name,product_count,latest_upload`;
   const feedsResponse = await fetch(feedsUrl, {
-    headers: { Authorization: `Bearer ${META_ACCESS_TOKEN}` },
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
   const feedsInfo = await feedsResponse.json();
 
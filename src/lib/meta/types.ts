@@ -49,17 +49,41 @@ export interface MetaBatchItemData {
   link?: string;  // Meta uses 'link' not 'url'
   price?: string;  // Price includes currency (e.g., "10.00 BAM")
   sale_price?: string;  // Sale price with currency, empty string to clear
+  sale_price_effective_date?: string;  // ISO-8601 interval, empty string to clear
   brand?: string;
+  gtin?: string;
+  mpn?: string;
+  shipping_weight?: string;  // Weight with unit (e.g., "1.2 kg")
   condition?: "new" | "refurbished" | "used";
   item_group_id?: string;  // Groups variants together
   size?: string;
   color?: string;
+  gender?: string;  // "male" | "female" | "unisex"
+  age_group?: string;  // "adult" | "all ages" | "teen" | "kids" | "toddler" | "infant" | "newborn"
+  material?: string;
   product_type?: string;  // Category hierarchy (e.g., "Clothing > Shirts > T-Shirts")
   google_product_category?: string;  // Google product taxonomy
+  // Campaign labels for product sets, empty string to clear
+  custom_label_0?: string;
+  custom_label_1?: string;
+  custom_label_2?: string;
+  custom_label_3?: string;
+  custom_label_4?: string;
   // Multi-ratio images array (use this OR image_link, not both)
   image?: MetaImage[];
 }
 
+// Country (price/availability) or language (title/description) override of a catalog item
+export type MetaOverrideType = "country" | "language";
+
+export interface MetaLocalizedItem {
+  method: "UPDATE" | "DELETE";
+  retailer_id: string;
+  override_type: MetaOverrideType;
+  override_value: string;  // Country code ("HR") or locale ("hr_HR")
+  data: MetaBatchItemData;
+}
+
 export interface MetaBatchResponse {
   handles?: string[];
   validation_status?: Array<{
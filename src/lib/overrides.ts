@@ -0,0 +1,114 @@
+import type { WCProduct, MetaProduct } from "./types";
+import type { CountryOverride, LanguageOverride } from "./db/overrides";
+import { stripHtml } from "./woocommerce";
+
+/**
+ * Country and language overrides for Meta catalogs.
+ *
+ * The base feed stays in the store currency and language. Each configured
+ * country gets its own price (from a WooCommerce meta field or a fixed
+ * exchange rate) and each locale its own title/description (from meta fields).
+ * Items without a price or translation for a country/locale are left out, so
+ * Meta falls back to the base item for them.
+ */
+
+export type OverrideFeedType = "country" | "language";
+
+// Row of a country override feed (also the data sent to localized_items_batch)
+export interface CountryOverrideRow {
+  id: string;
+  override: string;
+  price: string;
+  sale_price?: string;
+  sale_price_effective_date?: string;
+  availability: MetaProduct["availability"];
+}
+
+export interface LanguageOverrideRow {
+  id: string;
+  override: string;
+  title?: string;
+  description?: string;
+}
+
+export const COUNTRY_OVERRIDE_COLUMNS = ["id", "override", "price", "sale_price", "sale_price_effective_date", "availability"];
+export const LANGUAGE_OVERRIDE_COLUMNS = ["id", "override", "title", "description"];
+
+function getMetaValue(product: WCProduct | undefined, key: string | null): string | undefined {
+  if (!product || !key) return undefined;
+  const value = product.meta_data?.find((m) => m.key === key)?.value;
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+// Meta field prices may use a decimal comma ("12,50")
+function parseAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const amount = parseFloat(value.replace(",", "."));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+function resolveAmount(
+  product: WCProduct,
+  basePrice: string,
+  metaKey: string | null,
+  override: CountryOverride
+): number | null {
+  if (override.price_source === "meta_field") {
+    const fromMeta = parseAmount(getMetaValue(product, metaKey));
+    if (fromMeta !== null) return fromMeta;
+  }
+  const base = parseAmount(basePrice);
+  return base !== null && override.exchange_rate ? base * override.exchange_rate : null;
+}
+
+// Price, sale price and availability of one feed item in one country
+export function buildCountryOverrideRow(
+  item: MetaProduct,
+  product: WCProduct,
+  override: CountryOverride
+): CountryOverrideRow | null {
+  const price = resolveAmount(product, product.regular_price || product.price, override.price_meta_key, override);
+  if (price === null) return null;
+
+  const row: CountryOverrideRow = {
+    id: item.id,
+    override: override.country,
+    price: formatAmount(price, override.currency),
+    availability: item.availability,
+  };
+
+  // Only where the base item publishes a sale, so the window stays in sync
+  if (item.sale_price) {
+    const salePrice = resolveAmount(product, product.sale_price, override.sale_price_meta_key, override);
+    if (salePrice !== null && salePrice < price) {
+      row.sale_price = formatAmount(salePrice, override.currency);
+      row.sale_price_effective_date = item.sale_price_effective_date;
+    }
+  }
+
+  return row;
+}
+
+// Translated title/description of one feed item; variations fall back to the parent's translation
+export function buildLanguageOverrideRow(
+  item: MetaProduct,
+  product: WCProduct,
+  parent: WCProduct | undefined,
+  override: LanguageOverride
+): LanguageOverrideRow | null {
+  const title = getMetaValue(product, override.title_meta_key) ?? getMetaValue(parent, override.title_meta_key);
+  const description = getMetaValue(product, override.description_meta_key)
+    ?? getMetaValue(parent, override.description_meta_key);
+  if (!title && !description) return null;
+
+  return {
+    id: item.id,
+    override: override.locale,
+    title,
+    description: description ? stripHtml(description).slice(0, 5000) : undefined,
+  };
+}
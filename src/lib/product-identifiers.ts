@@ -0,0 +1,66 @@
+import type { WCProduct, MetaProduct } from "./types";
+
+/**
+ * Product identifiers (GTIN, MPN), brand, condition and shipping weight.
+ *
+ * WooCommerce has no core GTIN/MPN fields; plugins keep them in meta_data
+ * under their own keys (e.g. "_wpm_gtin_code"), so each store names the keys
+ * to read. GTIN and MPN identify one purchasable item and are never inherited
+ * from a variable parent; brand, condition and weight fall back to it.
+ */
+
+export interface IdentifierMetaKeys {
+  gtin: string | null;
+  mpn: string | null;
+  brand: string | null;
+  condition: string | null;
+}
+
+export type ResolvedIdentifiers = Partial<Pick<MetaProduct, "gtin" | "mpn" | "brand" | "condition" | "shipping_weight">>;
+
+export const WEIGHT_UNITS = ["kg", "g", "lbs", "oz"] as const;
+
+// Meta expects "lb" where WooCommerce says "lbs"
+const META_WEIGHT_UNITS: Record<string, string> = { kg: "kg", g: "g", lbs: "lb", oz: "oz" };
+
+const CONDITIONS: MetaProduct["condition"][] = ["new", "refurbished", "used"];
+
+function readMeta(product: WCProduct | undefined, key: string | null): string | undefined {
+  if (!product || !key) return undefined;
+  const value = product.meta_data?.find((m) => m.key === key)?.value;
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+// GTIN-8/12/13/14 digits only; anything else would be rejected by Meta
+export function normalizeGtin(value: string | undefined): string | undefined {
+  const digits = value?.replace(/[\s-]/g, "");
+  return digits && /^(\d{8}|\d{12,14})$/.test(digits) ? digits : undefined;
+}
+
+function normalizeCondition(value: string | undefined): MetaProduct["condition"] | undefined {
+  const condition = value?.toLowerCase() as MetaProduct["condition"] | undefined;
+  return condition && CONDITIONS.includes(condition) ? condition : undefined;
+}
+
+export function formatShippingWeight(weight: string | undefined, unit: string): string | undefined {
+  const amount = parseFloat((weight || "").replace(",", "."));
+  if (!Number.isFinite(amount) || amount <= 0) return undefined;
+  return `${amount} ${META_WEIGHT_UNITS[unit] ?? unit}`;
+}
+
+export function resolveIdentifiers(
+  product: WCProduct,
+  parent: WCProduct | undefined,
+  keys: IdentifierMetaKeys,
+  weightUnit: string
+): ResolvedIdentifiers {
+  return {
+    gtin: normalizeGtin(readMeta(product, keys.gtin)),
+    mpn: readMeta(product, keys.mpn),
+    brand: readMeta(product, keys.brand) ?? readMeta(parent, keys.brand),
+    condition: normalizeCondition(readMeta(product, keys.condition) ?? readMeta(parent, keys.condition)),
+    shipping_weight: formatShippingWeight(product.weight || parent?.weight, weightUnit),
+  };
+}
@@ -0,0 +1,68 @@
+import type { WCProduct } from "./types";
+
+/**
+ * Scheduled sale windows.
+ *
+ * WooCommerce returns the configured sale_price even before a scheduled sale
+ * starts, so the feed has to carry the window (sale_price_effective_date) and
+ * the price shown inside generated images has to follow it.
+ */
+
+// Open-ended windows still need both ends in Meta's interval format
+const OPEN_START = "1970-01-01T00:00:00+00:00";
+const OPEN_END = "2099-12-31T23:59:59+00:00";
+
+// GMT sale date in WooCommerce's format ("2026-11-27T00:00:00"), preferring the *_gmt field
+export function getSaleDateGmt(product: WCProduct, end: "from" | "to"): string | null {
+  const value = end === "from"
+    ? product.date_on_sale_from_gmt ?? product.date_on_sale_from
+    : product.date_on_sale_to_gmt ?? product.date_on_sale_to;
+  return value ? value.slice(0, 19) : null;
+}
+
+function toTimestamp(gmtDate: string): number {
+  return Date.parse(`${gmtDate}Z`);
+}
+
+function toIsoWithOffset(gmtDate: string): string {
+  return new Date(toTimestamp(gmtDate)).toISOString().replace(/\.\d{3}Z$/, "+00:00");
+}
+
+// Same format as the stored sale dates, for range queries against the cache
+export function toGmtDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19);
+}
+
+export function hasSalePrice(product: WCProduct): boolean {
+  return !!product.sale_price && product.sale_price !== "";
+}
+
+export function isSaleScheduled(product: WCProduct): boolean {
+  return !!(getSaleDateGmt(product, "from") || getSaleDateGmt(product, "to"));
+}
+
+// True when the product has a sale price and now is inside its window (or it has none)
+export function isSaleActive(product: WCProduct, now = Date.now()): boolean {
+  if (!hasSalePrice(product)) return false;
+
+  const from = getSaleDateGmt(product, "from");
+  const to = getSaleDateGmt(product, "to");
+  if (from && now < toTimestamp(from)) return false;
+  if (to && now >= toTimestamp(to)) return false;
+  return true;
+}
+
+// True once the window has closed; the sale price must no longer be published
+export function isSaleExpired(product: WCProduct, now = Date.now()): boolean {
+  const to = getSaleDateGmt(product, "to");
+  return !!to && now >= toTimestamp(to);
+}
+
+// ISO-8601 interval for sale_price_effective_date, undefined for unscheduled sales
+export function formatSaleEffectiveDate(product: WCProduct): string | undefined {
+  if (!hasSalePrice(product) || !isSaleScheduled(product)) return undefined;
+
+  const from = getSaleDateGmt(product, "from");
+  const to = getSaleDateGmt(product, "to");
+  return `${from ? toIsoWithOffset(from) : OPEN_START}/${to ? toIsoWithOffset(to) : OPEN_END}`;
+}
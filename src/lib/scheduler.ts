@@ -0,0 +1,132 @@
+import { getStoreById } from "./db/stores";
+import { getFeedStyleByName } from "./db/feed-styles";
+import {
+  failInterruptedJobRuns,
+  finishJobRun,
+  getDueScheduledJobs,
+  startJobRun,
+  type JobRunRow,
+  type ScheduledJobRow,
+} from "./db/jobs";
+import { writeAllFeedFiles, writeFeedFiles, writeOverrideFeedFiles } from "./csv-generator";
+import { isDeltaSyncRunning, performDeltaSync } from "./sync/delta-sync";
+import { performInitialSync } from "./sync/initial-sync";
+import { applyFeedRulesToMeta } from "./sync/feed-rules";
+import { syncOverridesToMeta } from "./sync/overrides";
+import { runWithStore } from "./store-context";
+
+/**
+ * Cron-scheduled jobs stored in scheduled_jobs, per store. The scheduler
+ * checks for due jobs every SCHEDULER_INTERVAL_MS and runs them in their
+ * store; every run, scheduled or started from the Dashboard, is kept in
+ * job_runs with its duration and outcome.
+ */
+
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || "30000");
+
+// Jobs with a run in progress; a job never overlaps itself
+const running = new Set<number>();
+
+export function isJobRunning(jobId: number): boolean {
+  return running.has(jobId);
+}
+
+// Do the job's work in the current store, returning a one-line summary
+async function executeJob(job: ScheduledJobRow): Promise<string> {
+  switch (job.type) {
+    case "generate_feeds": {
+      let styles: number;
+      if (job.style) {
+        const style = getFeedStyleByName(job.style);
+        if (!style) throw new Error(`Unknown style "${job.style}"`);
+        await writeFeedFiles(style);
+        styles = 1;
+      } else {
+        styles = Object.keys(await writeAllFeedFiles()).length;
+      }
+      const overrides = Object.keys(await writeOverrideFeedFiles());
+      return `Feeds generated for ${styles} style(s)${overrides.length ? `, overrides: ${overrides.join(", ")}` : ""}`;
+    }
+    case "delta_sync": {
+      if (isDeltaSyncRunning()) throw new Error("Delta sync already running");
+      const report = await performDeltaSync();
+      return `${report.changed} changed, ${report.synced} synced, ${report.skipped} skipped, ${report.errors} errors`;
+    }
+    case "full_sync": {
+      const report = await performInitialSync();
+      return `${report.totalProducts} products, ${report.synced} synced, ${report.skipped} skipped, ${report.errors} errors`;
+    }
+    case "reconcile": {
+      // Bring Meta back in line with the feed rules and country/language overrides
+      const rules = await applyFeedRulesToMeta();
+      const overrides = await syncOverridesToMeta();
+      return `Feed rules: ${rules.withdrawn} withdrawn, ${rules.restored} restored; ` +
+        `overrides: ${overrides.country} country, ${overrides.language} language; ` +
+        `${rules.errors + overrides.errors} errors`;
+    }
+  }
+}
+
+// Start a run of the job in its store. Returns the run as recorded at the
+// start; `done` settles when the job finishes (it never rejects).
+export function startJob(
+  job: ScheduledJobRow,
+  triggeredBy: JobRunRow["triggered_by"]
+): { run: JobRunRow; done: Promise<void> } {
+  const store = getStoreById(job.store_id);
+  if (!store) {
+    throw new Error(`Store "${job.store_id}" not found`);
+  }
+  if (running.has(job.id)) {
+    throw new Error(`Job "${job.name}" is already running`);
+  }
+
+  running.add(job.id);
+  const run = startJobRun(job, triggeredBy, new Date());
+  console.log(`Job "${job.name}" (${job.type}, ${store.id}) started`);
+
+  const done = runWithStore(store, () => executeJob(job))
+    .then((summary) => {
+      finishJobRun(run, "success", summary);
+      console.log(`Job "${job.name}" finished: ${summary}`);
+    })
+    .catch((error) => {
+      finishJobRun(run, "error", error instanceof Error ? error.message : String(error));
+      console.error(`Job "${job.name}" failed:`, error);
+    })
+    .finally(() => running.delete(job.id));
+
+  return { run, done };
+}
+
+async function runDueJobs(): Promise<void> {
+  for (const job of getDueScheduledJobs(new Date())) {
+    const store = getStoreById(job.store_id);
+    if (!store?.active || running.has(job.id)) continue;
+    try {
+      // One job at a time: syncs and generation share the WooCommerce and Meta rate limits
+      await startJob(job, "schedule").done;
+    } catch (error) {
+      console.error(`Scheduler error (job ${job.id}):`, error);
+    }
+  }
+}
+
+export function startJobScheduler(intervalMs = SCHEDULER_INTERVAL_MS): void {
+  const interrupted = failInterruptedJobRuns();
+  if (interrupted > 0) {
+    console.log(`Marked ${interrupted} interrupted job runs as failed`);
+  }
+
+  console.log(`Job scheduler checking every ${Math.round(intervalMs / 1000)}s`);
+  let ticking = false;
+  setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueJobs();
+    } finally {
+      ticking = false;
+    }
+  }, intervalMs);
+}
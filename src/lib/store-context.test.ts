@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { scopeRoutesToStore } from "./store-context";
+import { createSession } from "./auth/session";
+
+type Handler = (req: Request, server: unknown) => Promise<Response> | Response;
+
+const ok = () => new Response("ok");
+const routes = scopeRoutesToStore({
+  "/api/stores/:id": { PUT: ok },
+  "/api/feed-versions/diff": ok,
+  "/api/auth/login": { POST: ok },
+  "/api/webhooks/woocommerce": { POST: ok },
+  "/product_catalog_standard.csv": ok,
+}) as unknown as Record<string, Handler | Record<string, Handler>>;
+
+function call(route: string, method: string, cookie?: string): Promise<Response> {
+  const entry = routes[route]!;
+  const handler = typeof entry === "function" ? entry : entry[method]!;
+  const req = new Request(`http://localhost${route}`, { method, headers: cookie ? { Cookie: cookie } : {} });
+  return Promise.resolve(handler(req, null));
+}
+
+describe("scopeRoutesToStore session check", () => {
+  test("admin API routes need a signed-in session", async () => {
+    expect((await call("/api/stores/:id", "PUT")).status).toBe(401);
+    expect((await call("/api/feed-versions/diff", "GET")).status).toBe(401);
+    expect((await call("/api/stores/:id", "PUT", "session=not-a-session")).status).toBe(401);
+
+    const cookie = `session=${createSession()}`;
+    expect((await call("/api/stores/:id", "PUT", cookie)).status).toBe(200);
+    expect((await call("/api/feed-versions/diff", "GET", cookie)).status).toBe(200);
+  });
+
+  test("sign-in, WooCommerce webhooks and feed files stay open", async () => {
+    expect((await call("/api/auth/login", "POST")).status).toBe(200);
+    expect((await call("/api/webhooks/woocommerce", "POST")).status).toBe(200);
+    expect((await call("/product_catalog_standard.csv", "GET")).status).toBe(200);
+  });
+});
@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Serve } from "bun";
+import { DEFAULT_STORE_ID, getDefaultStore, getStoreById, type Store } from "./db/stores";
+import { isSessionRequired, requireSession } from "./auth/session";
+
+/**
+ * The store the current request or job works on.
+ *
+ * Store-scoped DB helpers, the WooCommerce client and the Meta client all read
+ * it from here instead of taking a store argument. API routes get it from the
+ * X-Store-Id header or ?store= parameter (see scopeRoutesToStore), background
+ * jobs wrap each store's run in runWithStore. Without either, the default
+ * store is used.
+ */
+
+const storage = new AsyncLocalStorage<Store>();
+
+export function runWithStore<T>(store: Store, fn: () => T): T {
+  return storage.run(store, fn);
+}
+
+// Current store, or null when none is configured at all
+export function findCurrentStore(): Store | null {
+  return storage.getStore() ?? getDefaultStore();
+}
+
+export function getCurrentStore(): Store {
+  const store = findCurrentStore();
+  if (!store) {
+    throw new Error("No store configured. Set WC_API_URL, WC_CONSUMER_KEY and WC_CONSUMER_SECRET or add a store.");
+  }
+  return store;
+}
+
+// Never throws - rows written without any configured store land under the default id
+export function getCurrentStoreId(): string {
+  return findCurrentStore()?.id ?? DEFAULT_STORE_ID;
+}
+
+// Store named by the request, undefined when it names none, null when it names an unknown one
+export function resolveRequestStore(req: Request): Store | null | undefined {
+  const storeId = req.headers.get("x-store-id") || new URL(req.url).searchParams.get("store");
+  if (!storeId) return undefined;
+  return getStoreById(storeId);
+}
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
+
+type RouteHandler = (req: Request, server: unknown) => unknown;
+
+function scopeHandler(handler: RouteHandler, route: string): RouteHandler {
+  const guarded = isSessionRequired(route);
+  return (req, server) => {
+    if (guarded) {
+      const unauthorized = requireSession(req);
+      if (unauthorized) return unauthorized;
+    }
+    const store = resolveRequestStore(req);
+    if (store === null) {
+      return Response.json({ error: "Unknown store" }, { status: 404 });
+    }
+    return store ? runWithStore(store, () => handler(req, server)) : handler(req, server);
+  };
+}
+
+// Wraps every route handler so it runs in the store the request names. Admin
+// API routes also require a signed-in session (see isSessionRequired).
+export function scopeRoutesToStore<R extends string>(
+  routes: Serve.Routes<undefined, R>
+): Serve.Routes<undefined, R> {
+  const scoped: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(routes)) {
+    if (typeof value === "function") {
+      scoped[path] = scopeHandler(value as RouteHandler, path);
+    } else if (value && typeof value === "object" && Object.keys(value).some((k) => HTTP_METHODS.includes(k))) {
+      const methods: Record<string, unknown> = {};
+      for (const [method, handler] of Object.entries(value)) {
+        methods[method] = typeof handler === "function" ? scopeHandler(handler as RouteHandler, path) : handler;
+      }
+      scoped[path] = methods;
+    } else {
+      // HTML bundles, static Responses, files
+      scoped[path] = value;
+    }
+  }
+  return scoped as Serve.Routes<undefined, R>;
+}
@@ -0,0 +1,34 @@
+// Dashboard-side store selection. The chosen store is remembered in
+// localStorage and sent as X-Store-Id with every store-scoped API call.
+
+const STORAGE_KEY = "selectedStoreId";
+const DEFAULT_STORE_ID = "default";
+
+export function getSelectedStoreId(): string {
+  return localStorage.getItem(STORAGE_KEY) || DEFAULT_STORE_ID;
+}
+
+export function setSelectedStoreId(storeId: string): void {
+  localStorage.setItem(STORAGE_KEY, storeId);
+}
+
+export function storeFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set("X-Store-Id", getSelectedStoreId());
+  return fetch(input, { ...init, headers });
+}
+
+function storePrefix(storeId: string): string {
+  return storeId === DEFAULT_STORE_ID ? "" : `/stores/${storeId}`;
+}
+
+// Public URL of a generated catalog, mirrors getFeedUrlPath on the server
+export function getCatalogUrl(storeId: string, styleName: string): string {
+  return `${storePrefix(storeId)}/product_catalog_${styleName}.csv`;
+}
+
+// Google XML, TikTok and Pinterest feeds, mirrors getFormatFeedFileName on the server
+export function getChannelFeedUrl(storeId: string, channel: "google" | "tiktok" | "pinterest", styleName: string): string {
+  const extension = channel === "google" ? "xml" : "csv";
+  return `${storePrefix(storeId)}/feeds/${channel}_${styleName}.${extension}`;
+}
@@ -0,0 +1,11 @@
+import { fetchAllProducts } from "../woocommerce";
+import { bulkUpsertCategories, type WCCategory } from "../db/categories";
+
+// Fetch the full WooCommerce category tree into SQLite (mappings are preserved)
+export async function syncCategories(): Promise<number> {
+  console.log("Fetching product categories from WooCommerce...");
+  const categories = await fetchAllProducts<WCCategory>("/products/categories");
+  bulkUpsertCategories(categories);
+  console.log(`Stored ${categories.length} categories`);
+  return categories.length;
+}
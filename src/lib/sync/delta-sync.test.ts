@@ -0,0 +1,110 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { performDeltaSync } from "./delta-sync";
+import { getSyncState, setSyncState } from "../db/sync-state";
+import { getSyncStatusByProductId } from "../db/sync-status";
+import { createStore } from "../db/stores";
+import { runWithStore } from "../store-context";
+import type { WCProduct } from "../types";
+
+const MARK_KEY = "delta_sync_modified_after";
+const START = "2026-01-01T00:00:00";
+
+// Products the fake store lists as modified, oldest first
+let modified: WCProduct[] = [];
+
+// Fake WooCommerce: the product list, and a variations endpoint that always fails
+// (404, so the client doesn't retry)
+const woocommerce = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const { pathname } = new URL(req.url);
+    if (pathname === "/wp-json/wc/v3/products") {
+      return Response.json(modified, { headers: { "X-WP-Total": String(modified.length), "X-WP-TotalPages": "1" } });
+    }
+    return new Response("Not found", { status: 404 });
+  },
+});
+afterAll(() => woocommerce.stop());
+
+const store = createStore("delta", {
+  name: "Delta",
+  wc_api_url: woocommerce.url.origin,
+  wc_consumer_key: "ck",
+  wc_consumer_secret: "cs",
+});
+
+function product(id: number, modifiedAt: string, fields: Partial<WCProduct> = {}): WCProduct {
+  return {
+    id,
+    name: `Product ${id}`,
+    slug: `product-${id}`,
+    permalink: `https://shop.test/product-${id}`,
+    type: "simple",
+    status: "publish",
+    description: "A product",
+    short_description: "",
+    sku: `SKU-${id}`,
+    price: "10",
+    regular_price: "10",
+    sale_price: "",
+    date_on_sale_from: null,
+    date_on_sale_to: null,
+    date_modified_gmt: modifiedAt,
+    // Out of stock and never sent to Meta: synced without calling Meta
+    stock_status: "outofstock",
+    stock_quantity: 0,
+    images: [],
+    attributes: [],
+    variations: [],
+    parent_id: 0,
+    categories: [],
+    ...fields,
+  };
+}
+
+function runDeltaSync() {
+  return runWithStore(store, () => {
+    setSyncState(MARK_KEY, START);
+    return performDeltaSync();
+  });
+}
+
+const markAfterRun = () => runWithStore(store, () => getSyncState(MARK_KEY));
+
+describe("performDeltaSync high-water mark", () => {
+  test("advances past every product when all of them sync", async () => {
+    modified = [product(1, "2026-01-01T00:00:01"), product(2, "2026-01-01T00:00:02")];
+    const report = await runDeltaSync();
+    expect(report.errors).toBe(0);
+    expect(markAfterRun()).toBe("2026-01-01T00:00:02");
+  });
+
+  test("stops before a variable product whose variations can't be fetched", async () => {
+    modified = [
+      product(11, "2026-01-01T00:00:01"),
+      product(12, "2026-01-01T00:00:02", { type: "variable", variations: [121, 122] }),
+      product(13, "2026-01-01T00:00:03"),
+    ];
+    const report = await runDeltaSync();
+    expect(report.errors).toBeGreaterThan(0);
+    expect(report.rejected).toBe(0);
+    expect(markAfterRun()).toBe("2026-01-01T00:00:01");
+  });
+
+  test("passes a product rejected on its data, which is recorded as an error", async () => {
+    modified = [
+      product(21, "2026-01-01T00:00:01"),
+      // In stock without an image: the feed validator refuses it before Meta is called
+      product(22, "2026-01-01T00:00:02", { stock_status: "instock", stock_quantity: 3 }),
+      product(23, "2026-01-01T00:00:03"),
+    ];
+    const report = await runDeltaSync();
+    expect(report.errors).toBe(1);
+    expect(report.rejected).toBe(1);
+    expect(markAfterRun()).toBe("2026-01-01T00:00:03");
+
+    const status = runWithStore(store, () => getSyncStatusByProductId(22));
+    expect(status?.sync_status).toBe("error");
+    expect(status?.last_error).toContain("image_link");
+  });
+});
@@ -0,0 +1,154 @@
+import { iterateProductPages } from "../woocommerce";
+import { getSyncState, setSyncState } from "../db/sync-state";
+import { toGmtDate } from "../sale-window";
+import { syncSingleProduct, syncVariableProduct } from "./product-sync";
+import type { WCProduct } from "../types";
+import { getActiveStores } from "../db/stores";
+import { getCurrentStoreId, runWithStore } from "../store-context";
+
+// Catches up on changes missed while the server was down or webhooks were dropped
+const DELTA_SYNC_INTERVAL_MS = parseInt(process.env.DELTA_SYNC_INTERVAL_MS || "0");
+const HIGH_WATER_MARK_KEY = "delta_sync_modified_after";
+
+// First run without a mark only looks back this far
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Re-read a little before the mark so products saved in the same second aren't missed
+const OVERLAP_MS = 1000;
+
+export interface DeltaSyncReport {
+  startedAt: Date;
+  completedAt?: Date;
+  modifiedAfter: string;
+  highWaterMark: string;
+  changed: number;
+  synced: number;
+  skipped: number;
+  // Failures, and those among them rejected on the item's data (recorded, not retried)
+  errors: number;
+  rejected: number;
+}
+
+// Stores with a delta sync in progress
+const running = new Set<string>();
+
+export function isDeltaSyncRunning(): boolean {
+  return running.has(getCurrentStoreId());
+}
+
+// Full syncs reset the mark so the next delta starts where they began
+export function setDeltaSyncMark(gmtDate: string): void {
+  setSyncState(HIGH_WATER_MARK_KEY, gmtDate);
+}
+
+export async function performDeltaSync(): Promise<DeltaSyncReport> {
+  const storeId = getCurrentStoreId();
+  if (running.has(storeId)) {
+    throw new Error("Delta sync already running");
+  }
+  running.add(storeId);
+
+  try {
+    const mark = getSyncState(HIGH_WATER_MARK_KEY);
+    const modifiedAfter = mark
+      ? toGmtDate(Date.parse(`${mark}Z`) - OVERLAP_MS)
+      : toGmtDate(Date.now() - DEFAULT_LOOKBACK_MS);
+
+    const report: DeltaSyncReport = {
+      startedAt: new Date(),
+      modifiedAfter,
+      highWaterMark: mark ?? modifiedAfter,
+      changed: 0,
+      synced: 0,
+      skipped: 0,
+      errors: 0,
+      rejected: 0,
+    };
+
+    console.log(`Delta sync: fetching products modified after ${modifiedAfter} (GMT)...`);
+
+    // Every status and stock state - drafts and out-of-stock items must be withdrawn too
+    const pages = iterateProductPages("/products", {
+      modified_after: modifiedAfter,
+      dates_are_gmt: "true",
+      status: "any",
+      orderby: "modified",
+      order: "asc",
+    });
+
+    // Products come oldest first, so the mark stops at the first failure worth
+    // retrying and the next run starts there (products after it are synced again,
+    // harmlessly). Rejected items don't hold it: they stay rejected until edited.
+    let failed = false;
+    for await (const page of pages) {
+      for (const product of page) {
+        report.changed++;
+        if (await syncChangedProduct(product, report)) failed = true;
+
+        if (!failed && product.date_modified_gmt && product.date_modified_gmt > report.highWaterMark) {
+          report.highWaterMark = product.date_modified_gmt.slice(0, 19);
+        }
+      }
+    }
+
+    // Only advance once every changed product has been through the sync paths
+    setSyncState(HIGH_WATER_MARK_KEY, report.highWaterMark);
+
+    report.completedAt = new Date();
+    console.log("Delta sync completed:", report);
+    return report;
+  } finally {
+    running.delete(storeId);
+  }
+}
+
+// Whether the product failed in a way a later run should retry
+async function syncChangedProduct(product: WCProduct, report: DeltaSyncReport): Promise<boolean> {
+  // Unpublished products are treated like out-of-stock ones so they leave the catalog
+  const unpublished = product.status !== "publish";
+
+  if (product.type === "variable" && product.variations.length > 0) {
+    const result = await syncVariableProduct(product, unpublished);
+    report.synced += result.synced;
+    report.errors += result.errors;
+    report.rejected += result.rejected;
+    return !result.success && result.errors > result.rejected;
+  }
+
+  const result = await syncSingleProduct(
+    unpublished ? { ...product, stock_status: "outofstock" } : product
+  );
+  if (!result.success) {
+    report.errors++;
+    if (result.action === "rejected") {
+      report.rejected++;
+      console.warn(`Delta sync: product ${product.id} rejected:`, result.error);
+      return false;
+    }
+    console.error(`Delta sync failed for product ${product.id}:`, result.error);
+    return true;
+  } else if (result.action === "skipped") {
+    report.skipped++;
+  } else {
+    report.synced++;
+  }
+  return false;
+}
+
+export function startDeltaSyncScheduler(intervalMs = DELTA_SYNC_INTERVAL_MS): void {
+  if (intervalMs <= 0) {
+    console.log("Delta sync scheduler disabled (set DELTA_SYNC_INTERVAL_MS to enable)");
+    return;
+  }
+
+  console.log(`Delta sync scheduler running every ${Math.round(intervalMs / 1000)}s`);
+  setInterval(async () => {
+    for (const store of getActiveStores()) {
+      if (running.has(store.id)) continue;
+      try {
+        await runWithStore(store, () => performDeltaSync());
+      } catch (error) {
+        console.error(`Delta sync scheduler error (${store.id}):`, error);
+      }
+    }
+  }, intervalMs);
+}
@@ -0,0 +1,85 @@
+import { mapToMetaProduct } from "../woocommerce";
+import { getProductById, getProductsInCatalog, rowToWCProduct } from "../db/products";
+import { markSynced, markError } from "../db/sync-status";
+import { createBatchItem } from "../meta/catalog";
+import { batchUpsertProducts } from "../meta/client";
+import { loadMappingContext } from "../mapping-context";
+import { isIncludedInFeed } from "../feed-rules";
+import type { MetaBatchItem } from "../meta/types";
+import type { WCProduct } from "../types";
+
+export interface FeedRulesReport {
+  checked: number;
+  withdrawn: number;
+  restored: number;
+  errors: number;
+}
+
+const BATCH_SIZE = 1000;
+
+// Bring catalog items in line with the current feed rules: items the rules now
+// exclude are marked out of stock, in-stock items they no longer exclude come back
+export async function applyFeedRulesToMeta(): Promise<FeedRulesReport> {
+  const report: FeedRulesReport = { checked: 0, withdrawn: 0, restored: 0, errors: 0 };
+  const context = loadMappingContext();
+  const parents = new Map<number, WCProduct | undefined>();
+  const items: MetaBatchItem[] = [];
+
+  for (const row of getProductsInCatalog()) {
+    report.checked++;
+    const product = rowToWCProduct(row);
+
+    let parent: WCProduct | undefined;
+    if (row.parent_id > 0) {
+      if (!parents.has(row.parent_id)) {
+        const parentRow = getProductById(row.parent_id);
+        parents.set(row.parent_id, parentRow ? rowToWCProduct(parentRow) : undefined);
+      }
+      parent = parents.get(row.parent_id);
+    }
+
+    const included = isIncludedInFeed(product, parent, context)
+      && (!parent || isIncludedInFeed(parent, undefined, context));
+    const metaProduct = mapToMetaProduct(product, parent, context);
+
+    if (!included && row.last_availability !== "out of stock") {
+      items.push(createBatchItem({ ...metaProduct, availability: "out of stock", inventory: 0 }, true));
+      report.withdrawn++;
+    } else if (included && row.stock_status === "instock" && row.last_availability === "out of stock") {
+      items.push(createBatchItem(metaProduct, true));
+      report.restored++;
+    }
+  }
+
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const chunk = items.slice(i, i + BATCH_SIZE);
+    try {
+      const result = await batchUpsertProducts(chunk);
+      if (result.error) {
+        for (const item of chunk) markError(item.retailer_id, result.error.message);
+        report.errors += chunk.length;
+        continue;
+      }
+
+      for (const item of chunk) {
+        const validationError = result.validation_status?.find(
+          (v) => v.retailer_id === item.retailer_id && v.errors?.length
+        );
+        if (validationError?.errors?.length) {
+          markError(item.retailer_id, validationError.errors.map((e) => e.message).join(", "));
+          report.errors++;
+        } else {
+          markSynced(item.retailer_id, item.data.availability || "in stock", item.data.inventory ?? null);
+        }
+      }
+    } catch (error) {
+      console.error("Feed rule batch failed:", error);
+      report.errors += chunk.length;
+    }
+  }
+
+  console.log(
+    `Feed rules applied: ${report.checked} checked, ${report.withdrawn} withdrawn, ${report.restored} restored, ${report.errors} errors`
+  );
+  return report;
+}
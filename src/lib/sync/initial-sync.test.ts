@@ -0,0 +1,136 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { performInitialSync } from "./initial-sync";
+import { getSyncState } from "../db/sync-state";
+import { createStore } from "../db/stores";
+import { runWithStore } from "../store-context";
+import { toGmtDate } from "../sale-window";
+import type { WCProduct } from "../types";
+
+const MARK_KEY = "delta_sync_modified_after";
+
+let listed: WCProduct[] = [];
+let variations: Record<number, WCProduct[]> = {};
+let batchError: string | null = null;
+let batchRequests = 0;
+// Items sent to Meta, by retailer id
+let pushed: Record<string, { method: string; data: Record<string, unknown> }> = {};
+
+// Fake WooCommerce: in-stock products with their variations, an empty category tree
+const woocommerce = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const { pathname } = new URL(req.url);
+    const pages = { "X-WP-TotalPages": "1" };
+    if (pathname === "/wp-json/wc/v3/products") return Response.json(listed, { headers: pages });
+    if (pathname === "/wp-json/wc/v3/products/categories") return Response.json([], { headers: pages });
+    const variationsOf = pathname.match(/^\/wp-json\/wc\/v3\/products\/(\d+)\/variations$/);
+    if (variationsOf) return Response.json(variations[Number(variationsOf[1])] ?? [], { headers: pages });
+    return new Response("Not found", { status: 404 });
+  },
+});
+
+// Fake Graph API: an empty catalog, and a batch endpoint that fails on demand
+const meta = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const { pathname } = new URL(req.url);
+    if (pathname.endsWith("/products")) return Response.json({ data: [] });
+    if (pathname.endsWith("/items_batch")) {
+      batchRequests++;
+      const { requests } = (await req.json()) as { requests: { retailer_id: string; method: string; data: Record<string, unknown> }[] };
+      for (const { retailer_id, method, data } of requests) pushed[retailer_id] = { method, data };
+      return batchError
+        ? Response.json({ error: { message: batchError } }, { status: 500 })
+        : Response.json({ handles: ["handle"] });
+    }
+    return new Response("Not found", { status: 404 });
+  },
+});
+
+const realFetch = globalThis.fetch;
+const fetchSpy = spyOn(globalThis, "fetch").mockImplementation(((input: string | URL | Request, init?: RequestInit) => {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  return realFetch(url.replace("https://graph.facebook.com/v21.0", meta.url.origin), init);
+}) as typeof fetch);
+
+afterAll(() => {
+  fetchSpy.mockRestore();
+  woocommerce.stop();
+  meta.stop();
+});
+
+const store = createStore("initial", {
+  name: "Initial",
+  wc_api_url: woocommerce.url.origin,
+  wc_consumer_key: "ck",
+  wc_consumer_secret: "cs",
+  meta_catalog_id: "catalog",
+  meta_access_token: "token",
+});
+
+function product(id: number, modifiedAt: string, fields: Partial<WCProduct> = {}): WCProduct {
+  return {
+    id,
+    name: `Product ${id}`,
+    slug: `product-${id}`,
+    permalink: `https://shop.test/product-${id}`,
+    type: "simple",
+    status: "publish",
+    description: "A product",
+    short_description: "",
+    sku: `SKU-${id}`,
+    price: "10",
+    regular_price: "10",
+    sale_price: "",
+    date_on_sale_from: null,
+    date_on_sale_to: null,
+    date_modified_gmt: modifiedAt,
+    stock_status: "instock",
+    stock_quantity: 5,
+    images: [{ id, src: `https://shop.test/${id}.jpg` }],
+    attributes: [],
+    variations: [],
+    parent_id: 0,
+    categories: [],
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  listed = [product(1, "2025-06-01T10:00:00"), product(2, "2025-03-01T10:00:00")];
+  variations = {};
+  batchError = null;
+  batchRequests = 0;
+  pushed = {};
+});
+
+describe("performInitialSync delta sync mark", () => {
+  test("starts delta syncs at the start of the run when every push succeeds", async () => {
+    const report = await runWithStore(store, () => performInitialSync());
+    expect(batchRequests).toBe(1);
+    expect(report.synced).toBe(2);
+    expect(runWithStore(store, () => getSyncState(MARK_KEY))).toBe(toGmtDate(report.startedAt.getTime()));
+  });
+
+  test("goes back to the oldest product of a failed push", async () => {
+    batchError = "Service temporarily unavailable";
+    const report = await runWithStore(store, () => performInitialSync());
+    expect(report.errors).toBe(2);
+    expect(runWithStore(store, () => getSyncState(MARK_KEY))).toBe("2025-03-01T10:00:00");
+  });
+});
+
+test("pushes variations mapped from the cache with their parent", async () => {
+  listed = [product(3, "2025-06-01T10:00:00", { name: "Shirt", type: "variable", variations: [31, 32] })];
+  variations = {
+    3: [
+      product(31, "2025-06-01T10:00:00", { name: "Shirt - Red", price: "12", regular_price: "12" }),
+      product(32, "2025-06-01T10:00:00", { name: "Shirt - Blue", stock_status: "outofstock", stock_quantity: 0 }),
+    ],
+  };
+  const report = await runWithStore(store, () => performInitialSync());
+  expect(report).toMatchObject({ totalProducts: 1, inStock: 1, synced: 1, created: 1, errors: 0 });
+  expect(Object.keys(pushed)).toEqual(["wc_31"]);
+  // Parent title and group, variation price
+  expect(pushed.wc_31).toMatchObject({ method: "CREATE", data: { title: "Shirt", item_group_id: "wc_3", price: "12 BAM" } });
+});
@@ -1,11 +1,17 @@
-import { fetchAllProducts, fetchWooCommerce, mapToMetaProduct } from "../woocommerce";
-import { bulkUpsertProducts, upsertProduct, getProductById } from "../db/products";
+import { iterateProductPages, fetchProductVariations, mapToMetaProduct } from "../woocommerce";
+import { bulkUpsertProducts, upsertProduct, getProductById, recordVariationCount, rowToWCProduct } from "../db/products";
 import { upsertSyncStatus, markSynced } from "../db/sync-status";
 import { batchSyncProducts, createBatchItem } from "../meta/catalog";
 import { fetchCatalogState, batchUpsertProducts } from "../meta/client";
 import { generateMetaRetailerId } from "../utils/retailer-id";
 import type { WCProduct, MetaProduct } from "../types";
 import type { MetaBatchItem } from "../meta/types";
+import { loadMappingContext, type MappingContext } from "../mapping-context";
+import { syncCategories } from "./categories";
+import { setDeltaSyncMark } from "./delta-sync";
+import { toGmtDate } from "../sale-window";
+import { isIncludedInFeed } from "../feed-rules";
+import { assertPublishable, createFeedValidator } from "../feed-validator";
 
 export interface SyncReport {
   startedAt: Date;
@@ -19,6 +25,28 @@ export interface SyncReport {
   skipped: number;
 }
 
+// An item queued for the Meta push, kept as ids rather than the product itself
+interface QueuedItem {
+  productId: number;
+  // The variable product of a variation, 0 otherwise
+  parentId: number;
+  exists: boolean;
+  // Sent as out of stock because feed rules exclude it
+  withdraw: boolean;
+  // When the product delta sync lists (the parent, for variations) was last modified
+  listedModifiedAt?: string;
+}
+
+// Map a queued item again from the copy the cache got when it was queued
+function toBatchItem(queued: QueuedItem, context: MappingContext): MetaBatchItem {
+  const product = rowToWCProduct(getProductById(queued.productId)!);
+  const parentRow = queued.parentId > 0 ? getProductById(queued.parentId) : null;
+  const metaProduct = mapToMetaProduct(product, parentRow ? rowToWCProduct(parentRow) : undefined, context);
+  return queued.withdraw
+    ? createBatchItem({ ...metaProduct, availability: "out of stock", inventory: 0 }, true)
+    : createBatchItem(metaProduct, queued.exists);
+}
+
 export async function performInitialSync(): Promise<SyncReport> {
   const report: SyncReport = {
     startedAt: new Date(),
@@ -32,85 +60,148 @@ export async function performInitialSync(): Promise<SyncReport> {
   };
 
   try {
-    // Step 1: Fetch only in-stock products from WooCommerce
-    console.log("Fetching in-stock products from WooCommerce...");
-    const wcProducts = await fetchAllProducts("/products", { stock_status: "instock" });
-    report.totalProducts = wcProducts.length;
-    console.log(`Fetched ${wcProducts.length} in-stock products from WooCommerce`);
-
-    // Step 2: Store all products in SQLite
-    console.log("Storing products in SQLite...");
-    bulkUpsertProducts(wcProducts);
-    console.log("Products stored in SQLite");
+    // Refresh the category tree so product_type and google_product_category resolve
+    await syncCategories();
 
-    // Step 3: Fetch current Meta Catalog state
+    // Step 1: Fetch current Meta Catalog state
     console.log("Fetching Meta Catalog state...");
     const catalogState = await fetchCatalogState();
     console.log(`Found ${catalogState.size} products in Meta Catalog`);
 
-    // Step 4: Process products and their variations
-    const batchItems: MetaBatchItem[] = [];
-    const productIdMap = new Map<string, number>();
-
-    for (const product of wcProducts) {
-      if (product.type === "variable" && product.variations.length > 0) {
-        // Fetch all variations for variable products
-        console.log(`Fetching variations for product ${product.id}...`);
-        const variations = await fetchWooCommerce(`/products/${product.id}/variations`, {
-          per_page: "100",
-        }) as WCProduct[];
-
-        // Store and process variations
-        for (const variation of variations) {
-          variation.parent_id = product.id;
-          variation.type = "variation";
-          upsertProduct(variation, product);
-
-          if (variation.stock_status === "instock") {
-            report.inStock++;
-            const metaProduct = mapToMetaProduct(variation, product);
-            const metaRetailerId = generateMetaRetailerId(variation, product);
-            const exists = catalogState.has(metaRetailerId);
-
-            // Create sync status entry
-            upsertSyncStatus(variation.id, metaRetailerId, {
-              sync_status: "pending",
-              meta_product_exists: exists ? 1 : 0,
-            });
-
-            batchItems.push(createBatchItem(metaProduct, exists));
-            productIdMap.set(metaRetailerId, variation.id);
-          }
-        }
+    // Items to push, as ids: each page of products is dropped once it is processed
+    // and the items are mapped again from the cache when they are pushed
+    const queuedItems: QueuedItem[] = [];
+    const context = loadMappingContext();
+    const validator = createFeedValidator();
 
-        // Skip syncing the main variable product (_main) - only sync variations
-        // Variable parents don't have accurate prices/sale prices, only variations do
-        console.log(`Skipping main variable product ${product.id} - only syncing its variations`);
-      } else if (product.stock_status === "instock") {
-        // Simple product
-        report.inStock++;
-        const metaProduct = mapToMetaProduct(product);
-        const metaRetailerId = generateMetaRetailerId(product);
-        const exists = catalogState.has(metaRetailerId);
-
-        upsertSyncStatus(product.id, metaRetailerId, {
-          sync_status: "pending",
+    // Queue an item for create/update; items failing validation are left out
+    const queueUpsert = (metaProduct: MetaProduct, product: WCProduct, exists: boolean, listed: WCProduct) => {
+      const errors = validator.check(metaProduct).filter((issue) => issue.severity === "error");
+      if (errors.length > 0) {
+        report.errors++;
+        upsertSyncStatus(product.id, metaProduct.id, {
+          sync_status: "error",
           meta_product_exists: exists ? 1 : 0,
+          last_error: errors.map((issue) => issue.message).join(", "),
         });
+        return;
+      }
+      upsertSyncStatus(product.id, metaProduct.id, {
+        sync_status: "pending",
+        meta_product_exists: exists ? 1 : 0,
+      });
+      queuedItems.push({
+        productId: product.id,
+        parentId: product.parent_id,
+        exists,
+        withdraw: false,
+        listedModifiedAt: listed.date_modified_gmt,
+      });
+    };
+
+    // Queue an existing Meta item as out of stock (feed rules now exclude it)
+    const queueWithdrawal = (metaProduct: MetaProduct, product: WCProduct, listed: WCProduct) => {
+      upsertSyncStatus(product.id, metaProduct.id, { sync_status: "pending", meta_product_exists: 1 });
+      queuedItems.push({
+        productId: product.id,
+        parentId: product.parent_id,
+        exists: true,
+        withdraw: true,
+        listedModifiedAt: listed.date_modified_gmt,
+      });
+    };
+
+    // Step 2: Fetch only in-stock products from WooCommerce, storing and processing each page as it arrives
+    console.log("Fetching in-stock products from WooCommerce...");
+    for await (const page of iterateProductPages("/products", { stock_status: "instock" })) {
+      bulkUpsertProducts(page);
+      report.totalProducts += page.length;
+
+      for (const product of page) {
+        const parentIncluded = isIncludedInFeed(product, undefined, context);
+
+        if (product.type === "variable" && product.variations.length > 0) {
+          // Fetch all variations for variable products
+          console.log(`Fetching variations for product ${product.id}...`);
+          const variations = await fetchProductVariations(product.id);
+          recordVariationCount(product.id, variations.length);
+
+          // Store and process variations
+          for (const variation of variations) {
+            variation.parent_id = product.id;
+            variation.type = "variation";
+            upsertProduct(variation, product);
+
+            if (variation.stock_status === "instock") {
+              report.inStock++;
+              const metaProduct = mapToMetaProduct(variation, product, context);
+              const metaRetailerId = generateMetaRetailerId(variation, product);
+              const exists = catalogState.has(metaRetailerId);
+
+              if (!parentIncluded || !isIncludedInFeed(variation, product, context)) {
+                if (exists) {
+                  queueWithdrawal(metaProduct, variation, product);
+                } else {
+                  report.skipped++;
+                }
+                continue;
+              }
+
+              queueUpsert(metaProduct, variation, exists, product);
+            }
+          }
+
+          // Skip syncing the main variable product (_main) - only sync variations
+          // Variable parents don't have accurate prices/sale prices, only variations do
+          console.log(`Skipping main variable product ${product.id} - only syncing its variations`);
+        } else if (product.stock_status === "instock") {
+          // Simple product
+          report.inStock++;
+          const metaProduct = mapToMetaProduct(product, undefined, context);
+          const metaRetailerId = generateMetaRetailerId(product);
+          const exists = catalogState.has(metaRetailerId);
+
+          if (!parentIncluded) {
+            if (exists) {
+              queueWithdrawal(metaProduct, product, product);
+            } else {
+              report.skipped++;
+            }
+            continue;
+          }
 
-        batchItems.push(createBatchItem(metaProduct, exists));
-        productIdMap.set(metaRetailerId, product.id);
+          queueUpsert(metaProduct, product, exists, product);
+        }
       }
     }
+    console.log(`Fetched and stored ${report.totalProducts} in-stock products from WooCommerce`);
+
+    console.log(`Prepared ${queuedItems.length} items for Meta Catalog sync`);
+    if (report.errors > 0) {
+      console.warn(`${report.errors} items failed validation and were left out`);
+    }
+    assertPublishable("Meta catalog sync", validator.report());
 
-    console.log(`Prepared ${batchItems.length} items for Meta Catalog sync`);
+    // Delta syncs only need to look at changes made after this run started, except
+    // for items whose push failed: the mark goes back to the oldest of their
+    // products so the next delta sync sends them again. Items Meta rejected on
+    // their data are recorded as errors and, as in delta syncs, don't hold it back.
+    let mark = toGmtDate(report.startedAt.getTime());
+    const holdMark = (failed: QueuedItem[]) => {
+      for (const queued of failed) {
+        const modifiedAt = queued.listedModifiedAt?.slice(0, 19);
+        if (modifiedAt && modifiedAt < mark) mark = modifiedAt;
+      }
+    };
 
-    // Step 5: Execute batch sync in chunks (Meta limit: ~1000 items per batch)
+    // Step 3: Execute batch sync in chunks (Meta limit: ~1000 items per batch), mapping
+    // each chunk from the cache just before it is pushed
     const BATCH_SIZE = 1000;
     const batchHandles: string[] = [];
 
-    for (let i = 0; i < batchItems.length; i += BATCH_SIZE) {
-      const chunk = batchItems.slice(i, i + BATCH_SIZE);
+    for (let i = 0; i < queuedItems.length; i += BATCH_SIZE) {
+      const queuedChunk = queuedItems.slice(i, i + BATCH_SIZE);
+      const chunk = queuedChunk.map((queued) => toBatchItem(queued, context));
       const batchNum = Math.floor(i / BATCH_SIZE) + 1;
       console.log(`Syncing batch ${batchNum} (${chunk.length} items)...`);
 
@@ -123,6 +214,7 @@ export async function performInitialSync(): Promise<SyncReport> {
         if (result.error) {
           console.error(`Batch ${batchNum} error:`, result.error);
           report.errors += chunk.length;
+          holdMark(queuedChunk);
           continue;
         }
 
@@ -134,7 +226,7 @@ export async function performInitialSync(): Promise<SyncReport> {
 
         // Process validation results if present
         if (result.validation_status) {
-          for (const item of chunk) {
+          for (const [index, item] of chunk.entries()) {
             const validationError = result.validation_status?.find(
               (v) => v.retailer_id === item.retailer_id && v.errors?.length
             );
@@ -142,13 +234,10 @@ export async function performInitialSync(): Promise<SyncReport> {
             if (validationError?.errors?.length) {
               report.errors++;
               console.error(`Validation error for ${item.retailer_id}:`, validationError.errors);
-              const productId = productIdMap.get(item.retailer_id);
-              if (productId) {
-                upsertSyncStatus(productId, item.retailer_id, {
-                  sync_status: "error",
-                  last_error: validationError.errors.map((e) => e.message).join(", "),
-                });
-              }
+              upsertSyncStatus(queuedChunk[index]!.productId, item.retailer_id, {
+                sync_status: "error",
+                last_error: validationError.errors.map((e) => e.message).join(", "),
+              });
             } else {
               if (item.method === "CREATE") {
                 report.created++;
@@ -157,14 +246,11 @@ export async function performInitialSync(): Promise<SyncReport> {
               }
               report.synced++;
 
-              const productId = productIdMap.get(item.retailer_id);
-              if (productId) {
-                markSynced(
-                  item.retailer_id,
-                  item.data.availability || "in stock",
-                  item.data.inventory ?? null
-                );
-              }
+              markSynced(
+                item.retailer_id,
+                item.data.availability || "in stock",
+                item.data.inventory ?? null
+              );
             }
           }
         } else {
@@ -178,19 +264,17 @@ export async function performInitialSync(): Promise<SyncReport> {
             }
             report.synced++;
 
-            const productId = productIdMap.get(item.retailer_id);
-            if (productId) {
-              markSynced(
-                item.retailer_id,
-                item.data.availability || "in stock",
-                item.data.inventory ?? null
-              );
-            }
+            markSynced(
+              item.retailer_id,
+              item.data.availability || "in stock",
+              item.data.inventory ?? null
+            );
           }
         }
       } catch (error) {
         console.error(`Batch ${batchNum} error:`, error);
         report.errors += chunk.length;
+        holdMark(queuedChunk);
       }
     }
 
@@ -199,6 +283,8 @@ export async function performInitialSync(): Promise<SyncReport> {
       console.log(`Note: Products are being processed asynchronously by Meta. Check Commerce Manager in a few minutes.`);
     }
 
+    setDeltaSyncMark(mark);
+
     report.completedAt = new Date();
     console.log("Initial sync completed:", report);
     return report;
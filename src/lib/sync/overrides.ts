@@ -0,0 +1,86 @@
+import { iterateCachedFeedEntries } from "../feed-pipeline";
+import { getCountryOverrides, getLanguageOverrides } from "../db/overrides";
+import { batchUpdateLocalizedItems } from "../meta/client";
+import { loadMappingContext } from "../mapping-context";
+import { buildCountryOverrideRow, buildLanguageOverrideRow } from "../overrides";
+import type { MetaLocalizedItem } from "../meta/types";
+
+export interface OverrideSyncReport {
+  country: number;
+  language: number;
+  errors: number;
+}
+
+const BATCH_SIZE = 1000;
+
+// Push country and language overrides of all cached in-stock items through localized_items_batch
+export async function syncOverridesToMeta(): Promise<OverrideSyncReport> {
+  const report: OverrideSyncReport = { country: 0, language: 0, errors: 0 };
+  const countries = getCountryOverrides(true);
+  const languages = getLanguageOverrides(true);
+  if (countries.length === 0 && languages.length === 0) {
+    return report;
+  }
+
+  const items: MetaLocalizedItem[] = [];
+  for await (const { item, product, parent } of iterateCachedFeedEntries(loadMappingContext())) {
+    for (const override of countries) {
+      const row = buildCountryOverrideRow(item, product, override);
+      if (!row) continue;
+      items.push({
+        method: "UPDATE",
+        retailer_id: row.id,
+        override_type: "country",
+        override_value: row.override,
+        data: {
+          price: row.price,
+          // Empty strings clear a sale that ended since the last push
+          sale_price: row.sale_price ?? "",
+          sale_price_effective_date: row.sale_price_effective_date ?? "",
+          availability: row.availability,
+        },
+      });
+      report.country++;
+    }
+
+    for (const override of languages) {
+      const row = buildLanguageOverrideRow(item, product, parent, override);
+      if (!row) continue;
+      items.push({
+        method: "UPDATE",
+        retailer_id: row.id,
+        override_type: "language",
+        override_value: row.override,
+        data: {
+          ...(row.title && { title: row.title }),
+          ...(row.description && { description: row.description }),
+        },
+      });
+      report.language++;
+    }
+  }
+
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const chunk = items.slice(i, i + BATCH_SIZE);
+    try {
+      const result = await batchUpdateLocalizedItems(chunk);
+      if (result.error) {
+        console.error("Localized batch failed:", result.error.message);
+        report.errors += chunk.length;
+        continue;
+      }
+      for (const status of result.validation_status ?? []) {
+        if (status.errors?.length) {
+          console.error(`Override error for ${status.retailer_id}:`, status.errors.map((e) => e.message).join("; "));
+          report.errors++;
+        }
+      }
+    } catch (error) {
+      console.error("Localized batch failed:", error);
+      report.errors += chunk.length;
+    }
+  }
+
+  console.log(`Override sync complete: ${report.country} country, ${report.language} language, ${report.errors} errors`);
+  return report;
+}
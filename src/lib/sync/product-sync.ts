@@ -1,10 +1,13 @@
-import { mapToMetaProduct, fetchWooCommerce } from "../woocommerce";
-import { upsertProduct, getProductById } from "../db/products";
+import { mapToMetaProduct, fetchProductVariations } from "../woocommerce";
+import { upsertProduct, getProductById, recordVariationCount } from "../db/products";
 import { getSyncStatusByProductId, upsertSyncStatus, markSynced, markError } from "../db/sync-status";
 import { syncProductToMeta, createBatchItem } from "../meta/catalog";
 import { getProductByRetailerId, batchUpsertProducts } from "../meta/client";
 import { generateMetaRetailerId } from "../utils/retailer-id";
 import type { WCProduct } from "../types";
+import { loadMappingContext } from "../mapping-context";
+import { isIncludedInFeed } from "../feed-rules";
+import { getFeedItemErrors } from "../feed-validator";
 
 function mapAvailability(stockStatus: string): "in stock" | "out of stock" | "preorder" {
   switch (stockStatus) {
@@ -32,9 +35,11 @@ export function hasStockChanged(
   );
 }
 
+// "rejected": the item itself was refused (by our validator or Meta's) and is
+// recorded as an error; syncing it again won't help until the product changes
 export async function syncSingleProduct(product: WCProduct, parent?: WCProduct): Promise<{
   success: boolean;
-  action: "created" | "updated" | "skipped" | "deleted";
+  action: "created" | "updated" | "skipped" | "deleted" | "rejected";
   error?: string;
 }> {
   try {
@@ -54,12 +59,17 @@ export async function syncSingleProduct(product: WCProduct, parent?: WCProduct):
 
     // Get current sync status
     const syncStatus = getSyncStatusByProductId(product.id);
+    const context = loadMappingContext();
+
+    // Products the feed rules exclude are withdrawn like out-of-stock ones
+    const excluded = !isIncludedInFeed(product, parent, context)
+      || (!!parent && !isIncludedInFeed(parent, undefined, context));
 
     // If out of stock, mark as unavailable in Meta (don't delete)
-    if (product.stock_status !== "instock") {
+    if (product.stock_status !== "instock" || excluded) {
       if (syncStatus?.meta_product_exists) {
         // Update to out of stock
-        const metaProduct = mapToMetaProduct(product, parent);
+        const metaProduct = mapToMetaProduct(product, parent, context);
         metaProduct.availability = "out of stock";
         metaProduct.inventory = 0;
 
@@ -85,7 +95,15 @@ export async function syncSingleProduct(product: WCProduct, parent?: WCProduct):
     }
 
     // Sync to Meta Catalog
-    const metaProduct = mapToMetaProduct(product, parent);
+    const metaProduct = mapToMetaProduct(product, parent, context);
+
+    // Don't send what Meta would reject anyway
+    const itemErrors = getFeedItemErrors(metaProduct);
+    if (itemErrors.length > 0) {
+      const errorMsg = itemErrors.join(", ");
+      upsertSyncStatus(product.id, metaRetailerId, { sync_status: "error", last_error: errorMsg });
+      return { success: false, action: "rejected", error: errorMsg };
+    }
 
     // Debug: log what images are being sent
     console.log(`[syncSingleProduct] MetaProduct for ${metaRetailerId}:`);
@@ -120,7 +138,7 @@ export async function syncSingleProduct(product: WCProduct, parent?: WCProduct):
     if (validationError?.errors?.length) {
       const errorMsg = validationError.errors.map((e) => e.message).join(", ");
       markError(metaRetailerId, errorMsg);
-      return { success: false, action: "skipped", error: errorMsg };
+      return { success: false, action: "rejected", error: errorMsg };
     }
 
     markSynced(metaRetailerId, metaProduct.availability, metaProduct.inventory ?? null);
@@ -135,29 +153,33 @@ export async function syncSingleProduct(product: WCProduct, parent?: WCProduct):
   }
 }
 
-export async function syncVariableProduct(product: WCProduct): Promise<{
+// withdraw: push every variation as out of stock (e.g. the parent was unpublished).
+// errors counts every failure, rejected the variations among them refused on their data.
+export async function syncVariableProduct(product: WCProduct, withdraw = false): Promise<{
   success: boolean;
   synced: number;
   errors: number;
+  rejected: number;
 }> {
-  const result = { success: true, synced: 0, errors: 0 };
+  const result = { success: true, synced: 0, errors: 0, rejected: 0 };
 
   try {
     // Fetch all variations
-    const variations = await fetchWooCommerce(`/products/${product.id}/variations`, {
-      per_page: "100",
-    }) as WCProduct[];
+    const variations = await fetchProductVariations(product.id);
+    recordVariationCount(product.id, variations.length);
 
     // Sync each variation
     for (const variation of variations) {
       variation.parent_id = product.id;
       variation.type = "variation";
+      if (withdraw) variation.stock_status = "outofstock";
 
       const syncResult = await syncSingleProduct(variation, product);
       if (syncResult.success && syncResult.action !== "skipped") {
         result.synced++;
       } else if (!syncResult.success) {
         result.errors++;
+        if (syncResult.action === "rejected") result.rejected++;
       }
     }
 
@@ -168,7 +190,9 @@ export async function syncVariableProduct(product: WCProduct): Promise<{
     return result;
   } catch (error) {
     console.error(`Error syncing variable product ${product.id}:`, error);
+    // Variations could not be fetched (or a sync threw): the product itself failed
     result.success = false;
+    result.errors++;
     return result;
   }
 }
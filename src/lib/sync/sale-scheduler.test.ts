@@ -0,0 +1,126 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { processSaleWindowTransitions } from "./sale-scheduler";
+import { bulkUpsertProducts } from "../db/products";
+import { getSyncState, setSyncState } from "../db/sync-state";
+import { getSyncStatusByRetailerId, upsertSyncStatus } from "../db/sync-status";
+import { createStore } from "../db/stores";
+import { runWithStore } from "../store-context";
+import type { WCProduct } from "../types";
+
+const LAST_CHECK_KEY = "sale_windows_checked_until";
+const SINCE = "2026-03-01T10:00:00";
+const NOW = Date.parse("2026-03-01T10:05:00Z");
+
+let batchError: string | null = null;
+let rejected: string[] = [];
+let batchRequests = 0;
+
+// Fake Graph API batch endpoint: fails as a whole, or rejects listed items
+const meta = Bun.serve({
+  port: 0,
+  fetch(req) {
+    if (!new URL(req.url).pathname.endsWith("/items_batch")) return new Response("Not found", { status: 404 });
+    batchRequests++;
+    if (batchError) return Response.json({ error: { message: batchError } }, { status: 500 });
+    return Response.json({
+      handles: ["handle"],
+      validation_status: rejected.map((retailer_id) => ({ retailer_id, errors: [{ message: "Invalid price" }] })),
+    });
+  },
+});
+
+const realFetch = globalThis.fetch;
+const fetchSpy = spyOn(globalThis, "fetch").mockImplementation(((input: string | URL | Request, init?: RequestInit) => {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  return realFetch(url.replace("https://graph.facebook.com/v21.0", meta.url.origin), init);
+}) as typeof fetch);
+
+afterAll(() => {
+  fetchSpy.mockRestore();
+  meta.stop();
+});
+
+const store = createStore("sales", {
+  name: "Sales",
+  wc_api_url: "https://shop.test",
+  wc_consumer_key: "ck",
+  wc_consumer_secret: "cs",
+  meta_catalog_id: "catalog",
+  meta_access_token: "token",
+});
+
+// An in-stock product already in the catalog whose sale starts at `saleFrom`
+function saleProduct(id: number, saleFrom: string): WCProduct {
+  return {
+    id,
+    name: `Product ${id}`,
+    slug: `product-${id}`,
+    permalink: `https://shop.test/product-${id}`,
+    type: "simple",
+    status: "publish",
+    description: "A product",
+    short_description: "",
+    sku: `SKU-${id}`,
+    price: "8",
+    regular_price: "10",
+    sale_price: "8",
+    date_on_sale_from: saleFrom,
+    date_on_sale_to: null,
+    date_modified_gmt: "2026-02-01T00:00:00",
+    stock_status: "instock",
+    stock_quantity: 5,
+    images: [{ id, src: `https://shop.test/${id}.jpg` }],
+    attributes: [],
+    variations: [],
+    parent_id: 0,
+    categories: [],
+  };
+}
+
+function checkSaleWindows(now = NOW) {
+  return runWithStore(store, () => processSaleWindowTransitions(now));
+}
+
+const checkedUntil = () => runWithStore(store, () => getSyncState(LAST_CHECK_KEY));
+
+beforeEach(() => {
+  batchError = null;
+  rejected = [];
+  batchRequests = 0;
+  runWithStore(store, () => {
+    const products = [saleProduct(1, "2026-03-01T10:03:00"), saleProduct(2, "2026-03-01T10:01:00")];
+    bulkUpsertProducts(products);
+    for (const product of products) {
+      upsertSyncStatus(product.id, `wc_${product.id}`, { sync_status: "synced", meta_product_exists: 1 });
+    }
+    setSyncState(LAST_CHECK_KEY, SINCE);
+  });
+});
+
+describe("processSaleWindowTransitions check mark", () => {
+  test("advances to now when every push succeeds", async () => {
+    const report = await checkSaleWindows();
+    expect(report).toMatchObject({ opened: 2, pushed: 2, errors: 0 });
+    expect(checkedUntil()).toBe("2026-03-01T10:05:00");
+  });
+
+  test("stays just before the earliest window a failed push missed, and retries it", async () => {
+    batchError = "Service temporarily unavailable";
+    const report = await checkSaleWindows();
+    expect(report.errors).toBe(2);
+    expect(checkedUntil()).toBe("2026-03-01T10:00:59");
+
+    batchError = null;
+    const retry = await checkSaleWindows(NOW + 60_000);
+    expect(retry).toMatchObject({ since: "2026-03-01T10:00:59", pushed: 2, errors: 0 });
+    expect(checkedUntil()).toBe("2026-03-01T10:06:00");
+  });
+
+  test("passes items Meta rejects, which are recorded as errors", async () => {
+    rejected = ["wc_2"];
+    const report = await checkSaleWindows();
+    expect(report).toMatchObject({ pushed: 1, errors: 1 });
+    expect(checkedUntil()).toBe("2026-03-01T10:05:00");
+    expect(runWithStore(store, () => getSyncStatusByRetailerId("wc_2"))?.last_error).toBe("Invalid price");
+  });
+});
@@ -0,0 +1,164 @@
+import { mapToMetaProduct } from "../woocommerce";
+import { getProductById, getProductsWithSaleTransitions, rowToWCProduct } from "../db/products";
+import { getSyncStatusByRetailerId, markSynced, markError } from "../db/sync-status";
+import { getSyncState, setSyncState } from "../db/sync-state";
+import { createBatchItem } from "../meta/catalog";
+import { batchUpsertProducts } from "../meta/client";
+import { loadMappingContext } from "../mapping-context";
+import { getSaleDateGmt, toGmtDate } from "../sale-window";
+import type { MetaBatchItem } from "../meta/types";
+import type { MetaProduct } from "../types";
+import { getActiveStores } from "../db/stores";
+import { runWithStore } from "../store-context";
+import { isIncludedInFeed } from "../feed-rules";
+
+// WooCommerce sends no webhook when a scheduled sale starts, so poll the cache for window edges
+const SALE_SCHEDULER_INTERVAL_MS = parseInt(process.env.SALE_SCHEDULER_INTERVAL_MS || "300000");
+const LAST_CHECK_KEY = "sale_windows_checked_until";
+
+export interface SaleWindowReport {
+  since: string;
+  until: string;
+  opened: number;
+  closed: number;
+  pushed: number;
+  skipped: number;
+  errors: number;
+}
+
+let running = false;
+
+// Re-push price, sale_price and price-embedded images for products whose sale window opened or closed
+export async function processSaleWindowTransitions(now = Date.now()): Promise<SaleWindowReport> {
+  const until = toGmtDate(now);
+  const since = getSyncState(LAST_CHECK_KEY) ?? toGmtDate(now - SALE_SCHEDULER_INTERVAL_MS);
+
+  const report: SaleWindowReport = { since, until, opened: 0, closed: 0, pushed: 0, skipped: 0, errors: 0 };
+
+  const rows = getProductsWithSaleTransitions(since, until);
+  if (rows.length === 0) {
+    setSyncState(LAST_CHECK_KEY, until);
+    return report;
+  }
+
+  console.log(`Sale windows changed for ${rows.length} products between ${since} and ${until}`);
+
+  const context = loadMappingContext();
+  const items: MetaBatchItem[] = [];
+  const products = new Map<string, MetaProduct>();
+  // When each pushed product's window opened or closed, and the pushes that failed
+  const transitions = new Map<string, string>();
+  const failedRetailerIds: string[] = [];
+
+  for (const row of rows) {
+    const product = rowToWCProduct(row);
+    const to = getSaleDateGmt(product, "to");
+    const closed = !!to && to > since && to <= until;
+    if (closed) {
+      report.closed++;
+    } else {
+      report.opened++;
+    }
+    const transition = (closed ? to : getSaleDateGmt(product, "from")) ?? since;
+
+    // Only products already in the catalog need a correction
+    const syncStatus = getSyncStatusByRetailerId(row.meta_retailer_id);
+    if (!syncStatus?.meta_product_exists || product.stock_status !== "instock") {
+      report.skipped++;
+      continue;
+    }
+
+    const parentRow = row.parent_id > 0 ? getProductById(row.parent_id) : null;
+    const parent = parentRow ? rowToWCProduct(parentRow) : undefined;
+
+    // Withdrawn by feed rules - a price push would put it back in stock
+    if (!isIncludedInFeed(product, parent, context) || (parent && !isIncludedInFeed(parent, undefined, context))) {
+      report.skipped++;
+      continue;
+    }
+
+    const metaProduct = mapToMetaProduct(product, parent, context);
+    items.push(createBatchItem(metaProduct, true));
+    products.set(metaProduct.id, metaProduct);
+    transitions.set(metaProduct.id, transition);
+  }
+
+  const BATCH_SIZE = 1000;
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const chunk = items.slice(i, i + BATCH_SIZE);
+
+    try {
+      const result = await batchUpsertProducts(chunk);
+
+      if (result.error) {
+        for (const item of chunk) {
+          markError(item.retailer_id, result.error.message);
+          failedRetailerIds.push(item.retailer_id);
+        }
+        report.errors += chunk.length;
+        continue;
+      }
+
+      for (const item of chunk) {
+        const validationError = result.validation_status?.find(
+          (v) => v.retailer_id === item.retailer_id && v.errors?.length
+        );
+
+        if (validationError?.errors?.length) {
+          report.errors++;
+          markError(item.retailer_id, validationError.errors.map((e) => e.message).join(", "));
+        } else {
+          report.pushed++;
+          const product = products.get(item.retailer_id)!;
+          markSynced(item.retailer_id, product.availability, product.inventory ?? null);
+        }
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      for (const item of chunk) {
+        markError(item.retailer_id, errorMsg);
+        failedRetailerIds.push(item.retailer_id);
+      }
+      report.errors += chunk.length;
+    }
+  }
+
+  // A failed push holds the mark just before the earliest edge it missed, so the
+  // next run retries it. Meta rejecting an item's data doesn't: a retry won't help.
+  let checkedUntil = until;
+  for (const retailerId of failedRetailerIds) {
+    const justBefore = toGmtDate(Date.parse(`${transitions.get(retailerId)}Z`) - 1000);
+    const mark = justBefore > since ? justBefore : since;
+    if (mark < checkedUntil) checkedUntil = mark;
+  }
+  if (checkedUntil !== until) {
+    console.warn(`Sale window pushes failed; checking again from ${checkedUntil}`);
+  }
+  setSyncState(LAST_CHECK_KEY, checkedUntil);
+  console.log("Sale window check completed:", report);
+  return report;
+}
+
+export function startSaleScheduler(intervalMs = SALE_SCHEDULER_INTERVAL_MS): void {
+  if (intervalMs <= 0) {
+    console.log("Sale window scheduler disabled");
+    return;
+  }
+
+  console.log(`Sale window scheduler running every ${Math.round(intervalMs / 1000)}s`);
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const store of getActiveStores()) {
+        try {
+          await runWithStore(store, () => processSaleWindowTransitions());
+        } catch (error) {
+          console.error(`Sale window scheduler error (${store.id}):`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
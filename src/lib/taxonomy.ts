@@ -0,0 +1,112 @@
+/**
+ * WooCommerce category tree -> Google product taxonomy resolution.
+ *
+ * Categories can be mapped to a Google taxonomy ID ("1604") or path
+ * ("Apparel & Accessories > Clothing"). Unmapped categories inherit the
+ * mapping of their closest mapped ancestor. Gallery settings (how many real
+ * product photos follow the generated images) are inherited the same way.
+ */
+
+export interface CategoryNode {
+  id: number;
+  parent_id: number;
+  name: string;
+  google_category: string | null;
+  gallery_images: number | null;  // null inherits, 0 turns the gallery off
+  gallery_tags: string[];
+}
+
+export interface GallerySetting {
+  count: number;
+  tags: string[];
+}
+
+export type CategoryTree = Record<number, CategoryNode>;
+
+export interface ResolvedCategories {
+  google_product_category: string;
+  product_type: string;
+}
+
+// Root-first chain of categories ending at the given one (cycle-safe)
+export function getCategoryPath(tree: CategoryTree, categoryId: number): CategoryNode[] {
+  const path: CategoryNode[] = [];
+  const seen = new Set<number>();
+  let node = tree[categoryId];
+
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    path.unshift(node);
+    node = node.parent_id ? tree[node.parent_id] : undefined;
+  }
+
+  return path;
+}
+
+// Own mapping, or the closest mapped ancestor's
+export function resolveGoogleCategory(tree: CategoryTree, categoryId: number): string | null {
+  const path = getCategoryPath(tree, categoryId);
+  for (let i = path.length - 1; i >= 0; i--) {
+    const mapping = path[i]!.google_category;
+    if (mapping) return mapping;
+  }
+  return null;
+}
+
+export function resolveProductCategories(
+  tree: CategoryTree,
+  categories: { id: number; name: string }[]
+): ResolvedCategories {
+  if (!categories.length) {
+    return { google_product_category: "", product_type: "" };
+  }
+
+  const known = categories.filter((c) => tree[c.id]);
+  if (known.length === 0) {
+    // Category tree not synced yet - keep the flat list of assigned names
+    return {
+      google_product_category: "",
+      product_type: categories.map((c) => c.name).join(" > "),
+    };
+  }
+
+  // The deepest assigned category is the most specific one
+  const paths = known
+    .map((c) => getCategoryPath(tree, c.id))
+    .sort((a, b) => b.length - a.length);
+  const primary = paths[0]!;
+
+  let google_product_category = resolveGoogleCategory(tree, primary[primary.length - 1]!.id);
+  if (!google_product_category) {
+    for (const path of paths.slice(1)) {
+      google_product_category = resolveGoogleCategory(tree, path[path.length - 1]!.id);
+      if (google_product_category) break;
+    }
+  }
+
+  return {
+    google_product_category: google_product_category ?? "",
+    product_type: primary.map((c) => c.name).join(" > "),
+  };
+}
+
+// Gallery setting of the deepest assigned category that has one (own or inherited)
+export function resolveGallerySetting(
+  tree: CategoryTree,
+  categories: { id: number; name: string }[]
+): GallerySetting {
+  const paths = categories
+    .filter((c) => tree[c.id])
+    .map((c) => getCategoryPath(tree, c.id))
+    .sort((a, b) => b.length - a.length);
+
+  for (const path of paths) {
+    for (let i = path.length - 1; i >= 0; i--) {
+      const node = path[i]!;
+      if (node.gallery_images !== null) {
+        return { count: node.gallery_images, tags: node.gallery_tags };
+      }
+    }
+  }
+  return { count: 0, tags: [] };
+}
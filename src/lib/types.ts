@@ -4,6 +4,12 @@ export interface WCImage {
   src: string;
 }
 
+export interface WCMetaData {
+  id?: number;
+  key: string;
+  value: unknown;
+}
+
 export interface WCProduct {
   id: number;
   name: string;
@@ -19,6 +25,9 @@ export interface WCProduct {
   sale_price: string;
   date_on_sale_from: string | null;
   date_on_sale_to: string | null;
+  date_on_sale_from_gmt?: string | null;
+  date_on_sale_to_gmt?: string | null;
+  date_modified_gmt?: string;
   stock_status: string;
   stock_quantity: number | null;
   images: WCImage[];
@@ -27,6 +36,17 @@ export interface WCProduct {
   variations: number[];
   parent_id: number;
   categories: { id: number; name: string }[];
+  tags?: { id: number; name: string; slug: string }[];
+  meta_data?: WCMetaData[];
+  total_sales?: number | string; // Parent products only; the REST API returns a number or numeric string
+  weight?: string; // In the store's weight unit, "" when unset
+  dimensions?: WCDimensions;
+}
+
+export interface WCDimensions {
+  length: string;
+  width: string;
+  height: string;
 }
 
 export interface MetaProduct {
@@ -40,10 +60,14 @@ export interface MetaProduct {
   link: string;
   image_link: string;
   brand: string;
+  gtin?: string;
+  mpn?: string;
+  shipping_weight?: string; // e.g. "1.2 kg"
   additional_image_link?: string;
   age_group?: string;
   color?: string;
   gender?: string;
+  material?: string;
   item_group_id?: string;
   google_product_category?: string;
   product_type?: string;
@@ -52,5 +76,10 @@ export interface MetaProduct {
   size?: string;
   status: "active" | "archived";
   inventory?: number;
+  custom_label_0?: string;
+  custom_label_1?: string;
+  custom_label_2?: string;
+  custom_label_3?: string;
+  custom_label_4?: string;
 }
 
@@ -1,7 +1,9 @@
 import { getDb } from "../db/index";
+import { getCurrentStoreId } from "../store-context";
 
 export interface WebhookEvent {
   id: number;
+  store_id: string;
   topic: string;
   wc_product_id: number;
   product_name: string | null;
@@ -67,14 +69,15 @@ export function logWebhookEvent(
 
   const stmt = db.prepare(`
     INSERT INTO webhook_events (
-      topic, wc_product_id, product_name, product_type, action_type,
+      store_id, topic, wc_product_id, product_name, product_type, action_type,
       old_stock_status, new_stock_status, old_stock_quantity, new_stock_quantity,
       stock_change, meta_retailer_id, payload, signature
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const result = stmt.run(
+    getCurrentStoreId(),
     topic,
     wcProductId,
     details?.productName ?? null,
@@ -153,8 +156,8 @@ export function searchWebhookEvents(params: WebhookSearchParams): WebhookSearchR
   const offset = params.offset ?? 0;
 
   // Build WHERE clause
-  const conditions: string[] = [];
-  const values: (string | number)[] = [];
+  const conditions: string[] = ["store_id = ?"];
+  const values: (string | number)[] = [getCurrentStoreId()];
 
   if (params.search) {
     conditions.push("(product_name LIKE ? OR CAST(wc_product_id AS TEXT) LIKE ? OR meta_retailer_id LIKE ?)");
@@ -185,7 +188,7 @@ export function searchWebhookEvents(params: WebhookSearchParams): WebhookSearchR
     }
   }
 
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const whereClause = `WHERE ${conditions.join(" AND ")}`;
 
   // Get total count
   const countQuery = `SELECT COUNT(*) as count FROM webhook_events ${whereClause}`;
@@ -212,39 +215,40 @@ export function searchWebhookEvents(params: WebhookSearchParams): WebhookSearchR
 
 export function getRecentWebhookEvents(limit = 10): WebhookEvent[] {
   const db = getDb();
-  return db.query<WebhookEvent, [number]>(
-    "SELECT * FROM webhook_events ORDER BY created_at DESC LIMIT ?"
-  ).all(limit);
+  return db.query<WebhookEvent, [string, number]>(
+    "SELECT * FROM webhook_events WHERE store_id = ? ORDER BY created_at DESC LIMIT ?"
+  ).all(getCurrentStoreId(), limit);
 }
 
 export function getWebhookEventById(eventId: number): WebhookEvent | null {
   const db = getDb();
-  return db.query<WebhookEvent, [number]>(
-    "SELECT * FROM webhook_events WHERE id = ?"
-  ).get(eventId);
+  return db.query<WebhookEvent, [string, number]>(
+    "SELECT * FROM webhook_events WHERE store_id = ? AND id = ?"
+  ).get(getCurrentStoreId(), eventId);
 }
 
 export function getUnprocessedWebhookEvents(): WebhookEvent[] {
   const db = getDb();
-  return db.query<WebhookEvent, []>(
-    "SELECT * FROM webhook_events WHERE processed = 0 AND error IS NULL ORDER BY created_at ASC"
-  ).all();
+  return db.query<WebhookEvent, [string]>(
+    "SELECT * FROM webhook_events WHERE store_id = ? AND processed = 0 AND error IS NULL ORDER BY created_at ASC"
+  ).all(getCurrentStoreId());
 }
 
 export function getWebhookEventCount(): { total: number; processed: number; errors: number } {
   const db = getDb();
+  const storeId = getCurrentStoreId();
 
-  const total = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM webhook_events"
-  ).get()?.count ?? 0;
+  const total = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM webhook_events WHERE store_id = ?"
+  ).get(storeId)?.count ?? 0;
 
-  const processed = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM webhook_events WHERE processed = 1"
-  ).get()?.count ?? 0;
+  const processed = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM webhook_events WHERE store_id = ? AND processed = 1"
+  ).get(storeId)?.count ?? 0;
 
-  const errors = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM webhook_events WHERE error IS NOT NULL"
-  ).get()?.count ?? 0;
+  const errors = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM webhook_events WHERE store_id = ? AND error IS NOT NULL"
+  ).get(storeId)?.count ?? 0;
 
   return { total, processed, errors };
 }
@@ -258,13 +262,14 @@ export function getWebhookStats(): {
   stockDecreases: number;
 } {
   const db = getDb();
+  const storeId = getCurrentStoreId();
 
   const counts = getWebhookEventCount();
 
   // Count by action type
-  const actionCounts = db.query<{ action_type: string; count: number }, []>(
-    "SELECT action_type, COUNT(*) as count FROM webhook_events WHERE action_type IS NOT NULL GROUP BY action_type"
-  ).all();
+  const actionCounts = db.query<{ action_type: string; count: number }, [string]>(
+    "SELECT action_type, COUNT(*) as count FROM webhook_events WHERE store_id = ? AND action_type IS NOT NULL GROUP BY action_type"
+  ).all(storeId);
 
   const byAction: Record<string, number> = {};
   for (const row of actionCounts) {
@@ -272,13 +277,13 @@ export function getWebhookStats(): {
   }
 
   // Count stock increases and decreases
-  const stockIncreases = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM webhook_events WHERE stock_change > 0"
-  ).get()?.count ?? 0;
+  const stockIncreases = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM webhook_events WHERE store_id = ? AND stock_change > 0"
+  ).get(storeId)?.count ?? 0;
 
-  const stockDecreases = db.query<{ count: number }, []>(
-    "SELECT COUNT(*) as count FROM webhook_events WHERE stock_change < 0"
-  ).get()?.count ?? 0;
+  const stockDecreases = db.query<{ count: number }, [string]>(
+    "SELECT COUNT(*) as count FROM webhook_events WHERE store_id = ? AND stock_change < 0"
+  ).get(storeId)?.count ?? 0;
 
   return {
     ...counts,
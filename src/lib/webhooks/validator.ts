@@ -1,17 +1,17 @@
 import { createHmac } from "crypto";
-
-const WC_WEBHOOK_SECRET = process.env.WC_WEBHOOK_SECRET;
+import { findCurrentStore } from "../store-context";
 
 export function validateWebhookSignature(
   payload: string,
   signature: string | null
 ): boolean {
-  if (!signature || !WC_WEBHOOK_SECRET) {
+  const secret = findCurrentStore()?.wc_webhook_secret;
+  if (!signature || !secret) {
     console.warn("Missing webhook signature or secret");
     return false;
   }
 
-  const expectedSignature = createHmac("sha256", WC_WEBHOOK_SECRET)
+  const expectedSignature = createHmac("sha256", secret)
     .update(payload)
     .digest("base64");
 
@@ -19,12 +19,12 @@ export function validateWebhookSignature(
 }
 
 export function isValidSource(source: string | null): boolean {
-  const WC_API_URL = process.env.WC_API_URL;
-  if (!source || !WC_API_URL) return false;
+  const apiUrl = findCurrentStore()?.wc_api_url;
+  if (!source || !apiUrl) return false;
 
   try {
     const sourceUrl = new URL(source);
-    const expectedUrl = new URL(WC_API_URL);
+    const expectedUrl = new URL(apiUrl);
     return sourceUrl.hostname === expectedUrl.hostname;
   } catch {
     return false;
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import crypto from "crypto";
+import { authorizeRequest, redactCredentials, resolveAuthMode, type WooCommerceCredentials } from "./woocommerce-auth";
+
+const credentials = (authMode: WooCommerceCredentials["authMode"]): WooCommerceCredentials => ({
+  apiUrl: "http://shop.test/wp-json/wc/v3",
+  consumerKey: "ck_key",
+  consumerSecret: "cs_s3cr+t",
+  authMode,
+});
+
+// The OAuth header's parameters, decoded
+function parseOAuthHeader(header: string): Record<string, string> {
+  expect(header.startsWith("OAuth ")).toBe(true);
+  return Object.fromEntries(
+    header
+      .slice("OAuth ".length)
+      .split(", ")
+      .map((pair) => {
+        const [, key, value] = pair.match(/^(\w+)="(.*)"$/)!;
+        return [key!, decodeURIComponent(value!)];
+      })
+  );
+}
+
+describe("resolveAuthMode", () => {
+  test("auto picks basic over https and oauth1 over plain http", () => {
+    expect(resolveAuthMode("https://shop.test/wp-json/wc/v3")).toBe("basic");
+    expect(resolveAuthMode("http://shop.test/wp-json/wc/v3", "auto")).toBe("oauth1");
+  });
+
+  test("keeps an explicit mode and rejects unknown ones", () => {
+    expect(resolveAuthMode("https://shop.test", "query")).toBe("query");
+    expect(() => resolveAuthMode("https://shop.test", "digest")).toThrow('Invalid WooCommerce auth mode "digest"');
+  });
+});
+
+describe("authorizeRequest", () => {
+  test("basic sends the key and secret in the Authorization header", () => {
+    const url = new URL("https://shop.test/wp-json/wc/v3/products");
+    const { url: signed, headers } = authorizeRequest(url, "GET", credentials("basic"));
+    expect(signed.href).toBe(url.href);
+    expect(headers.Authorization).toBe(`Basic ${Buffer.from("ck_key:cs_s3cr+t").toString("base64")}`);
+  });
+
+  test("query appends the key and secret to the URL", () => {
+    const url = new URL("http://shop.test/wp-json/wc/v3/products?page=2");
+    const { url: signed, headers } = authorizeRequest(url, "GET", credentials("query"));
+    expect(signed.searchParams.get("consumer_key")).toBe("ck_key");
+    expect(signed.searchParams.get("consumer_secret")).toBe("cs_s3cr+t");
+    expect(headers).toEqual({});
+    // The caller's URL is left alone
+    expect(url.search).toBe("?page=2");
+  });
+
+  test("oauth1 signs the method, URL and sorted parameters with HMAC-SHA256", () => {
+    const url = new URL("http://shop.test/wp-json/wc/v3/products?per_page=100&modified_after=2025-01-01T00:00:00&search=a b");
+    const { url: signed, headers } = authorizeRequest(url, "get", credentials("oauth1"));
+    expect(signed.href).toBe(url.href);
+
+    const oauth = parseOAuthHeader(headers.Authorization!);
+    expect(oauth).toMatchObject({ oauth_consumer_key: "ck_key", oauth_signature_method: "HMAC-SHA256", oauth_version: "1.0" });
+
+    // Base string per RFC 5849: query and oauth_* parameters sorted by name,
+    // each part percent-encoded (":" becomes %3A, then "%" becomes %25)
+    const baseString =
+      "GET&http%3A%2F%2Fshop.test%2Fwp-json%2Fwc%2Fv3%2Fproducts&" +
+      "modified_after%3D2025-01-01T00%253A00%253A00" +
+      "%26oauth_consumer_key%3Dck_key" +
+      `%26oauth_nonce%3D${oauth.oauth_nonce}` +
+      "%26oauth_signature_method%3DHMAC-SHA256" +
+      `%26oauth_timestamp%3D${oauth.oauth_timestamp}` +
+      "%26oauth_version%3D1.0" +
+      "%26per_page%3D100" +
+      "%26search%3Da%2520b";
+    const expected = crypto.createHmac("sha256", "cs_s3cr+t&").update(baseString).digest("base64");
+    expect(oauth.oauth_signature).toBe(expected);
+  });
+
+  test("oauth1 uses a fresh nonce for every attempt", () => {
+    const url = new URL("http://shop.test/wp-json/wc/v3/products");
+    const first = parseOAuthHeader(authorizeRequest(url, "GET", credentials("oauth1")).headers.Authorization!);
+    const second = parseOAuthHeader(authorizeRequest(url, "GET", credentials("oauth1")).headers.Authorization!);
+    expect(first.oauth_nonce).not.toBe(second.oauth_nonce);
+    expect(first.oauth_signature).not.toBe(second.oauth_signature);
+  });
+});
+
+test("redactCredentials removes raw, URL-encoded and Basic-encoded credentials", () => {
+  const basic = Buffer.from("ck_key:cs_s3cr+t").toString("base64");
+  const text = `GET /products?consumer_key=ck_key&consumer_secret=cs_s3cr%2Bt failed (Basic ${basic}, secret cs_s3cr+t)`;
+  const redacted = redactCredentials(text, credentials("query"));
+  expect(redacted).toBe(
+    "GET /products?consumer_key=[redacted]&consumer_secret=[redacted] failed (Basic [redacted], secret [redacted])"
+  );
+  expect(redactCredentials(text, null)).toBe(text);
+});
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { findCurrentStore } from "./store-context";
+
+/**
+ * WooCommerce REST API authentication.
+ *
+ * - basic: HTTP Basic auth header, only safe over HTTPS
+ * - oauth1: one-legged OAuth 1.0a (HMAC-SHA256) in the Authorization header, for plain HTTP stores
+ * - query: legacy consumer_key/consumer_secret query parameters, for hosts that strip
+ *   the Authorization header. Credentials end up in access logs - avoid if possible.
+ *
+ * The store's wc_auth_mode (seeded from WC_AUTH_MODE) defaults to auto, which
+ * picks basic for https:// and oauth1 for http:// stores.
+ */
+
+export type WooCommerceAuthMode = "basic" | "oauth1" | "query";
+
+export interface WooCommerceCredentials {
+  apiUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  authMode: WooCommerceAuthMode;
+}
+
+const AUTH_MODES: WooCommerceAuthMode[] = ["basic", "oauth1", "query"];
+
+export function resolveAuthMode(apiUrl: string, configured = "auto"): WooCommerceAuthMode {
+  if (AUTH_MODES.includes(configured as WooCommerceAuthMode)) {
+    return configured as WooCommerceAuthMode;
+  }
+  if (configured !== "auto") {
+    throw new Error(`Invalid WooCommerce auth mode "${configured}" (expected auto, ${AUTH_MODES.join(", ")})`);
+  }
+  return apiUrl.startsWith("https://") ? "basic" : "oauth1";
+}
+
+// Credentials of the current store, or null when no store is configured
+export function getWooCommerceCredentials(): WooCommerceCredentials | null {
+  const store = findCurrentStore();
+  if (!store) return null;
+
+  return {
+    apiUrl: store.wc_api_url,
+    consumerKey: store.wc_consumer_key,
+    consumerSecret: store.wc_consumer_secret,
+    authMode: resolveAuthMode(store.wc_api_url, store.wc_auth_mode),
+  };
+}
+
+// RFC 3986 percent-encoding as required by OAuth 1.0a
+function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function oauthHeader(url: URL, method: string, credentials: WooCommerceCredentials): string {
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: credentials.consumerKey,
+    oauth_nonce: crypto.randomBytes(16).toString("hex"),
+    oauth_signature_method: "HMAC-SHA256",
+    oauth_timestamp: Math.floor(Date.now() / 1000).toString(),
+    oauth_version: "1.0",
+  };
+
+  // Signature covers the query parameters and the oauth_* parameters, sorted
+  const params: [string, string][] = [
+    ...Array.from(url.searchParams.entries()),
+    ...Object.entries(oauthParams),
+  ].map(([k, v]) => [percentEncode(k), percentEncode(v)]);
+  params.sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : 1) : ak < bk ? -1 : 1));
+
+  const baseUrl = `${url.protocol}//${url.host}${url.pathname}`;
+  const baseString = [
+    method.toUpperCase(),
+    percentEncode(baseUrl),
+    percentEncode(params.map(([k, v]) => `${k}=${v}`).join("&")),
+  ].join("&");
+
+  const signature = crypto
+    .createHmac("sha256", `${credentials.consumerSecret}&`)
+    .update(baseString)
+    .digest("base64");
+
+  const header = Object.entries({ ...oauthParams, oauth_signature: signature })
+    .map(([k, v]) => `${k}="${percentEncode(v)}"`)
+    .join(", ");
+  return `OAuth ${header}`;
+}
+
+// Adds credentials to the request. Must be called per attempt (OAuth nonces are single-use).
+export function authorizeRequest(
+  url: URL,
+  method: string,
+  credentials: WooCommerceCredentials
+): { url: URL; headers: Record<string, string> } {
+  switch (credentials.authMode) {
+    case "basic": {
+      const token = Buffer.from(`${credentials.consumerKey}:${credentials.consumerSecret}`).toString("base64");
+      return { url, headers: { Authorization: `Basic ${token}` } };
+    }
+    case "oauth1":
+      return { url, headers: { Authorization: oauthHeader(url, method, credentials) } };
+    case "query": {
+      const withCredentials = new URL(url);
+      withCredentials.searchParams.append("consumer_key", credentials.consumerKey);
+      withCredentials.searchParams.append("consumer_secret", credentials.consumerSecret);
+      return { url: withCredentials, headers: {} };
+    }
+  }
+}
+
+// Strips the key and secret (raw, URL-encoded and Basic-encoded) from text that may be logged
+export function redactCredentials(text: string, credentials: WooCommerceCredentials | null): string {
+  if (!credentials) return text;
+
+  const secrets = [
+    credentials.consumerKey,
+    credentials.consumerSecret,
+    encodeURIComponent(credentials.consumerKey),
+    encodeURIComponent(credentials.consumerSecret),
+    Buffer.from(`${credentials.consumerKey}:${credentials.consumerSecret}`).toString("base64"),
+  ];
+
+  let redacted = text;
+  for (const secret of secrets) {
+    if (secret) redacted = redacted.split(secret).join("[redacted]");
+  }
+  return redacted;
+}
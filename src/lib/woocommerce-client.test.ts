@@ -0,0 +1,87 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { WooCommerceError, wcRequest, wcRequestWithHeaders } from "./woocommerce-client";
+import { createStore } from "./db/stores";
+import { runWithStore } from "./store-context";
+
+// Responses the fake store gives, in order; the last one repeats
+let responses: (() => Response | Promise<Response>)[] = [];
+let requests = 0;
+
+const woocommerce = Bun.serve({
+  port: 0,
+  fetch() {
+    const respond = responses[Math.min(requests, responses.length - 1)]!;
+    requests++;
+    return respond();
+  },
+});
+afterAll(() => woocommerce.stop());
+
+const store = createStore("client", {
+  name: "Client",
+  wc_api_url: woocommerce.url.origin,
+  wc_consumer_key: "ck_secret_key",
+  wc_consumer_secret: "cs_secret_value",
+});
+
+// Retry-After: 0 keeps retries instant
+const unavailable = () => new Response("busy", { status: 503, headers: { "Retry-After": "0" } });
+
+// The error a request fails with
+function failure(request: Promise<unknown>): Promise<WooCommerceError> {
+  return request.then(
+    () => { throw new Error("Expected the request to fail"); },
+    (error: WooCommerceError) => error
+  );
+}
+
+beforeEach(() => {
+  requests = 0;
+});
+
+describe("wcRequest", () => {
+  test("retries 429/5xx responses until one succeeds", async () => {
+    responses = [unavailable, () => new Response("slow down", { status: 429, headers: { "Retry-After": "0" } }), () => Response.json([{ id: 1 }])];
+    const data = await runWithStore(store, () => wcRequest("/products"));
+    expect(data).toEqual([{ id: 1 }]);
+    expect(requests).toBe(3);
+  });
+
+  test("gives up after the configured retries", async () => {
+    responses = [unavailable];
+    const error = await failure(runWithStore(store, () => wcRequest("/products", {}, { retries: 2 })));
+    expect(error).toBeInstanceOf(WooCommerceError);
+    expect(error).toMatchObject({ status: 503, attempts: 3, retryable: true });
+    expect(requests).toBe(3);
+  });
+
+  test("doesn't retry client errors", async () => {
+    responses = [() => new Response("no", { status: 404 })];
+    const error = await failure(runWithStore(store, () => wcRequest("/products/999")));
+    expect(error).toMatchObject({ status: 404, attempts: 1, retryable: false, endpoint: "/products/999" });
+    expect(requests).toBe(1);
+  });
+
+  test("times out slow responses and retries them", async () => {
+    responses = [() => Bun.sleep(200).then(() => Response.json([])), () => Response.json([{ id: 2 }])];
+    const data = await runWithStore(store, () => wcRequest("/products", {}, { timeoutMs: 50 }));
+    expect(data).toEqual([{ id: 2 }]);
+    expect(requests).toBe(2);
+
+    responses = [() => Bun.sleep(200).then(() => Response.json([]))];
+    const error = await failure(runWithStore(store, () => wcRequest("/products", {}, { timeoutMs: 50, retries: 0 })));
+    expect(error.message).toContain("timed out after 50ms");
+  });
+
+  test("keeps pagination headers", async () => {
+    responses = [() => Response.json([], { headers: { "X-WP-TotalPages": "4" } })];
+    const { headers } = await runWithStore(store, () => wcRequestWithHeaders("/products"));
+    expect(headers.get("x-wp-totalpages")).toBe("4");
+  });
+
+  test("errors never carry the credentials", async () => {
+    responses = [() => new Response("no", { status: 401 })];
+    const error = await failure(runWithStore(store, () => wcRequest("/products")));
+    expect(JSON.stringify(error.toJSON())).not.toContain("secret");
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  authorizeRequest,
+  getWooCommerceCredentials,
+  redactCredentials,
+  type WooCommerceCredentials,
+} from "./woocommerce-auth";
+
+/**
+ * HTTP client for the WooCommerce REST API.
+ *
+ * Every request goes through a shared concurrency limit, gets a per-request
+ * timeout and is retried with exponential backoff on 429/5xx responses and
+ * network errors. Retry-After is honoured when the server sends it.
+ * Credentials are sent as configured in woocommerce-auth.ts and never appear
+ * in thrown errors.
+ */
+
+const WC_MAX_RETRIES = parseInt(process.env.WC_MAX_RETRIES || "3", 10);
+const WC_TIMEOUT_MS = parseInt(process.env.WC_TIMEOUT_MS || "30000", 10);
+const WC_CONCURRENCY = Math.max(1, parseInt(process.env.WC_CONCURRENCY || "4", 10));
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30000;
+
+export interface WooCommerceRequestOptions {
+  retries?: number;
+  timeoutMs?: number;
+}
+
+export class WooCommerceError extends Error {
+  readonly endpoint: string;
+  readonly status: number | null;
+  readonly attempts: number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    details: { endpoint: string; status: number | null; attempts: number; retryable: boolean }
+  ) {
+    super(message);
+    this.name = "WooCommerceError";
+    this.endpoint = details.endpoint;
+    this.status = details.status;
+    this.attempts = details.attempts;
+    this.retryable = details.retryable;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      endpoint: this.endpoint,
+      status: this.status,
+      attempts: this.attempts,
+      retryable: this.retryable,
+    };
+  }
+}
+
+// Simple FIFO semaphore shared by all requests in this thread
+let activeRequests = 0;
+const waiting: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+  if (activeRequests < WC_CONCURRENCY) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next(); // hand the slot over directly
+  } else {
+    activeRequests--;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+  const jitter = Math.random() * BACKOFF_BASE_MS;
+  return Math.min(BACKOFF_MAX_MS, exponential + jitter);
+}
+
+function buildUrl(
+  endpoint: string,
+  params: Record<string, string>
+): { url: URL; credentials: WooCommerceCredentials } {
+  const credentials = getWooCommerceCredentials();
+
+  if (!credentials) {
+    throw new WooCommerceError("WooCommerce configuration missing", {
+      endpoint,
+      status: null,
+      attempts: 0,
+      retryable: false,
+    });
+  }
+
+  const url = new URL(`${credentials.apiUrl}/wp-json/wc/v3${endpoint}`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.append(key, value);
+  }
+  return { url, credentials };
+}
+
+async function fetchOnce(
+  url: URL,
+  credentials: WooCommerceCredentials,
+  timeoutMs: number
+): Promise<Response> {
+  await acquireSlot();
+  try {
+    // Signed per attempt so OAuth nonces/timestamps are fresh on retries
+    const request = authorizeRequest(url, "GET", credentials);
+    return await fetch(request.url.toString(), {
+      headers: request.headers,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } finally {
+    releaseSlot();
+  }
+}
+
+export interface WooCommerceResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+export async function wcRequest<T = unknown>(
+  endpoint: string,
+  params: Record<string, string> = {},
+  options: WooCommerceRequestOptions = {}
+): Promise<T> {
+  const { data } = await wcRequestWithHeaders<T>(endpoint, params, options);
+  return data;
+}
+
+// Same as wcRequest, but keeps the response headers (X-WP-Total, X-WP-TotalPages)
+export async function wcRequestWithHeaders<T = unknown>(
+  endpoint: string,
+  params: Record<string, string> = {},
+  options: WooCommerceRequestOptions = {}
+): Promise<WooCommerceResponse<T>> {
+  const retries = options.retries ?? WC_MAX_RETRIES;
+  const timeoutMs = options.timeoutMs ?? WC_TIMEOUT_MS;
+  const { url, credentials } = buildUrl(endpoint, params);
+
+  for (let attempt = 1; ; attempt++) {
+    let error: WooCommerceError;
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetchOnce(url, credentials, timeoutMs);
+      if (response.ok) {
+        return { data: (await response.json()) as T, headers: response.headers };
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      error = new WooCommerceError(
+        redactCredentials(
+          `WooCommerce API Error: ${response.status} ${response.statusText} (${endpoint}, attempt ${attempt})`,
+          credentials
+        ),
+        { endpoint, status: response.status, attempts: attempt, retryable: isRetryableStatus(response.status) }
+      );
+    } catch (err) {
+      // Timeouts, DNS failures, dropped connections, invalid JSON bodies
+      // The original error is not attached as cause: it may carry the request URL
+      const reason = err instanceof Error && err.name === "TimeoutError"
+        ? `timed out after ${timeoutMs}ms`
+        : err instanceof Error ? err.message : String(err);
+      error = new WooCommerceError(
+        redactCredentials(`WooCommerce request failed: ${reason} (${endpoint}, attempt ${attempt})`, credentials),
+        { endpoint, status: null, attempts: attempt, retryable: true }
+      );
+    }
+
+    if (!error.retryable || attempt > retries) {
+      throw error;
+    }
+
+    const delay = retryAfterMs ?? backoffDelay(attempt);
+    console.warn(`${error.message} - retrying in ${Math.round(delay)}ms`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
@@ -1,45 +1,23 @@
-import { stringify } from "csv-stringify/sync";
-import { Base64 } from "js-base64";
 import type { WCProduct, MetaProduct } from "./types";
-import { Worker } from "worker_threads";
-import path from "path";
-import os from "os";
 import { generateMetaRetailerId, generateItemGroupId } from "./utils/retailer-id";
-
-const WC_API_URL = process.env.WC_API_URL;
-const WC_CONSUMER_KEY = process.env.WC_CONSUMER_KEY;
-const WC_CONSUMER_SECRET = process.env.WC_CONSUMER_SECRET;
-const WC_BRAND = process.env.WC_BRAND || "Lunatik";
-const WC_CURRENCY = process.env.WC_CURRENCY || "BAM";
-
-const MAX_RETRIES = 3;
-
+import { buildTemplateImages, toImageColumnEntries } from "./image-templates";
+import { resolveAttributes } from "./attribute-mapping";
+import { resolveProductCategories, resolveGallerySetting } from "./taxonomy";
+import { hasSalePrice, isSaleActive, isSaleExpired, formatSaleEffectiveDate } from "./sale-window";
+import { loadMappingContext, type MappingContext } from "./mapping-context";
+import { resolveCustomLabels } from "./custom-labels";
+import { resolveIdentifiers } from "./product-identifiers";
+import { wcRequest, wcRequestWithHeaders, type WooCommerceResponse } from "./woocommerce-client";
+
+// Retries, timeouts and concurrency are handled by the client
 export async function fetchWooCommerce(
 	endpoint: string,
 	params: Record<string, string> = {}
-) {
-	if (!WC_API_URL || !WC_CONSUMER_KEY || !WC_CONSUMER_SECRET) {
-		throw new Error("WooCommerce configuration missing");
-	}
-
-	const url = new URL(`${WC_API_URL}/wp-json/wc/v3${endpoint}`);
-	url.searchParams.append("consumer_key", WC_CONSUMER_KEY);
-	url.searchParams.append("consumer_secret", WC_CONSUMER_SECRET);
-
-	for (const [key, value] of Object.entries(params)) {
-		url.searchParams.append(key, value);
-	}
-
-	const response = await fetch(url.toString());
-	if (!response.ok) {
-		throw new Error(
-			`WooCommerce API Error: ${response.status} ${response.statusText}`
-		);
-	}
-	return response.json();
+): Promise<any> {
+	return wcRequest(endpoint, params);
 }
 
-function stripHtml(html: string): string {
+export function stripHtml(html: string): string {
 	if (!html) return "";
 	// 1. Replace <br>, <p>, </div>, etc with newlines to preserve some structure
 	const withNewlines = html
@@ -67,15 +45,20 @@ function stripHtml(html: string): string {
 export function mapToMetaProduct(
 	product: WCProduct,
 	parent?: WCProduct,
-	style: "standard" | "christmas" = "standard"
+	context: MappingContext = loadMappingContext()
 ): MetaProduct {
+	const { style, template } = context;
+
 	// Use parent data if variation, but override with variation specific data
 	const mainProduct = parent || product;
 
 	// Use centralized ID generation for consistency across sync and webhooks
 	const id = generateMetaRetailerId(product, parent);
 
-	const title = mainProduct.name;
+	// Campaign styles may prefix the title (e.g. "Black Friday"), images keep the plain name
+	const title = style.title_prefix
+		? `${style.title_prefix} ${mainProduct.name}`
+		: mainProduct.name;
 
 	// strip HTML from description for plain description
 	const description = stripHtml(
@@ -92,91 +75,68 @@ export function mapToMetaProduct(
 			? "preorder"
 			: "out of stock";
 
-	const price = `${product.regular_price || product.price} ${WC_CURRENCY}`;
-	const sale_price = product.sale_price
-		? `${product.sale_price} ${WC_CURRENCY}`
+	const price = `${product.regular_price || product.price} ${context.currency}`;
+	// Scheduled sales carry their window so Meta applies them on time; expired ones are dropped
+	const publishSalePrice = hasSalePrice(product) && !isSaleExpired(product);
+	const sale_price = publishSalePrice
+		? `${product.sale_price} ${context.currency}`
+		: undefined;
+	const sale_price_effective_date = publishSalePrice
+		? formatSaleEffectiveDate(product)
 		: undefined;
 
 	const link = product.permalink || mainProduct.permalink;
 	// Variations use 'image' (singular), products use 'images' (array)
 	const original_image_link =
 		product.image?.src || product.images?.[0]?.src || mainProduct.images?.[0]?.src || "";
-	// Only use the three generated multi-ratio images via imgen service, no additional WooCommerce images
-
-	const priceForImage = `${product.regular_price || product.price} KM`;
-	const hasSalePrice = !!product.sale_price && product.sale_price !== "";
-	const salePriceForImage = hasSalePrice ? `${product.sale_price} KM` : "";
-
-	const encodedName = encodeURIComponent(title);
-	const encodedPrice = encodeURIComponent(priceForImage);
-	const encodedSalePrice = encodeURIComponent(salePriceForImage);
-	const encodedImg = original_image_link
-		? Base64.encode(original_image_link, true)
-		: "";
 
 	// Generate multi-ratio images with tags
-	// Each ratio gets its own imgen URL with the appropriate aspect_ratio parameter
-	let image_link = "";
-	const images: Array<{ url: string; tag: string[] }> = [];
+	// Each template ratio gets its own URL with the appropriate aspect ratio parameter
+	const images = buildTemplateImages(template, {
+		name: mainProduct.name,
+		price: product.regular_price || product.price,
+		// Images can't follow a schedule, so only render the discount while the sale is live
+		salePrice: isSaleActive(product) ? product.sale_price : undefined,
+		imageUrl: original_image_link,
+		style: style.imgen_style,
+	});
+	const image_link = images[0]?.url ?? "";
+
+	// Real gallery photos follow the generated images only where the category asks for them
+	// (jewelry, furniture, ...). Variations take the parent's gallery minus their own image.
+	const gallery = resolveGallerySetting(
+		context.categoryTree,
+		parent?.categories || product.categories || []
+	);
+	const galleryUrls = gallery.count > 0 && image_link
+		? [...new Set((mainProduct.images || []).map((image) => image.src))]
+			.filter((src) => src && src !== original_image_link)
+			.slice(0, gallery.count)
+		: [];
+	const additional_image_link = galleryUrls.length > 0 ? galleryUrls.join(",") : undefined;
 
 	// CSV format columns (for backward compatibility with CSV export)
-	const imageEntries: Record<string, string> = {
-		"image[0].url": "",
-		"image[0].tag[0]": "",
-		"image[1].url": "",
-		"image[1].tag[0]": "",
-		"image[2].url": "",
-		"image[2].tag[0]": "",
-		"image[2].tag[1]": "",
-	};
+	const imageEntries = toImageColumnEntries(template, images);
 
-	if (original_image_link) {
-		// Only include discount_price param if there's actually a sale price
-		const discountParam = hasSalePrice ? `&discount_price=${encodedSalePrice}` : "";
-		const baseParams = `price=${encodedPrice}${discountParam}&name=${encodedName}&img=${encodedImg}&style=${style}`;
-
-		// Image 0: 1:1 square - Default image (no tag needed, first image is default)
-		const imgenUrl1x1 = `https://imgen.lunatik.cloud/?${baseParams}&aspect_ratio=1:1`;
-		image_link = imgenUrl1x1;
-		images.push({ url: imgenUrl1x1, tag: [] });  // Default image, no tag
-		imageEntries["image[0].url"] = imgenUrl1x1;
-		imageEntries["image[0].tag[0]"] = "";
-
-		// Image 1: 4:5 portrait for feed placements
-		const imgenUrl4x5 = `https://imgen.lunatik.cloud/?${baseParams}&aspect_ratio=4:5`;
-		images.push({ url: imgenUrl4x5, tag: ["ASPECT_RATIO_4_5_PREFERRED"] });
-		imageEntries["image[1].url"] = imgenUrl4x5;
-		imageEntries["image[1].tag[0]"] = "ASPECT_RATIO_4_5_PREFERRED";
-
-		// Image 2: 9:16 for Stories and Reels (both tags for full coverage)
-		const imgenUrl9x16 = `https://imgen.lunatik.cloud/?${baseParams}&aspect_ratio=9:16`;
-		images.push({ url: imgenUrl9x16, tag: ["STORY_PREFERRED", "REELS_PREFERRED"] });
-		imageEntries["image[2].url"] = imgenUrl9x16;
-		imageEntries["image[2].tag[0]"] = "STORY_PREFERRED";
-		imageEntries["image[2].tag[1]"] = "REELS_PREFERRED";
-	}
+	// GTIN/MPN and per-product brand/condition from the store's configured meta keys
+	const identifiers = resolveIdentifiers(product, parent, context.identifierKeys, context.weightUnit);
+	const brand = identifiers.brand ?? context.brand;
 
-	const brand = WC_BRAND;
-
-	// Extract attributes (color, size, etc.)
-	let color = undefined;
-	let size = undefined;
-	let gender = undefined;
-	let age_group = undefined;
-
-	const allAttributes = [
-		...(parent?.attributes || []),
-		...(product.attributes || []),
-	];
-
-	for (const attr of allAttributes) {
-		const name = attr.name.toLowerCase();
-		const option = attr.option || (attr.options && attr.options[0]);
-		if (name.includes("color")) color = option;
-		if (name.includes("size")) size = option;
-		if (name.includes("gender")) gender = option;
-		if (name.includes("age")) age_group = option;
-	}
+	// Map attributes (color, size, gender, ...) through the configured rules.
+	// Parent attributes come first so the variation's own values win.
+	const { color, size, gender, age_group, material } = resolveAttributes(
+		[...(parent?.attributes || []), ...(product.attributes || [])],
+		context.attributeMappings
+	);
+
+	// Use parent categories for variations, own categories for main products
+	const { google_product_category, product_type } = resolveProductCategories(
+		context.categoryTree,
+		parent?.categories || product.categories || []
+	);
+
+	// Campaign labels (margin band, bestseller, season, ...) from the configured expressions
+	const customLabels = resolveCustomLabels(context.customLabels, product, parent);
 
 	const baseProduct: MetaProduct & Record<string, any> = {
 		id,
@@ -184,202 +144,127 @@ export function mapToMetaProduct(
 		description,
 		rich_text_description,
 		availability,
-		condition: "new",
+		condition: identifiers.condition ?? "new",
 		price,
 		link,
 		image_link,
 		brand,
-		// Multi-ratio images array for Meta API
-		images: images.length > 0 ? images : undefined,
+		gtin: identifiers.gtin,
+		mpn: identifiers.mpn,
+		shipping_weight: identifiers.shipping_weight,
+		// Multi-ratio images array for Meta API, gallery photos appended with their tags
+		images: images.length > 0
+			? [...images, ...galleryUrls.map((url) => ({ url, tag: [...gallery.tags] }))]
+			: undefined,
+		additional_image_link,
 		age_group,
 		color,
 		gender,
+		material,
 		size,
 		// Use centralized item_group_id generation for consistency
 		item_group_id: generateItemGroupId(product, parent),
-		// Use parent categories for variations, own categories for main products
-		google_product_category: "", // Can be mapped from category if needed
-		product_type: (parent?.categories || product.categories)?.map((c) => c.name).join(" > ") || "",
+		// Mapped (or inherited) Google taxonomy and the full category path
+		google_product_category,
+		product_type,
 		sale_price,
+		sale_price_effective_date,
 		status: "active",
 		// Set inventory to 0 for out of stock products, otherwise use stock_quantity
 		inventory:
 			product.stock_status === "outofstock"
 				? 0
 				: product.stock_quantity ?? undefined,
+		...customLabels,
 	};
 
 	// Merge multi-ratio image entries (for CSV export backward compatibility)
 	return { ...baseProduct, ...imageEntries };
 }
 
-export async function fetchAllProducts(
+const PAGE_SIZE = 100;
+const WC_PAGE_CONCURRENCY = Math.max(1, parseInt(process.env.WC_PAGE_CONCURRENCY || "4", 10));
+
+// Yields one page of results at a time, in page order. The first response's
+// X-WP-TotalPages tells us how many pages remain; those are fetched with up to
+// WC_PAGE_CONCURRENCY requests in flight.
+export async function* iterateProductPages<T = WCProduct>(
 	endpoint: string,
 	params: Record<string, string> = {}
-): Promise<WCProduct[]> {
-	let allProducts: WCProduct[] = [];
-	let page = 1;
-	const perPage = 100;
+): AsyncGenerator<T[]> {
+	const fetchPage = (page: number) =>
+		wcRequestWithHeaders<T[]>(endpoint, {
+			...params,
+			page: page.toString(),
+			per_page: PAGE_SIZE.toString(),
+		});
 
 	console.log(`Starting fetch for ${endpoint}...`);
+	const first = await fetchPage(1);
+	if (first.data.length > 0) yield first.data;
 
-	while (true) {
-		console.log(`Fetching page ${page}...`);
-		const pageParams = {
-			...params,
-			page: page.toString(),
-			per_page: perPage.toString(),
-		};
-		const products: WCProduct[] = await fetchWooCommerce(
-			endpoint,
-			pageParams
-		);
-
-		if (products.length === 0) {
-			console.log(`Page ${page} is empty. Fetching complete.`);
-			break;
-		}
+	const totalPages = parseInt(first.headers.get("x-wp-totalpages") || "", 10);
 
-		allProducts = [...allProducts, ...products];
-		console.log(
-			`Fetched ${products.length} products (Total: ${allProducts.length})`
-		);
+	if (Number.isNaN(totalPages)) {
+		// No pagination headers - walk pages until a short one comes back
+		let last = first.data;
+		for (let page = 2; last.length === PAGE_SIZE; page++) {
+			last = (await fetchPage(page)).data;
+			if (last.length > 0) yield last;
+		}
+		return;
+	}
 
-		if (products.length < perPage) {
-			console.log(
-				`Page ${page} has fewer than ${perPage} items. Fetching complete.`
-			);
-			break;
+	console.log(`${endpoint}: ${first.headers.get("x-wp-total") ?? "?"} items in ${totalPages} pages`);
+
+	const inFlight: Promise<WooCommerceResponse<T[]>>[] = [];
+	let nextPage = 2;
+	const fill = () => {
+		while (nextPage <= totalPages && inFlight.length < WC_PAGE_CONCURRENCY) {
+			const page = fetchPage(nextPage++);
+			// A later page may fail while we wait on an earlier one or the consumer
+			// holds a yield; it is rethrown when its turn comes
+			page.catch(() => {});
+			inFlight.push(page);
 		}
+	};
 
-		page++;
+	fill();
+	while (inFlight.length > 0) {
+		const { data } = await inFlight.shift()!;
+		fill();
+		if (data.length > 0) yield data;
 	}
-
-	console.log(`Total products fetched: ${allProducts.length}`);
-	return allProducts;
 }
 
-export async function generateProductFeed(
-	style: "standard" | "christmas" = "standard"
-): Promise<string> {
-	// 1. Fetch only in-stock products
-	const products: WCProduct[] = await fetchAllProducts("/products", { stock_status: "instock" });
-
-	console.log(
-		`Fetched ${products.length} products. Starting parallel processing with style: ${style}...`
-	);
-
-	// 2. Parallel Processing with Workers
-	const numCPUs = os.cpus().length;
-	// Use at most 4 workers or fewer if fewer items
-	const numWorkers = Math.min(numCPUs, 4, Math.ceil(products.length / 10));
-	const chunkSize = Math.ceil(products.length / numWorkers);
-
-	const workerPromises: Promise<MetaProduct[]>[] = [];
-
-	for (let i = 0; i < numWorkers; i++) {
-		const start = i * chunkSize;
-		const end = start + chunkSize;
-		const chunk = products.slice(start, end);
-
-		if (chunk.length === 0) continue;
-
-		workerPromises.push(
-			new Promise((resolve, reject) => {
-				const worker = new Worker(
-					path.resolve(import.meta.dir, "worker.ts"),
-					{
-						workerData: {
-							products: chunk,
-							WC_API_URL,
-							WC_CONSUMER_KEY,
-							WC_CONSUMER_SECRET,
-							WC_BRAND,
-							WC_CURRENCY,
-							style,
-						},
-					}
-				);
-
-				worker.on("message", (result: MetaProduct[]) => resolve(result));
-				worker.on("error", reject);
-				worker.on("exit", (code) => {
-					if (code !== 0)
-						reject(new Error(`Worker stopped with exit code ${code}`));
-				});
-			})
-		);
+// Yields items one by one, for consumers that don't care about page boundaries
+export async function* iterateAllProducts<T = WCProduct>(
+	endpoint: string,
+	params: Record<string, string> = {}
+): AsyncGenerator<T> {
+	for await (const page of iterateProductPages<T>(endpoint, params)) {
+		yield* page;
 	}
+}
 
-	const results = await Promise.all(workerPromises);
-	const feedItems = results.flat();
-
-	// 3. Convert to CSV
-	console.log(
-		`Processing ${feedItems.length} items for CSV generation (style: ${style})...`
-	);
-
-	// Base columns + multi-ratio image columns
-	const columns = [
-		"id",
-		"title",
-		"description",
-		"rich_text_description",
-		"availability",
-		"condition",
-		"price",
-		"link",
-		"image_link",
-		"brand",
-		// Multi-ratio image columns (only these three images, no additional WooCommerce images)
-		"image[0].url",
-		"image[0].tag[0]",
-		"image[1].url",
-		"image[1].tag[0]",
-		"image[2].url",
-		"image[2].tag[0]",
-		"image[2].tag[1]",
-		// Rest of columns
-		"age_group",
-		"color",
-		"gender",
-		"item_group_id",
-		"google_product_category",
-		"product_type",
-		"sale_price",
-		"sale_price_effective_date",
-		"size",
-		"status",
-		"inventory",
-	];
-
-	let csv = "";
-	try {
-		csv = stringify(feedItems, {
-			header: true,
-			columns: columns,
-			quoted: true, // Force quotes for safety
-		});
-		console.log(`CSV generation complete for style: ${style}.`);
-	} catch (err) {
-		console.error("Error generating CSV:", err);
-		throw err;
+// Every variation of a variable product, across as many pages as needed
+export async function fetchProductVariations(parentId: number): Promise<WCProduct[]> {
+	const variations: WCProduct[] = [];
+	for await (const page of iterateProductPages(`/products/${parentId}/variations`)) {
+		variations.push(...page);
 	}
-
-	return csv;
+	return variations;
 }
 
-export async function generateBothFeeds(): Promise<{
-	standard: string;
-	christmas: string;
-}> {
-	console.log("Generating both standard and christmas feeds...");
-
-	const [standardFeed, christmasFeed] = await Promise.all([
-		generateProductFeed("standard"),
-		generateProductFeed("christmas"),
-	]);
+export async function fetchAllProducts<T = WCProduct>(
+	endpoint: string,
+	params: Record<string, string> = {}
+): Promise<T[]> {
+	const allProducts: T[] = [];
+	for await (const page of iterateProductPages<T>(endpoint, params)) {
+		allProducts.push(...page);
+	}
 
-	console.log("Both feeds generated successfully.");
-	return { standard: standardFeed, christmas: christmasFeed };
+	console.log(`Total products fetched: ${allProducts.length}`);
+	return allProducts;
 }
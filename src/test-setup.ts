@@ -0,0 +1,6 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Preloaded by `bun test` (bunfig.toml): every test run gets its own empty database
+process.env.DATABASE_PATH = join(mkdtempSync(join(tmpdir(), "ctx-generator-test-")), "test.db");